@@ -0,0 +1,170 @@
+/**
+ * WeFlow API CLI - 账号注册表
+ * 每个配置的账号（MY_WXID + ACCOUNTS_FILE）对应一个数据源，
+ * HTTP / WebSocket 按 wxid 取用；未指定账号时使用默认账号（MY_WXID）。
+ * 后台定时检查每个账号：未连接的尝试重新打开，已连接但查询失败的（文件被轮换或锁定）关闭后重新打开
+ */
+import { getConfig } from './config.js';
+import { createDataSource, type DataSource } from './dataSource.js';
+import { runWithPriority } from './opScheduler.js';
+
+export interface AccountStatus {
+    lastError: string | null;
+    lastConnectedAt: number | null;
+    lastCheckAt: number | null;
+    /** 连续重连失败次数，连接成功后清零 */
+    reconnectAttempts: number;
+}
+
+export interface Account {
+    wxid: string;
+    dbPath: string;
+    decryptKey: string;
+    imageAesKey: string;
+    imageXorKey: number | null;
+    source: DataSource;
+    status: AccountStatus;
+}
+
+export class AccountRegistry {
+    private accounts: Map<string, Account> = new Map();
+    private defaultWxid: string;
+    private reconnectTimer: ReturnType<typeof setInterval> | null = null;
+    private checking = false;
+
+    constructor() {
+        const config = getConfig();
+        for (const account of config.accounts) {
+            this.accounts.set(account.wxid, {
+                ...account,
+                source: createDataSource(config.dataSource),
+                status: { lastError: null, lastConnectedAt: null, lastCheckAt: null, reconnectAttempts: 0 },
+            });
+        }
+        this.defaultWxid = config.accounts[0].wxid;
+    }
+
+    /**
+     * 打开所有账号，返回每个账号的连接结果
+     */
+    async openAll(): Promise<{ wxid: string; connected: boolean }[]> {
+        const results: { wxid: string; connected: boolean }[] = [];
+        // WCDB 账号共用一个工作线程，逐个打开
+        for (const account of this.accounts.values()) {
+            const connected = await account.source.open(account.dbPath, account.decryptKey, account.wxid);
+            this.recordOpenResult(account, connected, '打开数据库失败');
+            results.push({ wxid: account.wxid, connected });
+        }
+        return results;
+    }
+
+    /**
+     * 按 wxid 查找账号，未传 wxid 时返回默认账号
+     */
+    get(wxid?: string | null): Account | null {
+        if (!wxid) return this.getDefault();
+        return this.accounts.get(wxid) || null;
+    }
+
+    getDefault(): Account {
+        return this.accounts.get(this.defaultWxid)!;
+    }
+
+    list(): Account[] {
+        return Array.from(this.accounts.values());
+    }
+
+    isDefault(wxid: string): boolean {
+        return wxid === this.defaultWxid;
+    }
+
+    /**
+     * 账号对应的 HTTP 路由前缀：默认账号为 /api/v1，其余为 /api/v1/accounts/{wxid}
+     */
+    getApiBasePath(wxid: string): string {
+        return this.isDefault(wxid) ? '/api/v1' : `/api/v1/accounts/${encodeURIComponent(wxid)}`;
+    }
+
+    /**
+     * 启动后台重连循环
+     */
+    startReconnectLoop(intervalMs: number): void {
+        if (this.reconnectTimer || intervalMs <= 0) return;
+        this.reconnectTimer = setInterval(() => {
+            void this.checkAccounts();
+        }, intervalMs);
+    }
+
+    stopReconnectLoop(): void {
+        if (this.reconnectTimer) {
+            clearInterval(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private async checkAccounts(): Promise<void> {
+        if (this.checking) return;
+        this.checking = true;
+        try {
+            // 检查和重连不应挤占实时推送和普通查询
+            await runWithPriority('bulk', async () => {
+                for (const account of this.accounts.values()) {
+                    await this.checkAccount(account);
+                }
+            });
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    private async checkAccount(account: Account): Promise<void> {
+        const { source, status } = account;
+        status.lastCheckAt = Date.now();
+
+        if (source.isConnected()) {
+            const probe = await source.getSessions();
+            if (probe.success) {
+                status.lastError = null;
+                return;
+            }
+            console.warn(`⚠️ 账号 ${account.wxid} 查询失败（${probe.error}），尝试重新打开数据库`);
+        }
+
+        const connected = await source.reopen(account.dbPath, account.decryptKey, account.wxid);
+        this.recordOpenResult(account, connected, '重新打开数据库失败');
+        if (connected) {
+            console.log(`✅ 账号 ${account.wxid} 已重新连接`);
+        } else if (status.reconnectAttempts === 1) {
+            // 只在第一次失败时提示，避免每个周期刷屏
+            console.warn(`⚠️ 账号 ${account.wxid} 重连失败，将在后台继续重试`);
+        }
+    }
+
+    private recordOpenResult(account: Account, connected: boolean, error: string): void {
+        if (connected) {
+            account.status.lastConnectedAt = Date.now();
+            account.status.lastError = null;
+            account.status.reconnectAttempts = 0;
+        } else {
+            account.status.lastError = error;
+            account.status.reconnectAttempts++;
+        }
+    }
+
+    shutdown(): void {
+        this.stopReconnectLoop();
+        for (const account of this.accounts.values()) {
+            account.source.shutdown();
+        }
+    }
+}
+
+// 单例实例
+let registryInstance: AccountRegistry | null = null;
+
+export function getAccountRegistry(): AccountRegistry {
+    if (!registryInstance) {
+        registryInstance = new AccountRegistry();
+    }
+    return registryInstance;
+}
@@ -0,0 +1,118 @@
+/**
+ * WeFlow API CLI - API 密钥鉴权
+ * HTTP 通过 Authorization: Bearer <key> 传递密钥，WebSocket 握手时也可以用 ?token=<key>
+ * （浏览器的 WebSocket API 无法设置请求头）。未配置任何密钥时不做鉴权
+ */
+import { createHash, timingSafeEqual } from 'crypto';
+import { getConfig, type ApiKeyConfig, type ApiScope, type RedactRule, type SessionScopeConfig } from './config.js';
+import { redactObject, redactText } from './redaction.js';
+
+interface SessionMatcher {
+    allow: RegExp[];
+    deny: RegExp[];
+}
+
+export interface ApiKey {
+    name: string;
+    scopes: Set<ApiScope>;
+    /** 会话范围，null 表示不限制 */
+    sessions: SessionMatcher | null;
+    redact: Set<RedactRule>;
+}
+
+interface StoredKey extends ApiKey {
+    digest: Buffer;
+}
+
+/** 比较摘要而不是原文，避免长度不同时提前返回泄露信息 */
+function digestKey(key: string): Buffer {
+    return createHash('sha256').update(key, 'utf8').digest();
+}
+
+/** 精确 ID 或 * 通配符模式（*@chatroom、gh_*），区分大小写 */
+function compilePattern(pattern: string): RegExp {
+    const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+function compileSessionScope(scope: SessionScopeConfig | null): SessionMatcher | null {
+    if (!scope) return null;
+    return { allow: scope.allow.map(compilePattern), deny: scope.deny.map(compilePattern) };
+}
+
+/**
+ * 密钥能否访问该会话：deny 优先，allow 为空时允许其余所有会话。未启用鉴权（apiKey 为 null）时不限制
+ */
+export function canAccessSession(apiKey: ApiKey | null, sessionId: string): boolean {
+    const scope = apiKey?.sessions;
+    if (!scope) return true;
+    if (scope.deny.some((re) => re.test(sessionId))) return false;
+    return scope.allow.length === 0 || scope.allow.some((re) => re.test(sessionId));
+}
+
+/**
+ * 按密钥的打码规则处理文本
+ */
+export function redactForKey<T extends string | null | undefined>(apiKey: ApiKey | null, text: T): T {
+    if (!apiKey || apiKey.redact.size === 0 || !text) return text;
+    return redactText(text, apiKey.redact) as T;
+}
+
+/**
+ * 按密钥的打码规则处理结构化内容（rich payload）
+ */
+export function redactObjectForKey<T extends object | null | undefined>(apiKey: ApiKey | null, value: T): T {
+    if (!apiKey || apiKey.redact.size === 0 || !value) return value;
+    return redactObject(value, apiKey.redact) as T;
+}
+
+export class AuthService {
+    private keys: StoredKey[];
+
+    constructor(keys: ApiKeyConfig[]) {
+        this.keys = keys.map((k) => ({
+            name: k.name,
+            scopes: new Set(k.scopes),
+            sessions: compileSessionScope(k.sessions),
+            redact: new Set(k.redact),
+            digest: digestKey(k.key),
+        }));
+    }
+
+    isEnabled(): boolean {
+        return this.keys.length > 0;
+    }
+
+    /**
+     * 从 Authorization 头（Bearer）或 token 参数中取出密钥并校验，失败返回 null
+     */
+    authenticate(authorization: string | undefined, token?: string | null): ApiKey | null {
+        let candidate = token || '';
+        const match = /^Bearer\s+(.+)$/i.exec(authorization || '');
+        if (match) {
+            candidate = match[1].trim();
+        }
+        if (!candidate) return null;
+
+        const digest = digestKey(candidate);
+        let found: StoredKey | null = null;
+        // 遍历全部密钥，耗时与匹配位置无关
+        for (const key of this.keys) {
+            if (timingSafeEqual(key.digest, digest)) {
+                found = key;
+            }
+        }
+        if (!found) return null;
+        return { name: found.name, scopes: found.scopes, sessions: found.sessions, redact: found.redact };
+    }
+}
+
+// 单例实例
+let authInstance: AuthService | null = null;
+
+export function getAuthService(): AuthService {
+    if (!authInstance) {
+        authInstance = new AuthService(getConfig().apiKeys);
+    }
+    return authInstance;
+}
@@ -4,24 +4,87 @@
  */
 import { config } from 'dotenv';
 import { resolve } from 'path';
+import { existsSync, readFileSync } from 'fs';
 
 // 加载 .env 文件
 config({ path: resolve(process.cwd(), '.env') });
 
+export type DataSourceKind = 'wcdb' | 'sqlite';
+
+export interface AccountConfig {
+    wxid: string;
+    dbPath: string;
+    decryptKey: string;
+    /** V4 图片（.dat）V2 格式的 AES 密钥（16 个字符），未配置时只能解密旧版和 V1 格式 */
+    imageAesKey: string;
+    /** V4 图片的单字节异或密钥，未配置时根据文件尾自动推断 */
+    imageXorKey: number | null;
+}
+
+export type ApiScope = 'sessions' | 'messages' | 'contacts' | 'realtime';
+
+export const API_SCOPES: readonly ApiScope[] = ['sessions', 'messages', 'contacts', 'realtime'];
+
+export type RedactRule = 'phone' | 'idcard' | 'bankcard' | 'amount';
+
+export const REDACT_RULES: readonly RedactRule[] = ['phone', 'idcard', 'bankcard', 'amount'];
+
+/**
+ * 会话范围：精确 ID 或带 * 通配符的模式（如 *@chatroom、gh_*）。
+ * allow 为空表示允许所有会话；deny 优先于 allow
+ */
+export interface SessionScopeConfig {
+    allow: string[];
+    deny: string[];
+}
+
+export interface ApiKeyConfig {
+    /** 用于日志的名称，不会输出密钥本身 */
+    name: string;
+    key: string;
+    scopes: ApiScope[];
+    /** 可访问的会话，未配置时不限制 */
+    sessions: SessionScopeConfig | null;
+    /** 返回前需要打码的内容 */
+    redact: RedactRule[];
+}
+
 export interface AppConfig {
-    // 数据库相关
+    // 数据库相关（默认账号）
+    dataSource: DataSourceKind;
     dbPath: string;
     decryptKey: string;
     myWxid: string;
 
+    /** 所有账号，第一个为默认账号（即 DB_PATH / DECRYPT_KEY / MY_WXID） */
+    accounts: AccountConfig[];
+
     // HTTP API
     httpPort: number;
     httpHost: string;
+    /** 单个 HTTP 请求的最长处理时间（毫秒），0 表示不限制 */
+    requestTimeoutMs: number;
 
     // WebSocket
     wsPort: number;
     wsHost: string;
 
+    /** API 密钥，为空时不做鉴权 */
+    apiKeys: ApiKeyConfig[];
+
+    /** 账号断开后自动重连、以及检查已连接账号是否可用的间隔（毫秒），0 表示关闭 */
+    reconnectIntervalMs: number;
+
+    /** WebSocket 推送时缓存的近期消息条数，用于撤回通知附带原始内容，0 表示不缓存 */
+    recallCacheSize: number;
+
+    // 全文搜索索引
+    searchIndexEnabled: boolean;
+    /** 索引文件目录，每个账号一个 <wxid>.db */
+    searchIndexDir: string;
+    /** 定时检查所有会话新消息的间隔（毫秒），0 表示只在数据库变更通知时更新 */
+    searchIndexIntervalMs: number;
+
     // 日志
     logEnabled: boolean;
     logDir: string;
@@ -34,27 +97,242 @@ export function loadConfig(): AppConfig {
     const dbPath = process.env.DB_PATH || '';
     const decryptKey = process.env.DECRYPT_KEY || '';
     const myWxid = process.env.MY_WXID || '';
+    const dataSource = (process.env.DATA_SOURCE || 'wcdb').toLowerCase();
+
+    if (dataSource !== 'wcdb' && dataSource !== 'sqlite') {
+        console.error(`❌ 配置错误: DATA_SOURCE 只能为 wcdb 或 sqlite（当前: ${dataSource}）`);
+        process.exit(1);
+    }
 
-    if (!dbPath || !decryptKey || !myWxid) {
+    // sqlite 数据源读取已解密的数据库，不需要密钥
+    if (!dbPath || !myWxid || (dataSource === 'wcdb' && !decryptKey)) {
         console.error('❌ 配置错误: 请在 .env 文件中配置 DB_PATH, DECRYPT_KEY, MY_WXID');
         console.error('   可参考 .env.example 文件');
         process.exit(1);
     }
 
+    const accounts: AccountConfig[] = [{
+        wxid: myWxid,
+        dbPath,
+        decryptKey,
+        imageAesKey: parseImageAesKey(process.env.IMAGE_AES_KEY, 'IMAGE_AES_KEY'),
+        imageXorKey: parseImageXorKey(process.env.IMAGE_XOR_KEY, 'IMAGE_XOR_KEY'),
+    }];
+    for (const account of loadExtraAccounts(process.env.ACCOUNTS_FILE || '', dbPath, dataSource)) {
+        if (accounts.some((a) => a.wxid === account.wxid)) {
+            console.error(`❌ 配置错误: ACCOUNTS_FILE 中的账号 ${account.wxid} 重复`);
+            process.exit(1);
+        }
+        accounts.push(account);
+    }
+
+    const apiKeys = [
+        ...parseApiKeys(process.env.API_KEYS || ''),
+        ...loadApiKeyFile(process.env.API_KEYS_FILE || ''),
+    ];
+
     return {
+        dataSource,
         dbPath,
         decryptKey,
         myWxid,
+        accounts,
+        apiKeys,
         httpPort: parseInt(process.env.HTTP_PORT || '5031', 10),
         httpHost: process.env.HTTP_HOST || '127.0.0.1',
+        requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS || '30000', 10) || 0,
         wsPort: parseInt(process.env.WS_PORT || '5032', 10),
         wsHost: process.env.WS_HOST || '127.0.0.1',
+        reconnectIntervalMs: parseInt(process.env.RECONNECT_INTERVAL_MS || '30000', 10) || 0,
+        recallCacheSize: Math.max(0, parseInt(process.env.RECALL_CACHE_SIZE || '5000', 10) || 0),
+        searchIndexEnabled: process.env.SEARCH_INDEX === 'true',
+        searchIndexDir: process.env.SEARCH_INDEX_DIR || './search-index',
+        searchIndexIntervalMs: parseInt(process.env.SEARCH_INDEX_INTERVAL_MS || '60000', 10) || 0,
         logEnabled: process.env.LOG_ENABLED === 'true',
         logDir: process.env.LOG_DIR || './logs',
         resourcesPath: process.env.RESOURCES_PATH || './resources',
     };
 }
 
+/**
+ * 读取 ACCOUNTS_FILE 中的附加账号：
+ * [{ "wxid": "wxid_b", "dbPath": "D:\\xwechat_files", "decryptKey": "..." }]
+ * dbPath 省略时使用 DB_PATH（同一个 xwechat_files 目录下通常有多个账号）；
+ * 可选 imageAesKey / imageXorKey 用于解密该账号的图片
+ */
+function loadExtraAccounts(file: string, defaultDbPath: string, dataSource: DataSourceKind): AccountConfig[] {
+    if (!file) return [];
+
+    const path = resolve(process.cwd(), file);
+    if (!existsSync(path)) {
+        console.error(`❌ 配置错误: ACCOUNTS_FILE 不存在: ${path}`);
+        process.exit(1);
+    }
+
+    let entries: any;
+    try {
+        entries = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (e) {
+        console.error(`❌ 配置错误: ACCOUNTS_FILE 不是有效的 JSON: ${e}`);
+        process.exit(1);
+    }
+    if (!Array.isArray(entries)) {
+        console.error('❌ 配置错误: ACCOUNTS_FILE 应为账号数组');
+        process.exit(1);
+    }
+
+    return entries.map((entry: any, index: number) => {
+        const wxid = typeof entry?.wxid === 'string' ? entry.wxid.trim() : '';
+        const decryptKey = typeof entry?.decryptKey === 'string' ? entry.decryptKey.trim() : '';
+        if (!wxid || (dataSource === 'wcdb' && !decryptKey)) {
+            console.error(`❌ 配置错误: ACCOUNTS_FILE 第 ${index + 1} 项缺少 wxid 或 decryptKey`);
+            process.exit(1);
+        }
+        return {
+            wxid,
+            dbPath: entry.dbPath || defaultDbPath,
+            decryptKey,
+            imageAesKey: parseImageAesKey(entry.imageAesKey, `ACCOUNTS_FILE 第 ${index + 1} 项`),
+            imageXorKey: parseImageXorKey(entry.imageXorKey, `ACCOUNTS_FILE 第 ${index + 1} 项`),
+        };
+    });
+}
+
+function parseImageAesKey(value: unknown, source: string): string {
+    if (value === undefined || value === null || value === '') return '';
+    const key = String(value).trim();
+    if (key.length !== 16) {
+        console.error(`❌ 配置错误: ${source} 的图片 AES 密钥应为 16 个字符`);
+        process.exit(1);
+    }
+    return key;
+}
+
+/**
+ * 异或密钥支持十进制或 0x 开头的十六进制（如 0x88）
+ */
+function parseImageXorKey(value: unknown, source: string): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const text = String(value).trim();
+    const key = /^0x[0-9a-f]+$/i.test(text) ? parseInt(text, 16) : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    if (!Number.isInteger(key) || key < 0 || key > 0xff) {
+        console.error(`❌ 配置错误: ${source} 的图片异或密钥应为 0-255（或 0x00-0xff）`);
+        process.exit(1);
+    }
+    return key;
+}
+
+function parseScopes(value: unknown, source: string): ApiScope[] {
+    if (value === undefined || value === null || value === '') return [...API_SCOPES];
+
+    const scopes = Array.isArray(value) ? value : String(value).split('|');
+    for (const scope of scopes) {
+        if (!API_SCOPES.includes(scope)) {
+            console.error(`❌ 配置错误: ${source} 中的权限 ${scope} 无效（可选: ${API_SCOPES.join(', ')}）`);
+            process.exit(1);
+        }
+    }
+    return scopes as ApiScope[];
+}
+
+/**
+ * API_KEYS=key1,key2:sessions|messages
+ * 每项为 密钥[:权限|权限]，省略权限时拥有全部只读权限
+ */
+function parseApiKeys(value: string): ApiKeyConfig[] {
+    return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item, index) => {
+            const [key, scopes] = item.split(':');
+            return {
+                name: `API_KEYS[${index}]`,
+                key,
+                scopes: parseScopes(scopes, 'API_KEYS'),
+                sessions: null,
+                redact: [],
+            };
+        });
+}
+
+function parsePatternList(value: unknown, source: string): string[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+        console.error(`❌ 配置错误: ${source} 应为非空字符串数组`);
+        process.exit(1);
+    }
+    return value.map((item: string) => item.trim());
+}
+
+function parseSessionScope(value: unknown, source: string): SessionScopeConfig | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        console.error(`❌ 配置错误: ${source}.sessions 应为 { "allow": [...], "deny": [...] }`);
+        process.exit(1);
+    }
+    const scope = value as { allow?: unknown; deny?: unknown };
+    return {
+        allow: parsePatternList(scope.allow, `${source}.sessions.allow`),
+        deny: parsePatternList(scope.deny, `${source}.sessions.deny`),
+    };
+}
+
+/** redact 可以是规则数组，或 true 表示启用全部规则 */
+function parseRedactRules(value: unknown, source: string): RedactRule[] {
+    if (value === undefined || value === null || value === false) return [];
+    if (value === true) return [...REDACT_RULES];
+
+    const rules = Array.isArray(value) ? value : [value];
+    for (const rule of rules) {
+        if (!REDACT_RULES.includes(rule)) {
+            console.error(`❌ 配置错误: ${source}.redact 中的规则 ${rule} 无效（可选: ${REDACT_RULES.join(', ')}）`);
+            process.exit(1);
+        }
+    }
+    return rules as RedactRule[];
+}
+
+/**
+ * 读取 API_KEYS_FILE：
+ * [{
+ *   "name": "intern", "key": "...", "scopes": ["sessions", "messages"],
+ *   "sessions": { "allow": ["*@chatroom"], "deny": ["gh_*"] },
+ *   "redact": ["phone", "idcard", "bankcard", "amount"]
+ * }]
+ */
+function loadApiKeyFile(file: string): ApiKeyConfig[] {
+    if (!file) return [];
+
+    const path = resolve(process.cwd(), file);
+    let entries: any;
+    try {
+        entries = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (e) {
+        console.error(`❌ 配置错误: 无法读取 API_KEYS_FILE (${path}): ${e}`);
+        process.exit(1);
+    }
+    if (!Array.isArray(entries)) {
+        console.error('❌ 配置错误: API_KEYS_FILE 应为密钥数组');
+        process.exit(1);
+    }
+
+    return entries.map((entry: any, index: number) => {
+        if (typeof entry?.key !== 'string' || !entry.key) {
+            console.error(`❌ 配置错误: API_KEYS_FILE 第 ${index + 1} 项缺少 key`);
+            process.exit(1);
+        }
+        const name = typeof entry.name === 'string' && entry.name ? entry.name : `API_KEYS_FILE[${index}]`;
+        return {
+            name,
+            key: entry.key,
+            scopes: parseScopes(entry.scopes, 'API_KEYS_FILE'),
+            sessions: parseSessionScope(entry.sessions, name),
+            redact: parseRedactRules(entry.redact, name),
+        };
+    });
+}
+
 // 单例配置
 let configInstance: AppConfig | null = null;
 
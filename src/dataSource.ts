@@ -0,0 +1,68 @@
+/**
+ * WeFlow API CLI - 数据源接口
+ * HTTP / WebSocket 服务只依赖此接口，具体实现可以是 WCDB DLL 或已解密的 SQLite 文件
+ */
+import type { DataSourceKind } from './config.js';
+import { getWcdbCore, WcdbSource } from './wcdbCore.js';
+import { SqliteDataSource } from './sqliteSource.js';
+import type { QueueStats } from './opScheduler.js';
+
+export interface WcdbResult<T = any> {
+    success: boolean;
+    data?: T;
+    error?: string;
+}
+
+export interface DataSource {
+    /** 数据源名称，用于日志和状态输出 */
+    readonly kind: 'wcdb' | 'sqlite';
+
+    open(dbPath: string, hexKey: string, wxid: string): Promise<boolean>;
+    /** 丢弃现有句柄后重新打开（open 对相同参数会直接复用已有句柄） */
+    reopen(dbPath: string, hexKey: string, wxid: string): Promise<boolean>;
+    shutdown(): void;
+    isConnected(): boolean;
+
+    // 数据库变更监控（不支持时 startMonitor 返回 false，由调用方回退到轮询）
+    startMonitor(callback: (type: string, json: string) => void): boolean;
+    stopMonitor(): void;
+    isMonitorConnected(): boolean;
+
+    getSessions(): Promise<WcdbResult<any[]>>;
+    getDisplayNames(usernames: string[]): Promise<WcdbResult<Record<string, string>>>;
+    openMessageCursor(
+        sessionId: string,
+        batchSize: number,
+        ascending: boolean,
+        beginTimestamp: number,
+        endTimestamp: number
+    ): Promise<WcdbResult<number>>;
+    fetchMessageBatch(cursor: number): Promise<WcdbResult<{ rows: any[]; hasMore: boolean }>>;
+    closeMessageCursor(cursor: number): Promise<WcdbResult<void>>;
+    getGroupMembers(chatroomId: string): Promise<WcdbResult<any[]>>;
+    getGroupNicknames(chatroomId: string): Promise<WcdbResult<Record<string, string>>>;
+    execQuery(kind: string, path: string | null, sql: string): Promise<WcdbResult<any[]>>;
+    getMessageCount(username: string): Promise<WcdbResult<number>>;
+    /** 按 serverId / localId 在会话的消息表中查出消息的 create_time（秒），不存在时为 null */
+    getMessageCreateTime(sessionId: string, by: 'serverId' | 'localId', id: string): Promise<WcdbResult<number | null>>;
+    getContact(username: string): Promise<WcdbResult<any | null>>;
+    getAvatarUrls(usernames: string[]): Promise<WcdbResult<Record<string, string>>>;
+    listMessageDbs(): Promise<WcdbResult<string[]>>;
+    listMediaDbs(): Promise<WcdbResult<string[]>>;
+
+    /** DLL 是否已加载（仅 WCDB 数据源） */
+    isLibraryLoaded?(): boolean;
+
+    /** 调用队列统计（仅 WCDB 数据源有队列；SQLite 查询在主线程同步执行，不排队） */
+    getQueueStats?(): QueueStats;
+}
+
+/**
+ * 按 DATA_SOURCE 为一个账号创建数据源。WCDB 账号共用同一个工作线程和调用队列
+ */
+export function createDataSource(kind: DataSourceKind): DataSource {
+    if (kind === 'sqlite') {
+        return new SqliteDataSource();
+    }
+    return new WcdbSource(getWcdbCore());
+}
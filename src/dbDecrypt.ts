@@ -0,0 +1,221 @@
+/**
+ * WeFlow API CLI - 数据库解密
+ * 纯 TypeScript 实现的 SQLCipher 4 解密（微信 4.x 参数），不依赖 DLL：
+ * - 页大小 4096，每页尾部保留 80 字节（16 字节 IV + 64 字节 HMAC）
+ * - 加密密钥 = PBKDF2-HMAC-SHA512(原始密钥, salt, 256000 次, 32 字节)
+ * - HMAC 密钥 = PBKDF2-HMAC-SHA512(加密密钥, salt ^ 0x3a, 2 次, 32 字节)
+ * - 每页 AES-256-CBC 加密，HMAC-SHA512 覆盖密文 + IV + 页号（小端）
+ */
+import { join, relative, dirname } from 'path';
+import { openSync, readSync, writeSync, closeSync, fstatSync, mkdirSync, existsSync, copyFileSync, unlinkSync } from 'fs';
+import { pbkdf2Sync, createHmac, createDecipheriv, timingSafeEqual } from 'crypto';
+import type { WcdbResult } from './dataSource.js';
+import { listDbFiles } from './dbStorage.js';
+
+const PAGE_SIZE = 4096;
+const SALT_SIZE = 16;
+const IV_SIZE = 16;
+const HMAC_SIZE = 64;
+const RESERVE_SIZE = 80; // IV + HMAC，按 AES 块大小对齐
+const KDF_ITERATIONS = 256000;
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'latin1');
+
+interface PageKeys {
+    encKey: Buffer;
+    macKey: Buffer;
+}
+
+export interface DecryptFileResult {
+    source: string;
+    target: string;
+    pages: number;
+    /** 源文件本身已是明文 SQLite，直接复制 */
+    plaintext: boolean;
+}
+
+export function parseHexKey(hexKey: string): Buffer | null {
+    const value = (hexKey || '').trim().replace(/^0x/i, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(value)) return null;
+    return Buffer.from(value, 'hex');
+}
+
+function deriveKeys(rawKey: Buffer, salt: Buffer): PageKeys {
+    const encKey = pbkdf2Sync(rawKey, salt, KDF_ITERATIONS, 32, 'sha512');
+    const macSalt = Buffer.from(salt.map((b) => b ^ 0x3a));
+    const macKey = pbkdf2Sync(encKey, macSalt, 2, 32, 'sha512');
+    return { encKey, macKey };
+}
+
+function isPlaintextSqlite(firstPage: Buffer): boolean {
+    return firstPage.length >= SQLITE_HEADER.length && firstPage.subarray(0, SQLITE_HEADER.length).equals(SQLITE_HEADER);
+}
+
+function verifyPage(page: Buffer, pageNo: number, keys: PageKeys): boolean {
+    const offset = pageNo === 1 ? SALT_SIZE : 0;
+    const dataEnd = PAGE_SIZE - RESERVE_SIZE + IV_SIZE;
+
+    const pageNoBuf = Buffer.alloc(4);
+    pageNoBuf.writeUInt32LE(pageNo, 0);
+    const mac = createHmac('sha512', keys.macKey)
+        .update(page.subarray(offset, dataEnd))
+        .update(pageNoBuf)
+        .digest();
+
+    return timingSafeEqual(mac, page.subarray(dataEnd, dataEnd + HMAC_SIZE));
+}
+
+function decryptPage(page: Buffer, pageNo: number, keys: PageKeys): Buffer {
+    const offset = pageNo === 1 ? SALT_SIZE : 0;
+    const cipherEnd = PAGE_SIZE - RESERVE_SIZE;
+    const iv = page.subarray(cipherEnd, cipherEnd + IV_SIZE);
+
+    const decipher = createDecipheriv('aes-256-cbc', keys.encKey, iv);
+    decipher.setAutoPadding(false);
+    const plain = Buffer.concat([decipher.update(page.subarray(offset, cipherEnd)), decipher.final()]);
+
+    const parts: Buffer[] = pageNo === 1 ? [SQLITE_HEADER, plain] : [plain];
+    // 保留区原样写回，保证页内布局与文件头中的 reserved space 一致
+    parts.push(page.subarray(cipherEnd, PAGE_SIZE));
+    return Buffer.concat(parts);
+}
+
+function readPage(fd: number, pageNo: number, buffer: Buffer): number {
+    return readSync(fd, buffer, 0, PAGE_SIZE, (pageNo - 1) * PAGE_SIZE);
+}
+
+/**
+ * 只校验首页 HMAC，用于快速检查密钥是否正确
+ */
+export function verifyDatabaseKey(filePath: string, hexKey: string): WcdbResult<boolean> {
+    const rawKey = parseHexKey(hexKey);
+    if (!rawKey) {
+        return { success: false, error: '密钥格式错误：应为 64 位十六进制字符串' };
+    }
+
+    let fd: number | null = null;
+    try {
+        fd = openSync(filePath, 'r');
+        const page = Buffer.alloc(PAGE_SIZE);
+        if (readPage(fd, 1, page) < PAGE_SIZE) {
+            return { success: false, error: `文件过小，不是有效的数据库: ${filePath}` };
+        }
+        if (isPlaintextSqlite(page)) {
+            return { success: false, error: `文件未加密: ${filePath}` };
+        }
+
+        const keys = deriveKeys(rawKey, page.subarray(0, SALT_SIZE));
+        return { success: true, data: verifyPage(page, 1, keys) };
+    } catch (e) {
+        return { success: false, error: String(e) };
+    } finally {
+        if (fd !== null) closeSync(fd);
+    }
+}
+
+/**
+ * 解密单个数据库文件到目标路径
+ */
+export function decryptDatabaseFile(source: string, target: string, hexKey: string): WcdbResult<DecryptFileResult> {
+    const rawKey = parseHexKey(hexKey);
+    if (!rawKey) {
+        return { success: false, error: '密钥格式错误：应为 64 位十六进制字符串' };
+    }
+
+    let inFd: number | null = null;
+    let outFd: number | null = null;
+    let completed = false;
+    try {
+        inFd = openSync(source, 'r');
+        const size = fstatSync(inFd).size;
+        const page = Buffer.alloc(PAGE_SIZE);
+
+        if (size < PAGE_SIZE || readPage(inFd, 1, page) < PAGE_SIZE) {
+            return { success: false, error: `文件过小，不是有效的数据库: ${source}` };
+        }
+
+        mkdirSync(dirname(target), { recursive: true });
+
+        if (isPlaintextSqlite(page)) {
+            closeSync(inFd);
+            inFd = null;
+            copyFileSync(source, target);
+            return { success: true, data: { source, target, pages: Math.floor(size / PAGE_SIZE), plaintext: true } };
+        }
+
+        const keys = deriveKeys(rawKey, page.subarray(0, SALT_SIZE));
+        if (!verifyPage(page, 1, keys)) {
+            return { success: false, error: `密钥错误：首页 HMAC 校验失败 (${source})` };
+        }
+
+        // 微信写入过程中拷贝的文件末尾可能有不完整的页，忽略
+        const totalPages = Math.floor(size / PAGE_SIZE);
+        outFd = openSync(target, 'w');
+
+        for (let pageNo = 1; pageNo <= totalPages; pageNo++) {
+            if (pageNo > 1 && readPage(inFd, pageNo, page) < PAGE_SIZE) {
+                return { success: false, error: `读取第 ${pageNo} 页失败 (${source})` };
+            }
+
+            // 全零页（预分配但未使用）原样写出
+            if (pageNo > 1 && page.every((b) => b === 0)) {
+                writeSync(outFd, page);
+                continue;
+            }
+
+            if (!verifyPage(page, pageNo, keys)) {
+                return { success: false, error: `第 ${pageNo} 页 HMAC 校验失败，文件可能已损坏 (${source})` };
+            }
+            writeSync(outFd, decryptPage(page, pageNo, keys));
+        }
+
+        completed = true;
+        return { success: true, data: { source, target, pages: totalPages, plaintext: false } };
+    } catch (e) {
+        return { success: false, error: String(e) };
+    } finally {
+        if (inFd !== null) closeSync(inFd);
+        if (outFd !== null) {
+            closeSync(outFd);
+            // 不保留解密到一半的文件
+            if (!completed) {
+                try {
+                    unlinkSync(target);
+                } catch { }
+            }
+        }
+    }
+}
+
+/**
+ * 解密 db_storage 目录下所有 .db 文件，保持相对目录结构写入 outputDir/db_storage，
+ * 这样 outputDir 可以直接作为 DATA_SOURCE=sqlite 的 DB_PATH 使用。
+ * 单个文件失败不会中断整体流程，结果中逐个返回
+ */
+export function decryptDbStorage(
+    dbStoragePath: string,
+    outputDir: string,
+    hexKey: string,
+    onProgress?: (result: WcdbResult<DecryptFileResult>, index: number, total: number) => void
+): WcdbResult<WcdbResult<DecryptFileResult>[]> {
+    if (!existsSync(dbStoragePath)) {
+        return { success: false, error: `数据库目录不存在: ${dbStoragePath}` };
+    }
+    if (!parseHexKey(hexKey)) {
+        return { success: false, error: '密钥格式错误：应为 64 位十六进制字符串' };
+    }
+
+    const files = listDbFiles(dbStoragePath, /\.db$/i);
+    const results: WcdbResult<DecryptFileResult>[] = [];
+
+    files.forEach((file, index) => {
+        const target = join(outputDir, 'db_storage', relative(dbStoragePath, file));
+        const result = decryptDatabaseFile(file, target, hexKey);
+        if (!result.success) {
+            result.data = { source: file, target, pages: 0, plaintext: false };
+        }
+        results.push(result);
+        onProgress?.(result, index, files.length);
+    });
+
+    return { success: true, data: results };
+}
@@ -0,0 +1,115 @@
+/**
+ * WeFlow API CLI - 数据库目录定位
+ * 在 xwechat_files 目录下查找账号的 db_storage 目录及其中的数据库文件
+ */
+import { join } from 'path';
+import { existsSync, readdirSync, statSync } from 'fs';
+
+/**
+ * 解析 db_storage 目录：
+ * 支持直接传入 db_storage、账号目录，或 xwechat_files 根目录 + wxid
+ */
+export function resolveDbStoragePath(basePath: string, wxid: string): string | null {
+    if (!basePath) return null;
+    const normalized = basePath.replace(/[\\/]+$/, '');
+
+    if (normalized.toLowerCase().endsWith('db_storage') && existsSync(normalized)) {
+        return normalized;
+    }
+
+    const direct = join(normalized, 'db_storage');
+    if (existsSync(direct)) {
+        return direct;
+    }
+
+    if (wxid) {
+        const viaWxid = join(normalized, wxid, 'db_storage');
+        if (existsSync(viaWxid)) {
+            return viaWxid;
+        }
+
+        try {
+            const entries = readdirSync(normalized);
+            const lowerWxid = wxid.toLowerCase();
+            const candidates = entries.filter((entry) => {
+                const entryPath = join(normalized, entry);
+                try {
+                    if (!statSync(entryPath).isDirectory()) return false;
+                } catch {
+                    return false;
+                }
+                const lowerEntry = entry.toLowerCase();
+                return lowerEntry === lowerWxid || lowerEntry.startsWith(`${lowerWxid}_`);
+            });
+
+            for (const entry of candidates) {
+                const candidate = join(normalized, entry, 'db_storage');
+                if (existsSync(candidate)) {
+                    return candidate;
+                }
+            }
+        } catch { }
+    }
+
+    return null;
+}
+
+/**
+ * 递归查找指定文件名（不区分大小写），最多向下 5 层
+ */
+export function findDbFile(dir: string, fileName: string, depth = 0): string | null {
+    if (depth > 5) return null;
+
+    const lowerName = fileName.toLowerCase();
+    const entries = readdirSync(dir);
+
+    for (const entry of entries) {
+        if (entry.toLowerCase() === lowerName) {
+            const fullPath = join(dir, entry);
+            if (statSync(fullPath).isFile()) {
+                return fullPath;
+            }
+        }
+    }
+
+    for (const entry of entries) {
+        const fullPath = join(dir, entry);
+        try {
+            if (statSync(fullPath).isDirectory()) {
+                const found = findDbFile(fullPath, fileName, depth + 1);
+                if (found) return found;
+            }
+        } catch { }
+    }
+
+    return null;
+}
+
+/**
+ * 列出目录下匹配正则的所有数据库文件（递归），按文件名排序
+ */
+export function listDbFiles(dir: string, pattern: RegExp, depth = 0): string[] {
+    if (depth > 5) return [];
+
+    const result: string[] = [];
+    let entries: string[];
+    try {
+        entries = readdirSync(dir);
+    } catch {
+        return result;
+    }
+
+    for (const entry of entries) {
+        const fullPath = join(dir, entry);
+        try {
+            const stat = statSync(fullPath);
+            if (stat.isDirectory()) {
+                result.push(...listDbFiles(fullPath, pattern, depth + 1));
+            } else if (stat.isFile() && pattern.test(entry)) {
+                result.push(fullPath);
+            }
+        } catch { }
+    }
+
+    return result.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
@@ -0,0 +1,105 @@
+/**
+ * WeFlow API CLI - 本地文件响应
+ * 以流的方式发送附件：ETag 由文件大小和修改时间生成（If-None-Match 命中返回 304），
+ * 支持单个 Range（bytes=start-end、bytes=start-、bytes=-N），范围无效时返回 416
+ */
+import type * as http from 'http';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { getContentType } from './mediaResolver.js';
+
+export type ContentDisposition = 'attachment' | 'inline';
+
+function sendJsonError(res: http.ServerResponse, code: number, message: string): void {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.writeHead(code);
+    res.end(JSON.stringify({ error: message }));
+}
+
+/**
+ * 解析 Range 请求头：null 表示没有或不支持的格式（按规范忽略，返回完整文件），'invalid' 表示范围无法满足
+ */
+function parseByteRange(header: string | undefined, fileSize: number): { start: number; end: number } | 'invalid' | null {
+    // 多段 Range 等不支持的格式按规范忽略
+    const range = /^bytes=(\d*)-(\d*)$/.exec((header || '').trim());
+    if (!range || !(range[1] || range[2])) return null;
+
+    let start: number;
+    let end = fileSize - 1;
+    if (range[1]) {
+        start = parseInt(range[1], 10);
+        if (range[2]) end = Math.min(parseInt(range[2], 10), fileSize - 1);
+    } else {
+        // bytes=-N 表示最后 N 个字节
+        start = Math.max(0, fileSize - parseInt(range[2], 10));
+    }
+    if (start > end || start >= fileSize) return 'invalid';
+    return { start, end };
+}
+
+export async function sendFile(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    path: string,
+    name: string,
+    disposition: ContentDisposition
+): Promise<void> {
+    let fileSize: number;
+    let etag: string;
+    try {
+        const info = await stat(path);
+        fileSize = info.size;
+        etag = `W/"${info.size.toString(16)}-${Math.floor(info.mtimeMs).toString(16)}"`;
+    } catch (e) {
+        sendJsonError(res, 404, `Attachment file is not readable: ${e}`);
+        return;
+    }
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')) {
+        res.setHeader('ETag', etag);
+        res.setHeader('Cache-Control', 'private, max-age=86400');
+        res.writeHead(304);
+        res.end();
+        return;
+    }
+
+    // 先校验范围，416 响应只带 Content-Range，不带附件的类型和文件名
+    const range = parseByteRange(req.headers.range, fileSize);
+    if (range === 'invalid') {
+        res.setHeader('Content-Range', `bytes */${fileSize}`);
+        sendJsonError(res, 416, `Range not satisfiable: ${req.headers.range}`);
+        return;
+    }
+    const start = range ? range.start : 0;
+    const end = range ? range.end : fileSize - 1;
+
+    // 非 ASCII 文件名放在 filename*，filename 中替换为下划线以兼容旧客户端
+    const asciiName = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    res.setHeader('Content-Type', getContentType(name));
+    res.setHeader('Content-Disposition', `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(name)}`);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    if (range) res.setHeader('Content-Range', `bytes ${start}-${end}/${fileSize}`);
+    res.setHeader('Content-Length', fileSize === 0 ? 0 : end - start + 1);
+    res.writeHead(range ? 206 : 200);
+    if (fileSize === 0) {
+        res.end();
+        return;
+    }
+
+    await new Promise<void>((resolve) => {
+        const stream = createReadStream(path, { start, end });
+        stream.on('error', (e) => {
+            console.error('读取附件失败:', e);
+            res.destroy();
+            resolve();
+        });
+        res.on('close', () => {
+            stream.destroy();
+            resolve();
+        });
+        stream.pipe(res);
+    });
+}
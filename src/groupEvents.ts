@@ -0,0 +1,293 @@
+/**
+ * WeFlow API CLI - 群事件解析
+ * 从群聊的系统消息（localType 10000 / 10002）和群公告消息（appmsg type 87）中解析出成员进出、改名、转让群主、公告更新等事件。
+ * 新版微信的系统消息为 <sysmsg type="sysmsgtemplate">：template 中的 $name$ 占位符对应 link_list 中的成员列表（含 wxid）；
+ * 旧版只有纯文本，只能拿到显示名，wxid 由 resolveMembers 按群成员名称补全
+ */
+import type { DataSource } from './dataSource.js';
+import type { NormalizedMessage } from './messageNormalizer.js';
+
+export type GroupEventType =
+    | 'member_joined'
+    | 'member_left'
+    | 'member_removed'
+    | 'group_renamed'
+    | 'owner_changed'
+    | 'announcement_updated';
+
+export const GROUP_EVENT_TYPES: readonly GroupEventType[] = [
+    'member_joined',
+    'member_left',
+    'member_removed',
+    'group_renamed',
+    'owner_changed',
+    'announcement_updated',
+];
+
+export interface GroupEventMember {
+    /** wxid，纯文本系统消息中无法确定时为 null */
+    username: string | null;
+    displayName: string | null;
+}
+
+export interface GroupEvent {
+    type: GroupEventType;
+    /** 操作人（邀请人、移出人、改名人等），无法确定时为 null */
+    actor: GroupEventMember | null;
+    /** 被操作的成员（加入 / 退出 / 被移出的成员、新群主） */
+    targets: GroupEventMember[];
+    /** group_renamed 为新群名，announcement_updated 为公告内容 */
+    value: string | null;
+    /** 系统消息原文 */
+    text: string;
+    timestamp: number;
+    platformMessageId: string;
+}
+
+interface TemplateLink {
+    members: GroupEventMember[];
+    separator: string;
+    /** 没有成员列表的链接（如"撤销"）显示的文字 */
+    title: string;
+    /** 撤销邀请之类只对操作人显示的按钮，渲染时忽略 */
+    hidden: boolean;
+}
+
+export interface SystemTemplate {
+    /** 含 $name$ 占位符的原始模板 */
+    template: string;
+    links: Map<string, TemplateLink>;
+}
+
+interface EventRule {
+    type: GroupEventType;
+    pattern: RegExp;
+    /** 按正则捕获组（名字片段 / 值）构造事件 */
+    build: (groups: string[]) => { actor: string | null; targets: string[]; value?: string };
+}
+
+// 名字片段：你、模板占位符（"$names$"）或带引号的显示名（"张三"）
+const NAME = '(你|[“"]?\\$\\w+\\$[”"]?|"[^"]+"|“[^”]+”)';
+
+function rule(type: GroupEventType, source: string, build: EventRule['build']): EventRule {
+    return { type, pattern: new RegExp('^' + source.replace(/\{N\}/g, NAME)), build };
+}
+
+const EVENT_RULES: EventRule[] = [
+    rule('member_joined', '{N}邀请{N}加入了群聊', ([actor, targets]) => ({ actor, targets: [targets] })),
+    // "张三"通过扫描"李四"分享的二维码加入群聊：加入的是张三，李四为分享人
+    rule('member_joined', '{N}通过(?:扫描)?{N}分享的(?:二维码|邀请链接|链接)?加入(?:了)?群聊', ([target, actor]) => ({ actor, targets: [target] })),
+    rule('member_joined', '{N}加入了群聊', ([target]) => ({ actor: null, targets: [target] })),
+    rule('member_removed', '{N}将{N}移出了群聊', ([actor, targets]) => ({ actor, targets: [targets] })),
+    rule('member_removed', '你被{N}移出群聊', ([actor]) => ({ actor, targets: ['你'] })),
+    rule('member_left', '{N}(?:已)?退出了群聊', ([target]) => ({ actor: target, targets: [target] })),
+    rule('group_renamed', '{N}修改群名为[“"](.+?)[”"]', ([actor, value]) => ({ actor, targets: [], value })),
+    rule('owner_changed', '{N}(?:已)?将群主转让给了?{N}', ([actor, target]) => ({ actor, targets: [target] })),
+    rule('owner_changed', '{N}已成为新群主', ([target]) => ({ actor: null, targets: [target] })),
+    rule('announcement_updated', '{N}(?:修改|发布|更新)了?群公告', ([actor]) => ({ actor, targets: [] })),
+];
+
+// WeChat 4 的 local_type 高 32 位为 appmsg 子类型，低 32 位为 49
+const APP_MESSAGE_TYPE_BASE = 4294967296;
+
+export class GroupEventParser {
+    /**
+     * 只有系统消息和 appmsg 可能是群事件，扫描历史消息时用于跳过其余行的解析
+     */
+    isCandidate(localType: number): boolean {
+        return localType === 10000 || localType === 10002 || localType % APP_MESSAGE_TYPE_BASE === 49;
+    }
+
+    parse(msg: NormalizedMessage, myWxid: string): GroupEvent | null {
+        const base = {
+            text: msg.parsedContent,
+            timestamp: msg.createTime,
+            platformMessageId: msg.serverId,
+        };
+
+        if (msg.localType !== 10000 && msg.localType !== 10002) {
+            if (msg.xmlType !== '87') return null;
+            return {
+                type: 'announcement_updated',
+                actor: msg.senderUsername ? { username: msg.senderUsername, displayName: null } : null,
+                targets: [],
+                value: extractXmlValue(decodeEntities(msg.rawContent), 'textannouncement') || null,
+                ...base,
+            };
+        }
+
+        const content = msg.rawContent || '';
+        if (/<revokemsg\b|type\s*=\s*"revokemsg"/i.test(content)) return null;
+
+        if (/type\s*=\s*"mmchatroombarannouncememt"/i.test(content)) {
+            return {
+                type: 'announcement_updated',
+                actor: msg.senderUsername ? { username: msg.senderUsername, displayName: null } : null,
+                targets: [],
+                value: extractXmlValue(content, 'content') || null,
+                ...base,
+            };
+        }
+
+        const template = parseSystemTemplate(content);
+        const text = template ? template.template : stripTags(content);
+        for (const { type, pattern, build } of EVENT_RULES) {
+            const match = pattern.exec(text.trim());
+            if (!match) continue;
+
+            const { actor, targets, value } = build(match.slice(1));
+            const resolve = (token: string) => this.resolveToken(token, template, myWxid);
+            return {
+                type,
+                actor: actor ? resolve(actor)[0] ?? null : null,
+                targets: targets.flatMap(resolve),
+                value: value !== undefined ? renderTemplateText(value, template) : null,
+                ...base,
+            };
+        }
+        return null;
+    }
+
+    /**
+     * 按群成员的群昵称和显示名补全没有 wxid 的成员，并为只有 wxid 的成员补上显示名
+     */
+    async resolveMembers(source: DataSource, chatroomId: string, events: GroupEvent[]): Promise<void> {
+        const members = events.flatMap((e) => (e.actor ? [e.actor, ...e.targets] : e.targets));
+        if (!members.some((m) => !m.username || !m.displayName)) return;
+
+        const byName = new Map<string, string>();
+        const names: Record<string, string> = {};
+        const membersResult = await source.getGroupMembers(chatroomId);
+        const usernames: string[] = (membersResult.success && membersResult.data ? membersResult.data : [])
+            .map((m: any) => m.username || m.userName || m.wxid || m.platformId)
+            .filter(Boolean);
+        for (const m of members) {
+            if (m.username && !usernames.includes(m.username)) usernames.push(m.username);
+        }
+
+        if (usernames.length > 0) {
+            const displayNames = await source.getDisplayNames(usernames);
+            const groupNicknames = await source.getGroupNicknames(chatroomId);
+            // 群昵称优先：系统消息中显示的是群昵称
+            for (const map of [displayNames, groupNicknames]) {
+                if (!map.success || !map.data) continue;
+                for (const [username, name] of Object.entries(map.data)) {
+                    if (!name) continue;
+                    byName.set(name, username);
+                    names[username] = name;
+                }
+            }
+        }
+
+        for (const m of members) {
+            if (!m.username && m.displayName) m.username = byName.get(m.displayName) ?? null;
+            if (m.username && !m.displayName) m.displayName = names[m.username] ?? null;
+        }
+    }
+
+    private resolveToken(token: string, template: SystemTemplate | null, myWxid: string): GroupEventMember[] {
+        if (token === '你') return [{ username: myWxid, displayName: null }];
+
+        const name = token.replace(/^[“"]|[”"]$/g, '');
+        const placeholder = /^\$(\w+)\$$/.exec(name);
+        const link = placeholder ? template?.links.get(placeholder[1]) : undefined;
+        if (link && link.members.length > 0) return link.members.map((m) => ({ ...m }));
+
+        const text = link ? link.title : name;
+        return text
+            .split('、')
+            .map((s) => s.trim())
+            .filter(Boolean)
+            .map((displayName) => ({ username: null, displayName }));
+    }
+}
+
+/**
+ * 解析 <sysmsg type="sysmsgtemplate">，不是模板消息时返回 null
+ */
+export function parseSystemTemplate(content: string): SystemTemplate | null {
+    if (!content || !/<sysmsgtemplate\b/i.test(content)) return null;
+    const template = extractXmlValue(content, 'template');
+    if (!template) return null;
+
+    const links = new Map<string, TemplateLink>();
+    const linkRegex = /<link\b([^>]*)>([\s\S]*?)<\/link>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = linkRegex.exec(content)) !== null) {
+        const name = /\bname\s*=\s*"([^"]*)"/i.exec(match[1])?.[1];
+        if (!name) continue;
+        const linkType = /\btype\s*=\s*"([^"]*)"/i.exec(match[1])?.[1] || '';
+        const body = match[2];
+
+        const members: GroupEventMember[] = [];
+        const memberRegex = /<member>([\s\S]*?)<\/member>/gi;
+        let member: RegExpExecArray | null;
+        while ((member = memberRegex.exec(body)) !== null) {
+            const username = extractXmlValue(member[1], 'username') || null;
+            const displayName = extractXmlValue(member[1], 'nickname') || null;
+            if (username || displayName) members.push({ username, displayName });
+        }
+
+        links.set(name, {
+            members,
+            separator: extractXmlValue(body, 'separator') || '、',
+            title: extractXmlValue(body, 'title') || extractXmlValue(body, 'plain'),
+            hidden: linkType === 'link_revoke',
+        });
+    }
+
+    return { template, links };
+}
+
+/**
+ * 将模板渲染为可读文本：成员占位符替换为昵称
+ */
+export function renderSystemTemplate(content: string): string | null {
+    const template = parseSystemTemplate(content);
+    return template ? renderTemplateText(template.template, template) : null;
+}
+
+function renderTemplateText(text: string, template: SystemTemplate | null): string {
+    if (!template) return text;
+    return text
+        .replace(/\$(\w+)\$/g, (placeholder, name: string) => {
+            const link = template.links.get(name);
+            if (!link) return placeholder;
+            if (link.hidden) return '';
+            if (link.members.length === 0) return link.title;
+            return link.members.map((m) => m.displayName || m.username || '').join(link.separator);
+        })
+        .trim();
+}
+
+function extractXmlValue(xml: string, tagName: string): string {
+    const match = new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`, 'i').exec(xml);
+    return match ? match[1].replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '').trim() : '';
+}
+
+function stripTags(content: string): string {
+    return content
+        .replace(/<!\[CDATA\[/g, '')
+        .replace(/\]\]>/g, '')
+        .replace(/<[^>]+>/g, '')
+        .trim();
+}
+
+function decodeEntities(content: string): string {
+    if (!content.includes('&lt;')) return content;
+    return content
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&');
+}
+
+// 单例实例
+let parserInstance: GroupEventParser | null = null;
+
+export function getGroupEventParser(): GroupEventParser {
+    if (!parserInstance) {
+        parserInstance = new GroupEventParser();
+    }
+    return parserInstance;
+}
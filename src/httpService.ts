@@ -4,59 +4,114 @@
  */
 import * as http from 'http';
 import { URL } from 'url';
-import * as fzstd from 'fzstd';
 import { getConfig } from './config.js';
-import { getWcdbCore } from './wcdbCore.js';
-
-// ChatLab 消息类型映射
-const ChatLabType = {
-    TEXT: 0,
-    IMAGE: 1,
-    VOICE: 2,
-    VIDEO: 3,
-    FILE: 4,
-    EMOJI: 5,
-    LINK: 7,
-    LOCATION: 8,
-    RED_PACKET: 20,
-    TRANSFER: 21,
-    POKE: 22,
-    CALL: 23,
-    SHARE: 24,
-    REPLY: 25,
-    FORWARD: 26,
-    CONTACT: 27,
-    SYSTEM: 80,
-    RECALL: 81,
-    OTHER: 99,
-} as const;
-
-interface Message {
-    localId: number;
-    serverId: string;
-    localType: number;
-    createTime: number;
+import { getAccountRegistry, type Account } from './accountRegistry.js';
+import { getWsService } from './wsService.js';
+import { getAuthService, canAccessSession, redactForKey, redactObjectForKey, type ApiKey } from './auth.js';
+import type { ApiScope } from './config.js';
+import type { WcdbResult } from './dataSource.js';
+import { runWithPriority } from './opScheduler.js';
+import { getMessageNormalizer, ChatLabType, type NormalizedMessage, type QuotedMessage } from './messageNormalizer.js';
+import { getMediaResolver, IMAGE_VARIANTS, type ImageVariant } from './mediaResolver.js';
+import { sendFile } from './fileResponse.js';
+import { decodeVoice, VOICE_FORMATS, type VoiceFormat } from './voiceDecode.js';
+import { getGroupEventParser, GROUP_EVENT_TYPES, type GroupEvent, type GroupEventType } from './groupEvents.js';
+import { buildThread, buildThreads, getReplyParentId, type MessageThread, type ThreadNode } from './messageThreads.js';
+import { getSearchIndexService, buildMatchQuery, highlightSnippet } from './searchIndex.js';
+import { rankByName } from './nameMatcher.js';
+
+// 单次请求的消息数超过该值时视为批量导出
+const BULK_MESSAGE_LIMIT = 1000;
+
+// expandReplies=1 时每个请求最多按 serverId 查找的被引用消息数
+const MAX_QUOTE_LOOKUPS = 20;
+
+// 无法按索引查找被引用消息时，只扫描本页最早一条消息之前这段时间内的消息（秒）
+const QUOTE_SCAN_WINDOW = 24 * 3600;
+
+// 构建线程列表、收集单条消息的线程回复时最多读取的消息数，超过时只使用最早的这部分消息
+const MAX_THREAD_MESSAGES = 20000;
+
+// 单条消息的线程向上追溯引用的最大层数
+const MAX_THREAD_DEPTH = 50;
+
+// @ 消息查询单次最多返回的条数，以及每个请求最多读取的消息数（超过时 truncated 为 true）
+const MAX_MENTION_RESULTS = 1000;
+const MAX_MENTION_SCAN = 50000;
+
+// 全文搜索单页最多返回的结果数
+const MAX_SEARCH_RESULTS = 200;
+
+// 数据源不支持按索引查找消息时，按 ID 查找消息最多从新到旧扫描的条数
+const LOOKUP_SCAN_LIMIT = 5000;
+
+// 关键词匹配用的群昵称缓存时间
+const GROUP_NICKNAME_CACHE_MS = 5 * 60 * 1000;
+
+interface MessageAnchor {
+    sortSeq: number;
+    createTime?: number;
+}
+
+interface MessageLookup {
+    /** 按 serverId（默认）或 localId 查找 */
+    by?: 'serverId' | 'localId';
+    /** 调用方已知的消息时间（秒） */
+    time?: number;
+    /** 不支持按索引查找时回退扫描的时间范围（从新到旧，最多 LOOKUP_SCAN_LIMIT 条），默认为会话最近的消息 */
+    scanBegin?: number;
+    scanEnd?: number;
+}
+
+interface MentionScan {
+    limit: number;
+    /** 按时间从新到旧，最多保留 limit + 1 条 */
+    found: { talker: string; message: NormalizedMessage }[];
+    scanned: number;
+    truncated: boolean;
+}
+
+interface MessageQuery {
+    offset: number;
+    limit: number;
+    dateRange: { start: number; end: number } | null;
+    order: 'asc' | 'desc';
+    /** 只返回 sortSeq 小于该锚点的消息 */
+    before?: MessageAnchor;
+    /** 只返回 sortSeq 大于该锚点的消息 */
+    after?: MessageAnchor;
+}
+
+/** 请求被取消的原因：客户端断开 / 超过 REQUEST_TIMEOUT_MS */
+type AbortReason = 'client_closed' | 'timeout';
+
+interface CollectResult {
+    messages: NormalizedMessage[];
+    hasMore: boolean;
+    aborted?: AbortReason;
+}
+
+interface CursorToken {
+    talker: string;
+    order: 'asc' | 'desc';
     sortSeq: number;
-    isSend: number;
-    senderUsername: string;
-    parsedContent: string;
-    rawContent: string;
-    xmlType?: string;
-    url?: string;
-    referencedMessageId?: string;
+    createTime: number;
 }
 
 export class HttpService {
     private server: http.Server | null = null;
     private port: number;
     private host: string;
+    private requestTimeoutMs: number;
     private running = false;
     private connections: Set<import('net').Socket> = new Set();
+    private groupNicknameCache: Map<string, { expiresAt: number; nicknames: Map<string, string[]> | null; building: boolean }> = new Map();
 
     constructor() {
         const config = getConfig();
         this.port = config.httpPort;
         this.host = config.httpHost;
+        this.requestTimeoutMs = config.requestTimeoutMs;
     }
 
     async start(): Promise<{ success: boolean; port?: number; error?: string }> {
@@ -117,27 +172,11 @@ export class HttpService {
         return this.running;
     }
 
-    /**
-     * 检查发送者是否是自己（支持部分匹配）
-     */
-    private isSelfSender(sender: string, myWxid: string): boolean {
-        if (!sender || !myWxid) return false;
-        const lowerSender = sender.toLowerCase();
-        const lowerMyWxid = myWxid.toLowerCase();
-        // 完全匹配
-        if (lowerSender === lowerMyWxid) return true;
-        // sender 以 myWxid 开头（如 wxid_xxx 匹配 wxid_xxx_b0e4）
-        if (lowerSender.startsWith(lowerMyWxid + '_')) return true;
-        // myWxid 以 sender 开头
-        if (lowerMyWxid.startsWith(lowerSender + '_')) return true;
-        return false;
-    }
-
     private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
         // CORS headers
         res.setHeader('Access-Control-Allow-Origin', '*');
         res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
         if (req.method === 'OPTIONS') {
             res.writeHead(204);
@@ -146,27 +185,109 @@ export class HttpService {
         }
 
         const url = new URL(req.url || '/', `http://${this.host}:${this.port}`);
-        const pathname = url.pathname;
+        const registry = getAccountRegistry();
+        let pathname = url.pathname;
+        let match: RegExpExecArray | null;
+
+        // /api/v1/accounts/{wxid}/... 指定账号，其余 /api/v1/... 路由是默认账号的别名
+        let accountId: string | null = null;
+        if ((match = /^\/api\/v1\/accounts\/([^/]+)(\/.+)$/.exec(pathname))) {
+            accountId = decodeURIComponent(match[1]);
+            pathname = `/api/v1${match[2]}`;
+        }
+
+        // 先鉴权再查找账号，未授权的请求无法探测账号是否存在
+        const auth = getAuthService();
+        let apiKey: ApiKey | null = null;
+        if (auth.isEnabled() && !this.isPublicRoute(pathname)) {
+            apiKey = auth.authenticate(req.headers.authorization);
+            if (!apiKey) {
+                res.setHeader('WWW-Authenticate', 'Bearer');
+                this.sendError(res, 401, 'Unauthorized');
+                return;
+            }
+            const scope = this.getRouteScope(pathname);
+            if (scope && !apiKey.scopes.has(scope)) {
+                this.sendError(res, 403, `Forbidden: API key lacks scope "${scope}"`);
+                return;
+            }
+        }
+
+        const account = registry.get(accountId);
+        if (!account) {
+            this.sendError(res, 404, `Account not found: ${accountId}`);
+            return;
+        }
+
+        // 请求级取消信号：消息扫描在批次之间检查，取消后立即关闭游标，不再占用 DLL 调用队列。
+        // 监听 res 而不是 req 的 close：GET 请求体读完后 req 就会触发 close
+        const controller = new AbortController();
+        const onClose = () => {
+            if (!res.writableFinished) controller.abort('client_closed' satisfies AbortReason);
+        };
+        res.on('close', onClose);
+        const timeoutTimer = this.requestTimeoutMs > 0
+            ? setTimeout(() => controller.abort('timeout' satisfies AbortReason), this.requestTimeoutMs)
+            : null;
 
         try {
-            if (pathname === '/health' || pathname === '/api/v1/health') {
-                this.sendJson(res, { status: 'ok' });
+            if (pathname === '/health/live') {
+                this.sendJson(res, { status: 'ok', uptime: Math.round(process.uptime()), timestamp: Date.now() });
+            } else if (pathname === '/health' || pathname === '/health/ready' || pathname === '/api/v1/health') {
+                this.handleReadiness(res);
+            } else if (pathname === '/api/v1/accounts') {
+                this.handleAccounts(res);
             } else if (pathname === '/api/v1/messages') {
-                await this.handleMessages(url, res);
+                await this.handleMessages(account, apiKey, url, res, controller.signal);
             } else if (pathname === '/api/v1/sessions') {
-                await this.handleSessions(url, res);
+                await this.handleSessions(account, apiKey, url, res);
             } else if (pathname === '/api/v1/contacts') {
-                await this.handleContacts(url, res);
+                await this.handleContacts(account, apiKey, url, res);
+            } else if (pathname === '/api/v1/avatars') {
+                await this.handleAvatars(account, apiKey, url, res);
+            } else if (pathname === '/api/v1/databases') {
+                await this.handleDatabases(account, res);
+            } else if (pathname === '/api/v1/mentions') {
+                await this.handleMentions(account, apiKey, url, res, controller.signal);
+            } else if (pathname === '/api/v1/search') {
+                await this.handleSearch(account, apiKey, url, res);
+            } else if (pathname === '/api/v1/media/image') {
+                await this.handleMediaImage(account, apiKey, url, res, controller.signal);
+            } else if (pathname === '/api/v1/media/voice') {
+                await this.handleMediaVoice(account, apiKey, url, res, controller.signal);
+            } else if (pathname === '/api/v1/media/file') {
+                await this.handleMediaFile(account, apiKey, req, url, res, controller.signal);
+            } else if ((match = /^\/api\/v1\/sessions\/([^/]+)\/count$/.exec(pathname))) {
+                await this.handleMessageCount(account, apiKey, decodeURIComponent(match[1]), res);
+            } else if ((match = /^\/api\/v1\/sessions\/([^/]+)\/messages\/([^/]+)$/.exec(pathname))) {
+                await this.handleMessageContext(account, apiKey, decodeURIComponent(match[1]), decodeURIComponent(match[2]), url, res, controller.signal);
+            } else if ((match = /^\/api\/v1\/sessions\/([^/]+)\/threads$/.exec(pathname))) {
+                await this.handleThreads(account, apiKey, decodeURIComponent(match[1]), url, res, controller.signal);
+            } else if ((match = /^\/api\/v1\/messages\/([^/]+)\/thread$/.exec(pathname))) {
+                await this.handleMessageThread(account, apiKey, decodeURIComponent(match[1]), url, res, controller.signal);
+            } else if ((match = /^\/api\/v1\/groups\/([^/]+)\/events$/.exec(pathname))) {
+                await this.handleGroupEvents(account, apiKey, decodeURIComponent(match[1]), url, res, controller.signal);
+            } else if ((match = /^\/api\/v1\/contacts\/([^/]+)$/.exec(pathname))) {
+                await this.handleContactDetail(account, apiKey, decodeURIComponent(match[1]), res);
             } else {
                 this.sendError(res, 404, 'Not Found');
             }
         } catch (error) {
             console.error('HTTP 请求错误:', error);
             this.sendError(res, 500, String(error));
+        } finally {
+            if (timeoutTimer) clearTimeout(timeoutTimer);
+            res.off('close', onClose);
         }
     }
 
-    private async handleMessages(url: URL, res: http.ServerResponse): Promise<void> {
+    private async handleMessages(
+        account: Account,
+        apiKey: ApiKey | null,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
         const talker = url.searchParams.get('talker');
         const limit = parseInt(url.searchParams.get('limit') || '100', 10);
         const offset = parseInt(url.searchParams.get('offset') || '0', 10);
@@ -174,576 +295,707 @@ export class HttpService {
         const endParam = url.searchParams.get('end');
         const chatlab = url.searchParams.get('chatlab') === '1';
         const format = url.searchParams.get('format') || (chatlab ? 'chatlab' : 'json');
+        // rich=1 为每条消息附加结构化的 payload
+        const rich = url.searchParams.get('rich') === '1';
+        // expandReplies=1 为引用消息附加被引用的原消息（quoted）
+        const expandReplies = url.searchParams.get('expandReplies') === '1';
 
         if (!talker) {
             this.sendError(res, 400, 'Missing required parameter: talker');
             return;
         }
+        if (!canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return;
+        }
 
         const startTime = this.parseTimeParam(startParam);
         const endTime = this.parseTimeParam(endParam, true);
         const dateRange = startTime > 0 || endTime > 0 ? { start: startTime, end: endTime } : null;
 
-        const messages = await this.collectMessages(talker, offset, limit, dateRange);
+        const query: MessageQuery = {
+            offset,
+            limit,
+            dateRange,
+            order: url.searchParams.get('order') === 'desc' ? 'desc' : 'asc',
+        };
+
+        const cursorParam = url.searchParams.get('cursor');
+        if (cursorParam) {
+            // 游标中已包含方向和锚点，忽略 order / before / after
+            const token = this.decodeCursor(cursorParam);
+            if (!token || token.talker !== talker) {
+                this.sendError(res, 400, 'Invalid cursor');
+                return;
+            }
+            query.order = token.order;
+            if (token.order === 'asc') {
+                query.after = { sortSeq: token.sortSeq, createTime: token.createTime };
+            } else {
+                query.before = { sortSeq: token.sortSeq, createTime: token.createTime };
+            }
+        } else {
+            for (const side of ['before', 'after'] as const) {
+                const seqParam = url.searchParams.get(side);
+                const idParam = url.searchParams.get(`${side}Id`);
+                if (seqParam && /^\d+$/.test(seqParam)) {
+                    query[side] = { sortSeq: parseInt(seqParam, 10) };
+                } else if (idParam) {
+                    const anchor = await this.findMessageAnchor(account, talker, idParam, signal);
+                    if (signal.aborted) {
+                        this.sendAborted(res, signal.reason, talker, query.order, []);
+                        return;
+                    }
+                    if (!anchor) {
+                        this.sendError(res, 404, `Message not found: ${idParam}`);
+                        return;
+                    }
+                    query[side] = anchor;
+                }
+            }
+        }
+
+        // 大批量导出降为 bulk 优先级，游标批次之间让出队列给实时推送和普通查询
+        const priority = limit > BULK_MESSAGE_LIMIT ? 'bulk' : 'interactive';
+        const { messages, hasMore, aborted } = await runWithPriority(priority, () => this.collectMessages(account, talker, query, signal));
+        if (aborted) {
+            this.sendAborted(res, aborted, talker, query.order, messages);
+            return;
+        }
+
+        const quoted = expandReplies ? await this.resolveQuotedMessages(account, talker, messages, signal) : null;
+        if (signal.aborted) {
+            this.sendAborted(res, signal.reason, talker, query.order, messages);
+            return;
+        }
+
+        const first = messages[0];
+        const last = messages[messages.length - 1];
+        const pagination = {
+            order: query.order,
+            hasMore,
+            nextCursor: hasMore && last ? this.encodeCursor(talker, query.order, last) : null,
+            prevCursor: first ? this.encodeCursor(talker, query.order === 'asc' ? 'desc' : 'asc', first) : null,
+        };
 
         if (messages.length === 0) {
             this.sendJson(res, {
                 success: true,
                 talker,
                 count: 0,
-                hasMore: false,
+                ...pagination,
                 messages: [],
             });
             return;
         }
 
         if (format === 'chatlab') {
-            const wcdb = getWcdbCore();
-            const displayNames = await wcdb.getDisplayNames([talker]);
+            const displayNames = await account.source.getDisplayNames([talker]);
             const talkerName = displayNames.success && displayNames.data ? displayNames.data[talker] || talker : talker;
-            const chatLabData = await this.convertToChatLab(messages, talker, talkerName);
-            this.sendJson(res, chatLabData);
+            const chatLabData = await this.convertToChatLab(account, messages, talker, talkerName, rich);
+            chatLabData.messages = chatLabData.messages.map((msg: any) => ({
+                ...msg,
+                content: redactForKey(apiKey, msg.content),
+                children: redactObjectForKey(apiKey, msg.children),
+                payload: redactObjectForKey(apiKey, msg.payload),
+                quoted: quoted && msg.platformMessageId ? redactObjectForKey(apiKey, quoted.get(msg.platformMessageId)) : undefined,
+            }));
+            this.sendJson(res, { ...chatLabData, pagination });
         } else {
             this.sendJson(res, {
                 success: true,
                 talker,
                 count: messages.length,
-                hasMore: messages.length >= limit,
-                messages,
+                ...pagination,
+                messages: messages.map((msg) => this.formatMessage(account, apiKey, talker, msg, rich, quoted)),
             });
         }
     }
 
-    private async collectMessages(
-        sessionId: string,
-        offset: number,
-        limit: number,
-        dateRange: { start: number; end: number } | null
-    ): Promise<Message[]> {
-        const wcdb = getWcdbCore();
-        const config = getConfig();
-        const myWxid = config.myWxid;
-        const rows: Message[] = [];
-        const BATCH_SIZE = 500;
-
-        const cursorResult = await wcdb.openMessageCursor(
-            sessionId,
-            BATCH_SIZE,
-            true,
-            dateRange?.start || 0,
-            dateRange?.end || 0
-        );
+    /**
+     * JSON 格式输出的消息：按密钥打码，附加 mediaUrl，rich / expandReplies 时附加 payload / quoted
+     */
+    private formatMessage(
+        account: Account,
+        apiKey: ApiKey | null,
+        talker: string,
+        msg: NormalizedMessage,
+        rich: boolean,
+        quoted: Map<string, QuotedMessage | null> | null
+    ) {
+        const normalizer = getMessageNormalizer();
+        return {
+            ...msg,
+            parsedContent: redactForKey(apiKey, msg.parsedContent),
+            rawContent: redactForKey(apiKey, msg.rawContent),
+            mediaUrl: normalizer.getMediaUrl(msg, talker, getAccountRegistry().getApiBasePath(account.wxid)),
+            payload: rich ? redactObjectForKey(apiKey, normalizer.getRichPayload(msg, account.wxid)) : undefined,
+            quoted: quoted ? redactObjectForKey(apiKey, quoted.get(msg.serverId)) : undefined,
+        };
+    }
 
-        if (!cursorResult.success || !cursorResult.data) {
-            console.error('打开消息游标失败:', cursorResult.error);
-            return [];
+    /**
+     * 按 serverId（by=localId 时按 localId）获取单条消息及其前后的消息。先按索引定位消息，再以它的 sortSeq / createTime 为锚点分别向前、向后读取，
+     * 游标的时间范围从该消息的时间开始，不需要从会话开头扫描
+     */
+    private async handleMessageContext(
+        account: Account,
+        apiKey: ApiKey | null,
+        talker: string,
+        id: string,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        if (!canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return;
+        }
+        const by = url.searchParams.get('by') || 'serverId';
+        if (by !== 'serverId' && by !== 'localId') {
+            this.sendError(res, 400, `Invalid by: ${by}, expected serverId or localId`);
+            return;
+        }
+        if (!/^\d+$/.test(id)) {
+            this.sendError(res, 400, `Invalid ${by}: ${id}`);
+            return;
         }
 
-        const cursor = cursorResult.data;
-
-        try {
-            let hasMore = true;
-            let skipped = 0;
-
-            while (hasMore && rows.length < limit) {
-                const batch = await wcdb.fetchMessageBatch(cursor);
-                if (!batch.success || !batch.data) {
-                    break;
-                }
-
-                for (const row of batch.data.rows) {
-                    const createTime = parseInt(row.create_time || '0', 10);
-
-                    if (dateRange) {
-                        if (createTime < dateRange.start || createTime > dateRange.end) {
-                            continue;
-                        }
-                    }
-
-                    const content = this.decodeMessageContent(row.message_content, row.compress_content);
-                    const localType = parseInt(row.local_type || row.type || '1', 10);
-                    const senderUsername = row.sender_username || '';
-                    const isSendRaw = row.computed_is_send ?? row.is_send ?? '0';
-                    const isSend = parseInt(isSendRaw, 10) === 1;
-                    const localId = parseInt(row.local_id || row.localId || '0', 10);
-
-                    if (skipped < offset) {
-                        skipped++;
-                        continue;
-                    }
-
-                    // 提取 XML 中的 type
-                    const xmlType = this.extractMessageXmlType(content, localType) || undefined;
-                    const linkUrl = this.extractLinkUrl(content, localType) || undefined;
-                    const referencedMessageId = this.isReplyMessage(localType, xmlType)
-                        ? this.extractReferencedMessageId(content)
-                        : undefined;
-
-                    const parsedContent = this.parseMessageContent(content, localType);
-
-                    // 判断是否是自己发送的消息
-                    const isSelfMessage = isSend || this.isSelfSender(senderUsername, myWxid);
-
-                    const serverId = row.server_id ?? row.serverId ?? '';
-                    const message: Message = {
-                        localId,
-                        serverId: serverId ? String(serverId) : '',
-                        localType,
-                        createTime,
-                        sortSeq: parseInt(row.sort_seq || row.sortSeq || row.sequence || String(createTime), 10),
-                        isSend: isSelfMessage ? 1 : 0,
-                        senderUsername: isSelfMessage ? myWxid : senderUsername || sessionId,
-                        parsedContent: parsedContent || `[类型 ${localType}]`,
-                        rawContent: content,
-                        xmlType,
-                        url: linkUrl,
-                        referencedMessageId,
-                    };
-
-                    rows.push(message);
-
-                    if (rows.length >= limit) {
-                        break;
-                    }
-                }
-
-                hasMore = batch.data.hasMore;
+        const counts = { before: 0, after: 0 };
+        for (const side of ['before', 'after'] as const) {
+            const value = url.searchParams.get(side);
+            if (value === null) continue;
+            if (!/^\d+$/.test(value) || parseInt(value, 10) > BULK_MESSAGE_LIMIT) {
+                this.sendError(res, 400, `Invalid ${side}: expected an integer between 0 and ${BULK_MESSAGE_LIMIT}`);
+                return;
             }
-        } finally {
-            await wcdb.closeMessageCursor(cursor);
+            counts[side] = parseInt(value, 10);
         }
+        const rich = url.searchParams.get('rich') === '1';
+        const expandReplies = url.searchParams.get('expandReplies') === '1';
+        const time = parseInt(url.searchParams.get('time') || '0', 10) || 0;
 
-        return rows;
-    }
-
-    private decodeMessageContent(messageContent: any, compressContent: any): string {
-        let content = '';
+        const row = await this.findMessageRow(account, talker, id, { by, time }, signal);
+        if (signal.aborted) {
+            this.sendAborted(res, signal.reason, talker, 'asc', []);
+            return;
+        }
+        if (!row) {
+            this.sendError(res, 404, `Message not found: ${id}`);
+            return;
+        }
 
-        if (compressContent) {
-            content = this.decodeMaybeCompressed(compressContent);
+        const normalizer = getMessageNormalizer();
+        const message = normalizer.normalizeRow(row, talker, account.wxid);
+        const anchor: MessageAnchor = { sortSeq: message.sortSeq, createTime: message.createTime };
+        // 同 /api/v1/messages：前后合计超过 BULK_MESSAGE_LIMIT 条时按 bulk 优先级读取
+        const priority = counts.before + counts.after > BULK_MESSAGE_LIMIT ? 'bulk' : 'interactive';
+        const earlier = counts.before > 0
+            ? await runWithPriority(priority, () => this.collectMessages(
+                account, talker, { offset: 0, limit: counts.before, dateRange: null, order: 'desc', before: anchor }, signal))
+            : { messages: [], hasMore: false };
+        const later = counts.after > 0 && !earlier.aborted
+            ? await runWithPriority(priority, () => this.collectMessages(
+                account, talker, { offset: 0, limit: counts.after, dateRange: null, order: 'asc', after: anchor }, signal))
+            : { messages: [], hasMore: false };
+        const aborted = earlier.aborted || later.aborted;
+        if (aborted) {
+            this.sendAborted(res, aborted, talker, 'asc', []);
+            return;
         }
-        if (!content && messageContent) {
-            content = this.decodeMaybeCompressed(messageContent);
+
+        const before = earlier.messages.reverse();
+        const after = later.messages;
+        const all = [...before, message, ...after];
+        const quoted = expandReplies ? await this.resolveQuotedMessages(account, talker, all, signal) : null;
+        if (signal.aborted) {
+            this.sendAborted(res, signal.reason, talker, 'asc', []);
+            return;
         }
 
-        return content;
+        this.sendJson(res, {
+            success: true,
+            talker,
+            message: this.formatMessage(account, apiKey, talker, message, rich, quoted),
+            before: before.map((msg) => this.formatMessage(account, apiKey, talker, msg, rich, quoted)),
+            after: after.map((msg) => this.formatMessage(account, apiKey, talker, msg, rich, quoted)),
+            // 继续向前 / 向后翻页，用法同 /api/v1/messages 的 cursor
+            hasMoreBefore: earlier.hasMore,
+            hasMoreAfter: later.hasMore,
+            prevCursor: this.encodeCursor(talker, 'desc', before[0] ?? message),
+            nextCursor: this.encodeCursor(talker, 'asc', after[after.length - 1] ?? message),
+        });
     }
 
-    private decodeMaybeCompressed(raw: any): string {
-        if (!raw) return '';
-        if (typeof raw === 'string') {
-            if (raw.length === 0) return '';
-
-            if (raw.length > 16 && /^[0-9a-fA-F]+$/.test(raw)) {
-                try {
-                    const bytes = Buffer.from(raw, 'hex');
-                    if (bytes.length > 0) return this.decodeBinaryContent(bytes);
-                } catch { }
-            }
+    /**
+     * expandReplies=1：解析引用消息所引用的原消息，按引用消息的 serverId 返回（未找到时为 null）。
+     * 优先使用 refermsg 中的内容；缺失时先在本页消息中找，再按 serverId 查找（最多 MAX_QUOTE_LOOKUPS 次）。
+     * 无法按索引查找时只扫描本页最早的消息之前 QUOTE_SCAN_WINDOW 内的消息，更早的引用返回 null
+     */
+    private async resolveQuotedMessages(
+        account: Account,
+        talker: string,
+        messages: NormalizedMessage[],
+        signal: AbortSignal
+    ): Promise<Map<string, QuotedMessage | null>> {
+        const normalizer = getMessageNormalizer();
+        const quoted = new Map<string, QuotedMessage | null>();
+        const pageMessages = new Map(messages.filter((m) => m.serverId).map((m) => [m.serverId, m]));
+        const oldest = Math.min(...messages.map((m) => m.createTime));
+        const scanBegin = Math.max(1, oldest - QUOTE_SCAN_WINDOW);
+        let lookups = 0;
 
-            if (raw.length > 16 && /^[A-Za-z0-9+/=]+$/.test(raw)) {
-                try {
-                    const bytes = Buffer.from(raw, 'base64');
-                    return this.decodeBinaryContent(bytes);
-                } catch {
-                    return raw;
+        for (const msg of messages) {
+            if (!msg.serverId || normalizer.mapMessageType(msg) !== ChatLabType.REPLY) continue;
+
+            let result = normalizer.getQuotedMessage(msg);
+            const targetId = msg.referencedMessageId;
+            if (!result && targetId) {
+                let target = pageMessages.get(targetId);
+                if (!target && lookups < MAX_QUOTE_LOOKUPS && !signal.aborted) {
+                    lookups++;
+                    // 被引用的消息一定早于引用消息
+                    const row = await this.findMessageRow(account, talker, targetId, { scanBegin, scanEnd: msg.createTime }, signal);
+                    if (row) target = normalizer.normalizeRow(row, talker, account.wxid);
                 }
+                if (target) result = normalizer.toQuotedMessage(target, null);
             }
-
-            return raw;
+            quoted.set(msg.serverId, result);
         }
-        return '';
-    }
 
-    private decodeBinaryContent(data: Buffer): string {
-        if (data.length === 0) return '';
-        try {
-            if (data.length >= 4) {
-                const magic = data.readUInt32LE(0);
-                if (magic === 0xfd2fb528) {
-                    const decompressed = fzstd.decompress(data);
-                    return Buffer.from(decompressed).toString('utf-8');
-                }
-            }
-            const decoded = data.toString('utf-8');
-            const replacementCount = (decoded.match(/\uFFFD/g) || []).length;
-            if (replacementCount < decoded.length * 0.2) {
-                return decoded.replace(/\uFFFD/g, '');
+        // 按 serverId 查到的消息没有显示名
+        const senders = new Set<string>();
+        for (const q of quoted.values()) {
+            if (q?.sender && !q.displayName) senders.add(q.sender);
+        }
+        if (senders.size > 0) {
+            const names = await this.resolveSenderNames(account, talker, [...senders]);
+            for (const q of quoted.values()) {
+                if (q?.sender && !q.displayName) q.displayName = names[q.sender] || null;
             }
-            return data.toString('latin1');
-        } catch {
-            return '';
         }
+
+        return quoted;
     }
 
     /**
-     * 解析消息内容（与原项目保持一致）
+     * 发送者的显示名，群聊中优先使用群昵称
      */
-    private parseMessageContent(content: string, localType: number): string | null {
-        if (!content) return null;
-
-        // 检查 XML 中的 type 标签
-        const xmlType = this.extractMessageXmlType(content, localType) || null;
-
-        switch (localType) {
-            case 1: // 文本
-                return this.stripSenderPrefix(content);
-            case 3:
-                return '[图片]';
-            case 34:
-                return '[语音消息]';
-            case 42:
-                return '[名片]';
-            case 43:
-                return '[视频]';
-            case 47:
-                return '[动画表情]';
-            case 48:
-                return '[位置]';
-            case 49: {
-                const appMsg = this.extractAppMessageInfo(content, localType);
-                const title = appMsg.title || this.extractXmlValue(content, 'title');
-                const type = appMsg.xmlType || this.extractXmlValue(content, 'type');
-
-                // 转账消息特殊处理
-                if (type === '2000') {
-                    const feedesc = this.extractXmlValue(content, 'feedesc');
-                    const payMemo = this.extractXmlValue(content, 'pay_memo');
-                    if (feedesc) {
-                        return payMemo ? `[转账] ${feedesc} ${payMemo}` : `[转账] ${feedesc}`;
-                    }
-                    return '[转账]';
+    private async resolveSenderNames(account: Account, talker: string, senders: string[]): Promise<Record<string, string>> {
+        const names: Record<string, string> = {};
+        if (senders.length === 0) return names;
+
+        const displayNames = await account.source.getDisplayNames(senders);
+        if (displayNames.success && displayNames.data) Object.assign(names, displayNames.data);
+        if (talker.endsWith('@chatroom')) {
+            const groupNicknames = await account.source.getGroupNicknames(talker);
+            if (groupNicknames.success && groupNicknames.data) {
+                for (const sender of senders) {
+                    if (groupNicknames.data[sender]) names[sender] = groupNicknames.data[sender];
                 }
-
-                if (type === '6') return title ? `[文件] ${title}` : '[文件]';
-                if (type === '19') return title ? `[聊天记录] ${title}` : '[聊天记录]';
-                if (type === '33' || type === '36') return title ? `[小程序] ${title}` : '[小程序]';
-                if (type === '57') return this.formatReplyContent(title);
-                if (type === '5' || type === '49') return title ? `[链接] ${title}` : '[链接]';
-                return title ? `[链接] ${title}` : '[链接]';
             }
-            case 50:
-                return this.parseVoipMessage(content);
-            case 10000:
-                return this.cleanSystemMessage(content);
-            case 266287972401: // 拍一拍
-                return this.formatPokeMessage(content);
-            case 244813135921: {
-                // 引用消息 - 提取 title
-                const title = this.extractXmlValue(content, 'title');
-                return this.formatReplyContent(title);
-            }
-            default:
-                // 对于未知的 localType，检查 XML type 来判断消息类型
-                if (xmlType) {
-                    const appMsg = this.extractAppMessageInfo(content, localType);
-                    const title = appMsg.title || this.extractXmlValue(content, 'title');
-
-                    // 群公告消息（type 87）
-                    if (xmlType === '87') {
-                        const textAnnouncement = this.extractXmlValue(content, 'textannouncement');
-                        if (textAnnouncement) {
-                            return `[群公告] ${textAnnouncement}`;
-                        }
-                        return '[群公告]';
-                    }
-
-                    // 转账消息
-                    if (xmlType === '2000') {
-                        const feedesc = this.extractXmlValue(content, 'feedesc');
-                        const payMemo = this.extractXmlValue(content, 'pay_memo');
-                        if (feedesc) {
-                            return payMemo ? `[转账] ${feedesc} ${payMemo}` : `[转账] ${feedesc}`;
-                        }
-                        return '[转账]';
-                    }
+        }
+        return names;
+    }
 
-                    // 其他类型
-                    if (xmlType === '6') return title ? `[文件] ${title}` : '[文件]';
-                    if (xmlType === '19') return title ? `[聊天记录] ${title}` : '[聊天记录]';
-                    if (xmlType === '33' || xmlType === '36') return title ? `[小程序] ${title}` : '[小程序]';
-                    if (xmlType === '57') return this.formatReplyContent(title);
-                    if (xmlType === '5' || xmlType === '49') return title ? `[链接] ${title}` : '[链接]';
-                    if (title) return title;
-                }
+    /**
+     * 游标为 base64url 编码的 JSON，记录方向和最后一条消息的 sortSeq / createTime，
+     * createTime 用于在打开 DB 游标时直接限定时间范围，避免从头扫描
+     */
+    private encodeCursor(talker: string, order: 'asc' | 'desc', msg: NormalizedMessage): string {
+        const payload: CursorToken = { talker, order, sortSeq: msg.sortSeq, createTime: msg.createTime };
+        return Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+    }
 
-                // 最后尝试提取文本内容
-                return this.stripSenderPrefix(content) || null;
+    /**
+     * 消息扫描被取消时的响应：客户端已断开则不再写回；
+     * 超时返回 504，并附带已读取部分的数量和续取游标，客户端可以从断点继续
+     */
+    private sendAborted(
+        res: http.ServerResponse,
+        reason: AbortReason,
+        talker: string,
+        order: 'asc' | 'desc',
+        messages: NormalizedMessage[]
+    ): void {
+        if (reason === 'client_closed') {
+            console.log(`⏹️ 客户端已断开，取消消息扫描: ${talker}（已读取 ${messages.length} 条）`);
+            return;
         }
+
+        const last = messages[messages.length - 1];
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.writeHead(504);
+        res.end(JSON.stringify({
+            error: `Request timed out after ${this.requestTimeoutMs}ms`,
+            partial: {
+                count: messages.length,
+                nextCursor: last ? this.encodeCursor(talker, order, last) : null,
+                hint: last
+                    ? 'Resume with cursor=nextCursor, or narrow the start/end range or limit'
+                    : 'Narrow the start/end range or limit',
+            },
+        }));
     }
 
     /**
-     * 清理系统消息
+     * 等待 promise 或取消信号，先取消时返回 null（promise 本身继续执行，结果被丢弃）
      */
-    private cleanSystemMessage(content: string): string {
-        if (!content) return '[系统消息]';
-
-        // 处理 CDATA 内容
-        content = content.replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '');
-
-        // 移除所有 XML 标签
-        let cleaned = content.replace(/<[^>]+>/g, '');
-        
-        // 移除尾部的数字（如撤回消息后的时间戳）
-        cleaned = cleaned.replace(/\d+\s*$/, '');
-        
-        // 清理多余空白
-        cleaned = cleaned.replace(/\s+/g, ' ').trim();
-
-        cleaned = this.normalizeChineseQuotes(cleaned);
-        return cleaned || '[系统消息]';
+    private raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | null> {
+        if (!signal) return promise;
+        if (signal.aborted) return Promise.resolve(null);
+        return new Promise<T | null>((resolve, reject) => {
+            const onAbort = () => resolve(null);
+            signal.addEventListener('abort', onAbort, { once: true });
+            promise.then(
+                (value) => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(value);
+                },
+                (error) => {
+                    signal.removeEventListener('abort', onAbort);
+                    reject(error);
+                }
+            );
+        });
     }
 
-
-    private normalizeChineseQuotes(text: string): string {
-        if (!text || !text.includes('"')) return text;
-        let result = '';
-        let open = true;
-        for (const ch of text) {
-            if (ch === '"') {
-                result += open ? '\u201c' : '\u201d';
-                open = !open;
-            } else {
-                result += ch;
+    private decodeCursor(value: string): CursorToken | null {
+        try {
+            const payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+            if (
+                typeof payload?.talker !== 'string' ||
+                (payload.order !== 'asc' && payload.order !== 'desc') ||
+                typeof payload.sortSeq !== 'number' ||
+                typeof payload.createTime !== 'number'
+            ) {
+                return null;
             }
+            return payload as CursorToken;
+        } catch {
+            return null;
         }
-        return result;
     }
 
-    private formatReplyContent(title: string | null | undefined): string {
-        const value = (title || '').trim();
-        if (!value) return '[\u5f15\u7528]';
-        if (value.startsWith('[\u5f15\u7528]')) return value;
-        return `[\u5f15\u7528] ${value}`;
+    /**
+     * 通过 serverId 定位锚点消息
+     */
+    private async findMessageAnchor(
+        account: Account,
+        sessionId: string,
+        serverId: string,
+        signal?: AbortSignal
+    ): Promise<MessageAnchor | null> {
+        const row = await this.findMessageRow(account, sessionId, serverId, {}, signal);
+        if (!row) return null;
+
+        const normalizer = getMessageNormalizer();
+        const createTime = normalizer.getCreateTime(row);
+        return { sortSeq: normalizer.getSortSeq(row, createTime), createTime };
     }
 
-    private formatPokeMessage(content: string): string {
-        const cleaned = this.cleanSystemMessage(content);
-        const names: string[] = [];
-        const regex = /["\u201c\u201d](.*?)["\u201c\u201d]/g;
-        let match: RegExpExecArray | null;
-        while ((match = regex.exec(cleaned)) && names.length < 2) {
-            const name = match[1].trim();
-            if (name) names.push(name);
+    /**
+     * 按 serverId / localId 查找消息的原始行：先在消息表中按索引查出消息时间，再只读取该秒内的消息。
+     * 按索引查询失败时回退为扫描：先扫描已知时间所在的一秒，再从新到旧扫描 lookup 给出的范围（最多 LOOKUP_SCAN_LIMIT 条）
+     */
+    private async findMessageRow(
+        account: Account,
+        sessionId: string,
+        id: string,
+        lookup: MessageLookup,
+        signal?: AbortSignal
+    ): Promise<any | null> {
+        const by = lookup.by || 'serverId';
+        const createTime = await this.lookupMessageTime(account, sessionId, id, by);
+        if (createTime === null) return null;
+        if (createTime !== undefined) {
+            return this.scanForMessage(account, sessionId, id, by, Math.floor(createTime), Math.ceil(createTime), 0, signal);
         }
-        if (names.length >= 2) {
-            return `\u201c${names[0]}\u201d \u62cd\u4e86\u62cd \u201c${names[1]}\u201d`;
+
+        if (lookup.time) {
+            const row = await this.scanForMessage(account, sessionId, id, by, lookup.time, lookup.time, 0, signal);
+            if (row || signal?.aborted) return row;
         }
-        return cleaned;
+        return this.scanForMessage(account, sessionId, id, by, lookup.scanBegin || 0, lookup.scanEnd || 0, LOOKUP_SCAN_LIMIT, signal);
     }
 
     /**
-     * ??????
+     * 在会话的消息表（各个 message_N.db 分库中的 Msg_<md5(talker)>）中按索引查出消息的 create_time。
+     * 返回 null 表示确定不存在，undefined 表示无法查询（数据源查询消息表失败），此时再尝试全文搜索索引
      */
+    private async lookupMessageTime(
+        account: Account,
+        sessionId: string,
+        id: string,
+        by: 'serverId' | 'localId'
+    ): Promise<number | null | undefined> {
+        if (!/^\d+$/.test(id)) return null;
 
+        const result = await account.source.getMessageCreateTime(sessionId, by, id);
+        if (result.success) return result.data ?? null;
 
-    private parseVoipMessage(content: string): string {
-        try {
-            if (!content) return '[通话]';
-
-            // 提取 msg 内容（中文通话状态）
-            const msgMatch = /<msg><!\[CDATA\[(.*?)\]\]><\/msg>/i.exec(content);
-            const msg = msgMatch?.[1]?.trim() || '';
+        if (by === 'serverId') {
+            const createTime = getSearchIndexService().get(account)?.findCreateTime(sessionId, id);
+            if (createTime !== undefined && createTime !== null) return createTime;
+        }
+        return undefined;
+    }
 
-            // 提取 room_type（0=视频，1=语音）
-            const roomTypeMatch = /<room_type>(\d+)<\/room_type>/i.exec(content);
-            const roomType = roomTypeMatch ? parseInt(roomTypeMatch[1], 10) : -1;
+    /**
+     * 从新到旧扫描时间范围内的消息，查找 ID 匹配的行；maxRows 为 0 时不限制扫描条数
+     */
+    private async scanForMessage(
+        account: Account,
+        sessionId: string,
+        id: string,
+        by: 'serverId' | 'localId',
+        beginTimestamp: number,
+        endTimestamp: number,
+        maxRows: number,
+        signal?: AbortSignal
+    ): Promise<any | null> {
+        const source = account.source;
+        const cursorResult = await source.openMessageCursor(sessionId, 500, false, beginTimestamp, endTimestamp);
+        if (!cursorResult.success || !cursorResult.data) {
+            return null;
+        }
 
-            let callType: string;
-            if (roomType === 0) {
-                callType = '视频通话';
-            } else if (roomType === 1) {
-                callType = '语音通话';
-            } else {
-                callType = '通话';
-            }
+        const cursor = cursorResult.data;
+        let scanned = 0;
+        try {
+            let hasMore = true;
+            while (hasMore && (maxRows === 0 || scanned < maxRows)) {
+                const batch = await this.raceAbort(source.fetchMessageBatch(cursor), signal);
+                if (!batch || !batch.success || !batch.data) break;
 
-            // 解析通话状态
-            if (msg.includes('通话时长')) {
-                const durationMatch = /通话时长\s*(\d{1,2}:\d{2}(?::\d{2})?)/i.exec(msg);
-                const duration = durationMatch?.[1] || '';
-                if (duration) {
-                    return `[${callType}] ${duration}`;
+                for (const row of batch.data.rows) {
+                    const rowId = by === 'localId' ? row.local_id ?? row.localId : row.server_id ?? row.serverId;
+                    if (String(rowId ?? '') === id) {
+                        return row;
+                    }
                 }
-                return `[${callType}] 已接听`;
-            } else if (msg.includes('对方无应答')) {
-                return `[${callType}] 对方无应答`;
-            } else if (msg.includes('已取消')) {
-                return `[${callType}] 已取消`;
-            } else if (msg.includes('已在其它设备接听') || msg.includes('已在其他设备接听')) {
-                return `[${callType}] 已在其他设备接听`;
-            } else if (msg.includes('对方已拒绝') || msg.includes('已拒绝')) {
-                return `[${callType}] 对方已拒绝`;
-            } else if (msg.includes('忙线未接听') || msg.includes('忙线')) {
-                return `[${callType}] 忙线未接听`;
-            } else if (msg.includes('未接听')) {
-                return `[${callType}] 未接听`;
-            } else if (msg) {
-                return `[${callType}] ${msg}`;
+                scanned += batch.data.rows.length;
+                hasMore = batch.data.hasMore;
             }
-
-            return `[${callType}]`;
-        } catch {
-            return '[通话]';
+        } finally {
+            await source.closeMessageCursor(cursor);
         }
-    }
 
-    private stripSenderPrefix(content: string): string | null {
-        // 移除开头的空白字符（包括换行符），然后移除发送者前缀
-        const result = content.replace(/^[\s]*([a-zA-Z0-9_-]+):(?!\/\/)\s*/, '').trim();
-        return result || null;
+        return null;
     }
 
-    private extractXmlValue(xml: string, tagName: string): string {
-        const regex = new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`, 'i');
-        const match = regex.exec(xml);
-        if (match) {
-            return match[1].replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '').trim();
-        }
-        return '';
-    }
+    private async collectMessages(
+        account: Account,
+        sessionId: string,
+        query: MessageQuery,
+        signal?: AbortSignal
+    ): Promise<CollectResult> {
+        const source = account.source;
+        const myWxid = account.wxid;
+        const { offset, limit, dateRange, order, before, after } = query;
+        const ascending = order === 'asc';
+        const normalizer = getMessageNormalizer();
+        const rows: NormalizedMessage[] = [];
+        const BATCH_SIZE = 500;
 
-    private normalizeAppMessageContent(content: string): string {
-        if (!content) return '';
-        if (content.includes('&lt;') && content.includes('&gt;')) {
-            return content
-                .replace(/&lt;/g, '<')
-                .replace(/&gt;/g, '>')
-                .replace(/&amp;/g, '&')
-                .replace(/&quot;/g, '"')
-                .replace(/&#39;/g, "'")
-                .replace(/&apos;/g, "'");
-        }
-        return content;
-    }
+        // 锚点已知 createTime 时，用它收紧游标的时间范围
+        let beginTimestamp = dateRange?.start || 0;
+        let endTimestamp = dateRange?.end || 0;
+        if (ascending && after?.createTime) {
+            beginTimestamp = Math.max(beginTimestamp, after.createTime);
+        }
+        if (!ascending && before?.createTime) {
+            endTimestamp = endTimestamp > 0 ? Math.min(endTimestamp, before.createTime) : before.createTime;
+        }
 
-    private isAppMessageContent(content: string): boolean {
-        if (!content) return false;
-        return (
-            content.includes('<appmsg') ||
-            content.includes('&lt;appmsg') ||
-            content.includes('<msg>') ||
-            content.includes('&lt;msg')
+        const cursorResult = await source.openMessageCursor(
+            sessionId,
+            BATCH_SIZE,
+            ascending,
+            beginTimestamp,
+            endTimestamp
         );
-    }
 
-    private extractAppMessageInfo(content: string, localType?: number): { xmlType?: string; title?: string; url?: string } {
-        if (!content) return {};
-        if (localType !== 49 && !this.isAppMessageContent(content)) return {};
+        if (!cursorResult.success || !cursorResult.data) {
+            console.error('打开消息游标失败:', cursorResult.error);
+            return { messages: [], hasMore: false };
+        }
 
-        const normalized = this.normalizeAppMessageContent(content);
-        const appMsgBodyMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
-        const appMsgBody = appMsgBodyMatch ? appMsgBodyMatch[1] : normalized;
+        const cursor = cursorResult.data;
+        let hasMoreRows = false;
+        let aborted: AbortReason | undefined;
 
-        const xmlType = this.extractXmlValue(appMsgBody, 'type') || this.extractXmlValue(normalized, 'type') || undefined;
-        const title = this.extractXmlValue(appMsgBody, 'title') || this.extractXmlValue(appMsgBody, 'des') || undefined;
-        const rawUrl = this.extractXmlValue(appMsgBody, 'url') || this.extractXmlValue(normalized, 'url');
-        const url = this.normalizeLinkUrl(rawUrl) || undefined;
+        try {
+            let hasMore = true;
+            let skipped = 0;
+            let reachedBound = false;
 
-        return { xmlType, title, url };
-    }
+            // 多取一条用于判断是否还有下一页
+            while (hasMore && !reachedBound && rows.length <= limit) {
+                const batch = await this.raceAbort(source.fetchMessageBatch(cursor), signal);
+                if (!batch) {
+                    aborted = signal!.reason as AbortReason;
+                    break;
+                }
+                if (!batch.success || !batch.data) {
+                    break;
+                }
 
+                for (const row of batch.data.rows) {
+                    const createTime = normalizer.getCreateTime(row);
 
-    private extractReferencedMessageId(content: string): string | undefined {
-        if (!content) return undefined;
+                    if (dateRange) {
+                        if ((dateRange.start > 0 && createTime < dateRange.start) ||
+                            (dateRange.end > 0 && createTime > dateRange.end)) {
+                            continue;
+                        }
+                    }
 
-        const normalized = this.normalizeAppMessageContent(content);
-        const blocks: string[] = [];
+                    const sortSeq = normalizer.getSortSeq(row, createTime);
 
-        const referMatch = /<refermsg\b[^>]*>([\s\S]*?)<\/refermsg>/i.exec(normalized);
-        if (referMatch?.[1]) {
-            blocks.push(referMatch[1]);
-        }
+                    // 锚点为开区间：起始侧跳过，终止侧到达即停止
+                    if (after && sortSeq <= after.sortSeq) {
+                        if (ascending) continue;
+                        reachedBound = true;
+                        break;
+                    }
+                    if (before && sortSeq >= before.sortSeq) {
+                        if (!ascending) continue;
+                        reachedBound = true;
+                        break;
+                    }
 
-        const appMsgMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
-        if (appMsgMatch?.[1]) {
-            blocks.push(appMsgMatch[1]);
-        }
+                    if (skipped < offset) {
+                        skipped++;
+                        continue;
+                    }
 
-        blocks.push(normalized);
+                    if (rows.length >= limit) {
+                        hasMoreRows = true;
+                        break;
+                    }
 
-        const tags = ['svrid', 'msgid', 'msgId', 'frommsgid', 'from_msgid', 'quoteid', 'refermsgid'];
-        for (const block of blocks) {
-            for (const tag of tags) {
-                const value = this.extractXmlValue(block, tag);
-                if (value && /^[0-9]+$/.test(value)) {
-                    return value;
+                    rows.push(normalizer.normalizeRow(row, sessionId, myWxid));
                 }
+
+                if (hasMoreRows) break;
+                hasMore = batch.data.hasMore;
             }
+        } finally {
+            await source.closeMessageCursor(cursor);
         }
 
-        return undefined;
-    }
-
-    private isReplyMessage(localType: number, xmlType?: string): boolean {
-        return localType === 244813135921 || xmlType === '57';
-    }
-
-    private extractMessageXmlType(content: string, localType?: number): string {
-        const appMsg = this.extractAppMessageInfo(content, localType);
-        return appMsg.xmlType || this.extractXmlValue(content, 'type');
+        return { messages: rows, hasMore: hasMoreRows, aborted };
     }
 
-    private extractLinkUrl(content: string, localType?: number): string {
-        const appMsg = this.extractAppMessageInfo(content, localType);
-        if (!appMsg.url) return '';
-        if (!appMsg.xmlType || appMsg.xmlType === '5' || appMsg.xmlType === '49') return appMsg.url;
-        return '';
+    /** 健康检查不需要鉴权，便于进程管理器和负载均衡探测 */
+    private isPublicRoute(pathname: string): boolean {
+        return pathname === '/health' || pathname.startsWith('/health/') || pathname === '/api/v1/health';
     }
 
-    private normalizeLinkUrl(rawUrl: string): string {
-        const value = (rawUrl || '').trim();
-        if (!value) return '';
-
-        const parseHttpUrl = (candidate: string): string => {
-            try {
-                const parsed = new URL(candidate);
-                if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
-                    return parsed.toString();
-                }
-            } catch {
-                return '';
-            }
-            return '';
-        };
-
-        if (value.startsWith('//')) {
-            return parseHttpUrl(`https:${value}`);
+    /**
+     * 路由所需的权限，返回 null 表示任意有效密钥均可访问
+     */
+    private getRouteScope(pathname: string): ApiScope | null {
+        if (pathname === '/api/v1/messages' || pathname === '/api/v1/mentions' || pathname === '/api/v1/search' || pathname.startsWith('/api/v1/media/') ||
+            /^\/api\/v1\/sessions\/[^/]+\/(count|threads|messages\/[^/]+)$/.test(pathname) || /^\/api\/v1\/messages\/[^/]+\/thread$/.test(pathname) ||
+            /^\/api\/v1\/groups\/[^/]+\/events$/.test(pathname)) {
+            return 'messages';
         }
+        if (pathname === '/api/v1/sessions' || pathname === '/api/v1/databases') {
+            return 'sessions';
+        }
+        if (pathname === '/api/v1/avatars' || pathname.startsWith('/api/v1/contacts')) {
+            return 'contacts';
+        }
+        return null;
+    }
 
-        const direct = parseHttpUrl(value);
-        if (direct) return direct;
-
-        const hasScheme = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value);
-        const isDomainLike = /^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}(?:[/:?#].*)?$/.test(value);
-        if (!hasScheme && isDomainLike) {
-            return parseHttpUrl(`https://${value}`);
+    /**
+     * 就绪检查：默认账号未连接（或 DLL 未加载）返回 503；
+     * 附加账号断开、WCDB 管道监控回退到轮询时为 degraded，仍返回 200
+     */
+    private handleReadiness(res: http.ServerResponse): void {
+        const registry = getAccountRegistry();
+        const defaultAccount = registry.getDefault();
+        const source = defaultAccount.source;
+        const wsService = getWsService();
+        const monitor = wsService.getMonitorStatus();
+        const libraryLoaded = source.isLibraryLoaded?.();
+
+        const accounts = registry.list().map((account) => ({
+            wxid: account.wxid,
+            default: registry.isDefault(account.wxid),
+            connected: account.source.isConnected(),
+            ...account.status,
+        }));
+
+        let status: 'ready' | 'degraded' | 'not_ready' = 'ready';
+        if (!source.isConnected() || libraryLoaded === false) {
+            status = 'not_ready';
+        } else if (accounts.some((a) => !a.connected) || (source.kind === 'wcdb' && monitor.mode === 'polling')) {
+            status = 'degraded';
         }
 
-        return '';
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.writeHead(status === 'not_ready' ? 503 : 200);
+        res.end(JSON.stringify({
+            status,
+            dataSource: source.kind,
+            components: {
+                library: libraryLoaded === undefined ? 'n/a' : libraryLoaded ? 'up' : 'down',
+                accounts,
+                monitor,
+                websocket: { running: wsService.isRunning(), clients: wsService.getClientCount() },
+                queue: source.getQueueStats?.() ?? null,
+            },
+            timestamp: Date.now(),
+        }, null, 2));
     }
 
-    private async handleSessions(url: URL, res: http.ServerResponse): Promise<void> {
+    private handleAccounts(res: http.ServerResponse): void {
+        const registry = getAccountRegistry();
+        this.sendJson(res, {
+            success: true,
+            count: registry.list().length,
+            accounts: registry.list().map((account) => ({
+                wxid: account.wxid,
+                default: registry.isDefault(account.wxid),
+                connected: account.source.isConnected(),
+            })),
+        });
+    }
+
+    private async handleSessions(account: Account, apiKey: ApiKey | null, url: URL, res: http.ServerResponse): Promise<void> {
         const keyword = url.searchParams.get('keyword') || '';
         const limit = parseInt(url.searchParams.get('limit') || '100', 10);
 
-        const wcdb = getWcdbCore();
-        const result = await wcdb.getSessions();
+        const source = account.source;
+        const result = await source.getSessions();
 
         if (!result.success || !result.data) {
             this.sendError(res, 500, result.error || 'Failed to get sessions');
             return;
         }
 
-        let sessions = result.data;
+        let sessions = result.data.filter((s: any) => canAccessSession(apiKey, s.username || s.user_name || ''));
 
         if (keyword) {
-            const lowerKeyword = keyword.toLowerCase();
-            sessions = sessions.filter(
-                (s: any) =>
-                    s.username?.toLowerCase().includes(lowerKeyword) ||
-                    s.display_name?.toLowerCase().includes(lowerKeyword)
+            const contactsResult = await this.queryContacts(account);
+            const contacts = new Map<string, any>(
+                (contactsResult.success && contactsResult.data ? contactsResult.data : []).map((c: any) => [c.username, c])
             );
+            const groupNicknames = this.getGroupNicknameIndex(account, result.data);
+            sessions = rankByName(
+                keyword,
+                sessions,
+                (s: any) => {
+                    const username = s.username || s.user_name;
+                    const contact = contacts.get(username);
+                    return [contact?.remark, contact?.nick_name, contact?.alias, groupNicknames.get(username), s.display_name, username];
+                },
+                (s: any) => s.sort_timestamp || s.last_timestamp || 0
+            ).map(({ item }) => item);
         }
 
         const limited = sessions.slice(0, limit);
@@ -761,32 +1013,33 @@ export class HttpService {
         });
     }
 
-    private async handleContacts(url: URL, res: http.ServerResponse): Promise<void> {
+    private async handleContacts(account: Account, apiKey: ApiKey | null, url: URL, res: http.ServerResponse): Promise<void> {
         const keyword = url.searchParams.get('keyword') || '';
         const limit = parseInt(url.searchParams.get('limit') || '100', 10);
 
-        const wcdb = getWcdbCore();
-        const result = await wcdb.execQuery(
-            'contact',
-            null,
-            'SELECT username, remark, nick_name, alias, local_type FROM contact'
-        );
+        const result = await this.queryContacts(account);
 
         if (!result.success || !result.data) {
             this.sendError(res, 500, result.error || 'Failed to get contacts');
             return;
         }
 
-        let contacts = result.data;
+        let contacts = result.data.filter((c: any) => canAccessSession(apiKey, c.username || ''));
 
         if (keyword) {
-            const lowerKeyword = keyword.toLowerCase();
-            contacts = contacts.filter(
-                (c: any) =>
-                    c.username?.toLowerCase().includes(lowerKeyword) ||
-                    c.nick_name?.toLowerCase().includes(lowerKeyword) ||
-                    c.remark?.toLowerCase().includes(lowerKeyword)
+            // 会话列表提供最近活跃时间（同分时排序）和群聊列表（群昵称）
+            const sessionsResult = await account.source.getSessions();
+            const sessions = sessionsResult.success && sessionsResult.data ? sessionsResult.data : [];
+            const lastActive = new Map<string, number>(
+                sessions.map((s: any) => [s.username || s.user_name, s.sort_timestamp || s.last_timestamp || 0])
             );
+            const groupNicknames = this.getGroupNicknameIndex(account, sessions);
+            contacts = rankByName(
+                keyword,
+                contacts,
+                (c: any) => [c.remark, c.nick_name, c.alias, groupNicknames.get(c.username), c.username],
+                (c: any) => lastActive.get(c.username) || 0
+            ).map(({ item }) => item);
         }
 
         const limited = contacts.slice(0, limit);
@@ -803,6 +1056,682 @@ export class HttpService {
         });
     }
 
+    private queryContacts(account: Account): Promise<WcdbResult<any[]>> {
+        return account.source.execQuery('contact', null, 'SELECT username, remark, nick_name, alias, local_type FROM contact');
+    }
+
+    /**
+     * 会话列表中各群聊的群昵称，按 wxid 汇总（一个人在不同群可以有不同的群昵称），用于关键词匹配。
+     * 需要逐个读取群成员信息，因此在后台构建，不阻塞关键词请求：构建完成前返回空表（只按其余字段匹配），
+     * 结果按账号缓存 GROUP_NICKNAME_CACHE_MS，过期后在后台重建，期间继续使用旧结果
+     */
+    private getGroupNicknameIndex(account: Account, sessions: any[]): Map<string, string[]> {
+        const cached = this.groupNicknameCache.get(account.wxid);
+        if (!cached || (cached.expiresAt <= Date.now() && !cached.building)) {
+            this.buildGroupNicknameIndex(account, sessions, cached?.nicknames || null);
+        }
+        return cached?.nicknames || new Map();
+    }
+
+    private buildGroupNicknameIndex(account: Account, sessions: any[], previous: Map<string, string[]> | null): void {
+        this.groupNicknameCache.set(account.wxid, { expiresAt: 0, nicknames: previous, building: true });
+        const groups: string[] = sessions
+            .map((s: any) => s.username || s.user_name || '')
+            .filter((username: string) => username.endsWith('@chatroom'));
+
+        runWithPriority('bulk', async () => {
+            const nicknames = new Map<string, string[]>();
+            for (const group of groups) {
+                const result = await account.source.getGroupNicknames(group);
+                if (!result.success || !result.data) continue;
+                for (const [wxid, nickname] of Object.entries(result.data)) {
+                    if (!nickname) continue;
+                    const list = nicknames.get(wxid) || [];
+                    if (!list.includes(nickname)) list.push(nickname);
+                    nicknames.set(wxid, list);
+                }
+            }
+            this.groupNicknameCache.set(account.wxid, { expiresAt: Date.now() + GROUP_NICKNAME_CACHE_MS, nicknames, building: false });
+        }).catch((e) => {
+            console.error(`构建群昵称索引失败 (${account.wxid}):`, e);
+            this.groupNicknameCache.set(account.wxid, { expiresAt: Date.now() + GROUP_NICKNAME_CACHE_MS, nicknames: previous, building: false });
+        });
+    }
+
+    /**
+     * 列出 since 之后各群聊中 @ 了当前账号（含 @所有人）的消息，按时间从新到旧排列。
+     * since 默认为 24 小时前；all=0 时不包含 @所有人
+     */
+    private async handleMentions(
+        account: Account,
+        apiKey: ApiKey | null,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        const sinceParam = url.searchParams.get('since');
+        if (sinceParam !== null && !/^\d+$/.test(sinceParam)) {
+            this.sendError(res, 400, `Invalid since: ${sinceParam}, expected YYYYMMDD or a unix timestamp`);
+            return;
+        }
+        const since = sinceParam ? this.parseTimeParam(sinceParam) : Math.floor(Date.now() / 1000) - 24 * 3600;
+        const limitParam = url.searchParams.get('limit');
+        const limit = limitParam === null ? 100 : parseInt(limitParam, 10);
+        if (limitParam !== null && (!/^\d+$/.test(limitParam) || limit < 1 || limit > MAX_MENTION_RESULTS)) {
+            this.sendError(res, 400, `Invalid limit: expected an integer between 1 and ${MAX_MENTION_RESULTS}`);
+            return;
+        }
+        const includeAll = url.searchParams.get('all') !== '0';
+
+        const sessionsResult = await account.source.getSessions();
+        if (!sessionsResult.success || !sessionsResult.data) {
+            this.sendError(res, 500, sessionsResult.error || 'Failed to get sessions');
+            return;
+        }
+
+        // 最后活跃时间早于 since 的群不会有新的 @；按最后活跃时间从新到旧扫描，没有活跃时间的群排在最前
+        const groups: { username: string; lastTimestamp: number }[] = sessionsResult.data
+            .map((s: any) => ({ username: s.username || s.user_name || '', lastTimestamp: Number(s.sort_timestamp || s.last_timestamp || 0) }))
+            .filter(({ username, lastTimestamp }: { username: string; lastTimestamp: number }) =>
+                username.endsWith('@chatroom') && canAccessSession(apiKey, username) && (!lastTimestamp || lastTimestamp >= since));
+        const activity = (group: { lastTimestamp: number }) => group.lastTimestamp || Number.MAX_SAFE_INTEGER;
+        groups.sort((a, b) => activity(b) - activity(a));
+
+        // 扫描按 bulk 优先级执行，不挤占实时推送和普通查询
+        const scan: MentionScan = { limit, found: [], scanned: 0, truncated: false };
+        await runWithPriority('bulk', async () => {
+            for (const group of groups) {
+                if (signal.aborted) break;
+                // 剩下的群最后活跃时间都早于已找到的 limit + 1 条，不会再改变结果
+                if (group.lastTimestamp && group.lastTimestamp < this.getMentionCutoff(scan)) break;
+                if (scan.scanned >= MAX_MENTION_SCAN) {
+                    scan.truncated = true;
+                    break;
+                }
+                await this.collectMentions(account, group.username, since, includeAll, scan, signal);
+            }
+        });
+
+        if (signal.aborted) {
+            if (signal.reason === 'client_closed') {
+                console.log('⏹️ 客户端已断开，取消 @ 消息查询');
+                return;
+            }
+            this.sendError(res, 504, `Request timed out after ${this.requestTimeoutMs}ms, narrow the since range`);
+            return;
+        }
+
+        const limited = scan.found.slice(0, limit);
+
+        const talkers = Array.from(new Set(limited.map((item) => item.talker)));
+        const displayNames = talkers.length > 0 ? await account.source.getDisplayNames(talkers) : null;
+        const names = displayNames?.success && displayNames.data ? displayNames.data : {};
+
+        this.sendJson(res, {
+            success: true,
+            since,
+            count: limited.length,
+            hasMore: scan.found.length > limit,
+            // 读取的消息超过 MAX_MENTION_SCAN 条时停止扫描，更早的 @ 没有统计
+            truncated: scan.truncated,
+            messages: limited.map(({ talker, message }) => ({
+                talker,
+                talkerName: names[talker] || talker,
+                ...message,
+                parsedContent: redactForKey(apiKey, message.parsedContent),
+                rawContent: redactForKey(apiKey, message.rawContent),
+            })),
+        });
+    }
+
+    /**
+     * 从新到旧扫描单个群 since 之后的消息，把 @ 了当前账号的消息（不含自己发送的）加入 scan.found。
+     * 读到的消息早于 getMentionCutoff 时结束，读取总数超过 MAX_MENTION_SCAN 时标记 truncated
+     */
+    private async collectMentions(
+        account: Account,
+        sessionId: string,
+        since: number,
+        includeAll: boolean,
+        scan: MentionScan,
+        signal: AbortSignal
+    ): Promise<void> {
+        const source = account.source;
+        const normalizer = getMessageNormalizer();
+        const cursorResult = await source.openMessageCursor(sessionId, 500, false, since, 0);
+        if (!cursorResult.success || !cursorResult.data) {
+            return;
+        }
+
+        const cursor = cursorResult.data;
+        try {
+            let hasMore = true;
+            while (hasMore) {
+                if (scan.scanned >= MAX_MENTION_SCAN) {
+                    scan.truncated = true;
+                    break;
+                }
+                const batch = await this.raceAbort(source.fetchMessageBatch(cursor), signal);
+                if (!batch || !batch.success || !batch.data) break;
+
+                hasMore = batch.data.hasMore;
+                scan.scanned += batch.data.rows.length;
+                for (const row of batch.data.rows) {
+                    const createTime = normalizer.getCreateTime(row);
+                    if (createTime < since) continue;
+                    // 之后读到的消息更早，不会再进入结果
+                    if (createTime < this.getMentionCutoff(scan)) {
+                        hasMore = false;
+                        break;
+                    }
+                    const message = normalizer.normalizeRow(row, sessionId, account.wxid);
+                    if (message.isSend) continue;
+                    const mentioned = includeAll
+                        ? normalizer.mentionsUser(message, account.wxid)
+                        : message.mentions.some((wxid) => normalizer.isSelfSender(wxid, account.wxid));
+                    if (!mentioned) continue;
+                    scan.found.push({ talker: sessionId, message });
+                    scan.found.sort((a, b) => b.message.createTime - a.message.createTime);
+                    scan.found.length = Math.min(scan.found.length, scan.limit + 1);
+                }
+            }
+        } finally {
+            await source.closeMessageCursor(cursor);
+        }
+    }
+
+    /**
+     * 已找到 limit + 1 条时，早于其中最后一条的消息不会进入结果（hasMore 也已确定），返回该时间；否则为 0
+     */
+    private getMentionCutoff(scan: MentionScan): number {
+        return scan.found.length > scan.limit ? scan.found[scan.limit].message.createTime : 0;
+    }
+
+    /**
+     * 全文搜索：在本地 FTS5 索引中搜索所有会话的消息，按相关度排序，结果附带高亮摘要和定位上下文的地址
+     */
+    private async handleSearch(
+        account: Account,
+        apiKey: ApiKey | null,
+        url: URL,
+        res: http.ServerResponse
+    ): Promise<void> {
+        const searchIndex = getSearchIndexService();
+        const index = searchIndex.get(account);
+        if (!searchIndex.isEnabled() || !index) {
+            this.sendError(res, 503, 'Search index is disabled, set SEARCH_INDEX=true to enable');
+            return;
+        }
+
+        const q = (url.searchParams.get('q') || '').trim();
+        if (!q) {
+            this.sendError(res, 400, 'Missing required parameter: q');
+            return;
+        }
+        if (!buildMatchQuery(q)) {
+            this.sendError(res, 400, `No searchable terms in q: ${q}`);
+            return;
+        }
+
+        const talker = url.searchParams.get('talker') || undefined;
+        if (talker && !canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return;
+        }
+
+        // type 为逗号分隔的 ChatLab 类型，可以是数字或名称（text、file、link……）
+        const typesParam = url.searchParams.get('type');
+        const typeNames = ChatLabType as Record<string, number>;
+        const types: number[] = [];
+        for (const t of typesParam ? typesParam.split(',').map((t) => t.trim()).filter(Boolean) : []) {
+            const type = /^\d+$/.test(t) ? parseInt(t, 10) : typeNames[t.toUpperCase()];
+            if (type === undefined || !Object.values(typeNames).includes(type)) {
+                this.sendError(res, 400, `Invalid type: ${t}`);
+                return;
+            }
+            types.push(type);
+        }
+
+        const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 1), MAX_SEARCH_RESULTS);
+        const offset = Math.max(parseInt(url.searchParams.get('offset') || '0', 10) || 0, 0);
+
+        const { hits, hasMore } = index.search({
+            q,
+            talker,
+            sender: url.searchParams.get('sender') || undefined,
+            types,
+            start: this.parseTimeParam(url.searchParams.get('start')),
+            end: this.parseTimeParam(url.searchParams.get('end'), true),
+            limit,
+            offset,
+            canAccess: apiKey?.sessions ? (t) => canAccessSession(apiKey, t) : undefined,
+        });
+
+        const usernames = Array.from(new Set(hits.flatMap((hit) => [hit.talker, hit.sender]).filter(Boolean)));
+        const displayNames = usernames.length > 0 ? await account.source.getDisplayNames(usernames) : null;
+        const names = displayNames?.success && displayNames.data ? displayNames.data : {};
+        const apiBase = getAccountRegistry().getApiBasePath(account.wxid);
+
+        this.sendJson(res, {
+            success: true,
+            q,
+            count: hits.length,
+            hasMore,
+            index: index.getStatus(),
+            results: hits.map((hit) => {
+                const content = redactForKey(apiKey, hit.content);
+                return {
+                    talker: hit.talker,
+                    talkerName: names[hit.talker] || hit.talker,
+                    platformMessageId: hit.serverId,
+                    sender: hit.sender,
+                    accountName: names[hit.sender] || hit.sender,
+                    type: hit.type,
+                    timestamp: hit.createTime,
+                    content,
+                    snippet: highlightSnippet(content, q),
+                    score: hit.score,
+                    contextUrl: `${apiBase}/sessions/${encodeURIComponent(hit.talker)}/messages/${encodeURIComponent(hit.serverId)}` +
+                        `?before=5&after=5&time=${hit.createTime}`,
+                };
+            }),
+        });
+    }
+
+    /**
+     * 群事件：从群系统消息中解析出的成员进出、改名、转让群主、公告更新，按时间倒序返回
+     */
+    private async handleGroupEvents(
+        account: Account,
+        apiKey: ApiKey | null,
+        groupId: string,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        if (!groupId.endsWith('@chatroom')) {
+            this.sendError(res, 400, `Not a group chat: ${groupId}`);
+            return;
+        }
+        if (!canAccessSession(apiKey, groupId)) {
+            this.sendSessionForbidden(res, groupId);
+            return;
+        }
+
+        const typesParam = url.searchParams.get('types');
+        const types = typesParam ? typesParam.split(',').map((t) => t.trim()).filter(Boolean) : [];
+        const invalidType = types.find((t) => !GROUP_EVENT_TYPES.includes(t as GroupEventType));
+        if (invalidType) {
+            this.sendError(res, 400, `Invalid type: ${invalidType}, expected one of ${GROUP_EVENT_TYPES.join(', ')}`);
+            return;
+        }
+
+        const start = this.parseTimeParam(url.searchParams.get('start'));
+        const end = this.parseTimeParam(url.searchParams.get('end'), true);
+        const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+
+        const events = await this.collectGroupEvents(account, groupId, start, end, limit + 1, new Set(types), signal);
+        if (signal.aborted) {
+            if (signal.reason === 'client_closed') {
+                console.log('⏹️ 客户端已断开，取消群事件查询');
+                return;
+            }
+            this.sendError(res, 504, `Request timed out after ${this.requestTimeoutMs}ms, narrow the start / end range`);
+            return;
+        }
+
+        const limited = events.slice(0, limit);
+        await getGroupEventParser().resolveMembers(account.source, groupId, limited);
+
+        this.sendJson(res, {
+            success: true,
+            groupId,
+            count: limited.length,
+            hasMore: events.length > limit,
+            events: limited.map((event) => ({
+                ...event,
+                text: redactForKey(apiKey, event.text),
+                value: redactForKey(apiKey, event.value),
+            })),
+        });
+    }
+
+    /**
+     * 倒序扫描群消息，收集最多 limit 个群事件；types 为空时不过滤
+     */
+    private async collectGroupEvents(
+        account: Account,
+        groupId: string,
+        start: number,
+        end: number,
+        limit: number,
+        types: Set<string>,
+        signal: AbortSignal
+    ): Promise<GroupEvent[]> {
+        const source = account.source;
+        const normalizer = getMessageNormalizer();
+        const parser = getGroupEventParser();
+        const cursorResult = await source.openMessageCursor(groupId, 500, false, start, end);
+        if (!cursorResult.success || !cursorResult.data) {
+            return [];
+        }
+
+        const cursor = cursorResult.data;
+        const events: GroupEvent[] = [];
+        try {
+            let hasMore = true;
+            while (hasMore && events.length < limit) {
+                const batch = await this.raceAbort(source.fetchMessageBatch(cursor), signal);
+                if (!batch || !batch.success || !batch.data) break;
+
+                for (const row of batch.data.rows) {
+                    if (!parser.isCandidate(parseInt(row.local_type || row.type || '1', 10))) continue;
+                    const event = parser.parse(normalizer.normalizeRow(row, groupId, account.wxid), account.wxid);
+                    if (!event || (types.size > 0 && !types.has(event.type))) continue;
+                    events.push(event);
+                    if (events.length >= limit) break;
+                }
+                hasMore = batch.data.hasMore;
+            }
+        } finally {
+            await source.closeMessageCursor(cursor);
+        }
+
+        return events;
+    }
+
+    /**
+     * 按引用关系把时间范围内的消息组织成线程，只返回有回复的线程，按最后活跃时间从新到旧排列
+     */
+    private async handleThreads(
+        account: Account,
+        apiKey: ApiKey | null,
+        talker: string,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        if (!canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return;
+        }
+
+        const startParam = url.searchParams.get('start');
+        const start = startParam ? this.parseTimeParam(startParam) : Math.floor(Date.now() / 1000) - 7 * 24 * 3600;
+        const end = this.parseTimeParam(url.searchParams.get('end'), true);
+        const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+
+        const query: MessageQuery = { offset: 0, limit: MAX_THREAD_MESSAGES, dateRange: { start, end }, order: 'asc' };
+        const { messages, hasMore, aborted } = await runWithPriority('bulk', () => this.collectMessages(account, talker, query, signal));
+        if (aborted) {
+            this.sendThreadAborted(res, aborted, ', narrow the start / end range');
+            return;
+        }
+
+        const threads = buildThreads(messages);
+        const limited = threads.slice(0, limit);
+        const names = await this.resolveSenderNames(account, talker, [...new Set(limited.flatMap((t) => t.participants))]);
+
+        this.sendJson(res, {
+            success: true,
+            talker,
+            start,
+            end,
+            count: limited.length,
+            hasMore: threads.length > limit,
+            // 消息数超过 MAX_THREAD_MESSAGES 时只统计了最早的部分
+            truncated: hasMore,
+            threads: limited.map((thread) => this.formatThread(account, apiKey, talker, thread, names)),
+        });
+    }
+
+    /**
+     * 单条消息所在的完整线程：沿引用关系向上找到根，再从根的时间开始扫描其后所有的回复
+     */
+    private async handleMessageThread(
+        account: Account,
+        apiKey: ApiKey | null,
+        serverId: string,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        const talker = url.searchParams.get('talker');
+        if (!talker) {
+            this.sendError(res, 400, 'Missing required parameter: talker');
+            return;
+        }
+        if (!canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return;
+        }
+
+        const normalizer = getMessageNormalizer();
+        const time = parseInt(url.searchParams.get('time') || '0', 10) || 0;
+        const row = await this.findMessageRow(account, talker, serverId, { time }, signal);
+        if (signal.aborted) {
+            this.sendThreadAborted(res, signal.reason);
+            return;
+        }
+        if (!row) {
+            this.sendError(res, 404, `Message not found: ${serverId}`);
+            return;
+        }
+
+        // 从目标消息向上追溯，chain 为根到目标消息的路径
+        const chain: NormalizedMessage[] = [normalizer.normalizeRow(row, talker, account.wxid)];
+        let parentMissing = false;
+        while (chain.length < MAX_THREAD_DEPTH) {
+            const parentId = getReplyParentId(chain[0]);
+            if (!parentId) break;
+            // 被引用的消息一定早于引用消息
+            const parentRow = await this.findMessageRow(account, talker, parentId, { scanEnd: chain[0].createTime }, signal);
+            if (!parentRow) {
+                parentMissing = !signal.aborted;
+                break;
+            }
+            chain.unshift(normalizer.normalizeRow(parentRow, talker, account.wxid));
+        }
+
+        const root = chain[0];
+        const { replies, truncated } = signal.aborted
+            ? { replies: [], truncated: false }
+            : await this.collectThreadReplies(account, talker, root, signal);
+        if (signal.aborted) {
+            this.sendThreadAborted(res, signal.reason);
+            return;
+        }
+
+        const thread = buildThread([root, ...replies], root.serverId);
+        if (!thread) {
+            this.sendError(res, 404, `Message not found: ${serverId}`);
+            return;
+        }
+        const names = await this.resolveSenderNames(account, talker, thread.participants);
+
+        this.sendJson(res, {
+            success: true,
+            talker,
+            platformMessageId: serverId,
+            path: chain.map((msg) => msg.serverId),
+            // 根消息引用的消息已不存在（被删除或不在本地数据库中）
+            parentMissing,
+            // 根消息之后的消息超过 MAX_THREAD_MESSAGES 条时，更晚的回复没有统计
+            truncated,
+            thread: this.formatThread(account, apiKey, talker, thread, names),
+        });
+    }
+
+    /**
+     * 从根消息的时间开始顺序扫描，收集直接或间接引用根消息的回复，最多读取 MAX_THREAD_MESSAGES 条消息
+     */
+    private async collectThreadReplies(
+        account: Account,
+        talker: string,
+        root: NormalizedMessage,
+        signal: AbortSignal
+    ): Promise<{ replies: NormalizedMessage[]; truncated: boolean }> {
+        const source = account.source;
+        const normalizer = getMessageNormalizer();
+        const cursorResult = await source.openMessageCursor(talker, 500, true, root.createTime, 0);
+        if (!cursorResult.success || !cursorResult.data) {
+            return { replies: [], truncated: false };
+        }
+
+        const cursor = cursorResult.data;
+        const threadIds = new Set([root.serverId]);
+        const replies: NormalizedMessage[] = [];
+        let scanned = 0;
+        let hasMore = true;
+        try {
+            while (hasMore && scanned < MAX_THREAD_MESSAGES) {
+                const batch = await this.raceAbort(source.fetchMessageBatch(cursor), signal);
+                if (!batch || !batch.success || !batch.data) break;
+
+                for (const row of batch.data.rows) {
+                    const message = normalizer.normalizeRow(row, talker, account.wxid);
+                    const parentId = getReplyParentId(message);
+                    if (!parentId || !threadIds.has(parentId) || !message.serverId) continue;
+                    threadIds.add(message.serverId);
+                    replies.push(message);
+                }
+                scanned += batch.data.rows.length;
+                hasMore = batch.data.hasMore;
+            }
+        } finally {
+            await source.closeMessageCursor(cursor);
+        }
+
+        return { replies, truncated: hasMore && scanned >= MAX_THREAD_MESSAGES };
+    }
+
+    private sendThreadAborted(res: http.ServerResponse, reason: AbortReason, hint = ''): void {
+        if (reason === 'client_closed') {
+            console.log('⏹️ 客户端已断开，取消线程查询');
+            return;
+        }
+        this.sendError(res, 504, `Request timed out after ${this.requestTimeoutMs}ms${hint}`);
+    }
+
+    private formatThread(account: Account, apiKey: ApiKey | null, talker: string, thread: MessageThread, names: Record<string, string>) {
+        const normalizer = getMessageNormalizer();
+        const apiBase = getAccountRegistry().getApiBasePath(account.wxid);
+        const formatNode = (node: ThreadNode): any => {
+            const message = normalizer.toChatLab(node.message);
+            return {
+                ...message,
+                content: redactForKey(apiKey, message.content),
+                children: redactObjectForKey(apiKey, message.children),
+                mediaUrl: normalizer.getMediaUrl(node.message, talker, apiBase),
+                depth: node.depth,
+                replies: node.replies.map(formatNode),
+            };
+        };
+
+        return {
+            replyCount: thread.replyCount,
+            depth: thread.depth,
+            participants: thread.participants.map((platformId) => ({ platformId, accountName: names[platformId] || platformId })),
+            lastActivity: thread.lastActivity,
+            root: formatNode(thread.root),
+        };
+    }
+
+    private async handleMessageCount(account: Account, apiKey: ApiKey | null, talker: string, res: http.ServerResponse): Promise<void> {
+        if (!canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return;
+        }
+
+        const source = account.source;
+        const result = await source.getMessageCount(talker);
+
+        if (!result.success || result.data === undefined) {
+            this.sendError(res, 500, result.error || 'Failed to get message count');
+            return;
+        }
+
+        this.sendJson(res, {
+            success: true,
+            talker,
+            count: result.data,
+        });
+    }
+
+    private async handleContactDetail(account: Account, apiKey: ApiKey | null, username: string, res: http.ServerResponse): Promise<void> {
+        if (!canAccessSession(apiKey, username)) {
+            this.sendSessionForbidden(res, username);
+            return;
+        }
+
+        const source = account.source;
+        const result = await source.getContact(username);
+
+        if (!result.success) {
+            this.sendError(res, 500, result.error || 'Failed to get contact');
+            return;
+        }
+        if (!result.data) {
+            this.sendError(res, 404, `Contact not found: ${username}`);
+            return;
+        }
+
+        this.sendJson(res, {
+            success: true,
+            contact: result.data,
+        });
+    }
+
+    private async handleAvatars(account: Account, apiKey: ApiKey | null, url: URL, res: http.ServerResponse): Promise<void> {
+        const requested = (url.searchParams.get('usernames') || '')
+            .split(',')
+            .map((u) => u.trim())
+            .filter(Boolean);
+
+        if (requested.length === 0) {
+            this.sendError(res, 400, 'Missing required parameter: usernames');
+            return;
+        }
+
+        // 超出密钥会话范围的用户名直接忽略
+        const usernames = requested.filter((u) => canAccessSession(apiKey, u));
+        if (usernames.length === 0) {
+            this.sendJson(res, { success: true, count: 0, avatars: {} });
+            return;
+        }
+
+        const source = account.source;
+        const result = await source.getAvatarUrls(usernames);
+
+        if (!result.success || !result.data) {
+            this.sendError(res, 500, result.error || 'Failed to get avatars');
+            return;
+        }
+
+        this.sendJson(res, {
+            success: true,
+            count: Object.keys(result.data).length,
+            avatars: result.data,
+        });
+    }
+
+    private async handleDatabases(account: Account, res: http.ServerResponse): Promise<void> {
+        const source = account.source;
+        const messageDbs = await source.listMessageDbs();
+        const mediaDbs = await source.listMediaDbs();
+
+        if (!messageDbs.success || !mediaDbs.success) {
+            this.sendError(res, 500, messageDbs.error || mediaDbs.error || 'Failed to list databases');
+            return;
+        }
+
+        this.sendJson(res, {
+            success: true,
+            messageDbs: messageDbs.data || [],
+            mediaDbs: mediaDbs.data || [],
+        });
+    }
+
     private parseTimeParam(param: string | null, isEnd = false): number {
         if (!param) return 0;
 
@@ -825,11 +1754,204 @@ export class HttpService {
         return 0;
     }
 
-    private async convertToChatLab(messages: Message[], talkerId: string, talkerName: string): Promise<any> {
-        const config = getConfig();
-        const wcdb = getWcdbCore();
+    /**
+     * 图片消息的附件：size=original（默认，未下载原图时回退为缩略图）或 thumb，
+     * 实际返回的版本见 X-Image-Variant 响应头
+     */
+    private async handleMediaImage(
+        account: Account,
+        apiKey: ApiKey | null,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        const size = (url.searchParams.get('size') || 'original') as ImageVariant;
+        if (!IMAGE_VARIANTS.includes(size)) {
+            this.sendError(res, 400, `Invalid size: ${size} (expected ${IMAGE_VARIANTS.join(' or ')})`);
+            return;
+        }
+
+        const found = await this.findMediaMessage(account, apiKey, url, res, signal, (msg) => msg.localType === 3, 'an image');
+        if (!found) return;
+        const { talker, row, msg } = found;
+
+        const result = await getMediaResolver().readImage(account, talker, msg, row.packed_info_data || '', size);
+        if (!result.success) {
+            this.sendError(res, 422, result.error || 'Failed to decrypt image');
+            return;
+        }
+        if (!result.data) {
+            this.sendError(res, 404, 'Image file not found (it may not have been downloaded in WeChat)');
+            return;
+        }
+
+        const image = result.data;
+        res.setHeader('Content-Type', image.mimeType);
+        res.setHeader('Content-Length', image.data.length);
+        res.setHeader('Cache-Control', 'private, max-age=86400');
+        res.setHeader('X-Image-Variant', image.variant);
+        res.writeHead(200);
+        res.end(image.data);
+    }
+
+    /**
+     * 语音消息：format=wav（默认）、pcm（s16le，24000Hz 单声道）或 silk（原始数据），
+     * 解码后的时长（毫秒）见 X-Voice-Duration 响应头
+     */
+    private async handleMediaVoice(
+        account: Account,
+        apiKey: ApiKey | null,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        const format = (url.searchParams.get('format') || 'wav') as VoiceFormat;
+        if (!VOICE_FORMATS.includes(format)) {
+            this.sendError(res, 400, `Invalid format: ${format} (expected ${VOICE_FORMATS.join(', ')})`);
+            return;
+        }
+
+        const found = await this.findMediaMessage(account, apiKey, url, res, signal, (msg) => msg.localType === 34, 'a voice message');
+        if (!found) return;
+        const { talker, msg } = found;
+
+        const result = await getMediaResolver().readVoice(account, talker, msg);
+        if (!result.success) {
+            this.sendError(res, 500, result.error || 'Failed to read voice data');
+            return;
+        }
+        if (!result.data) {
+            this.sendError(res, 404, 'Voice data not found in media databases');
+            return;
+        }
+
+        const decoded = await decodeVoice(result.data, format);
+        if (!decoded.success || !decoded.data) {
+            this.sendError(res, 422, decoded.error || 'Failed to decode voice');
+            return;
+        }
+
+        const voice = decoded.data;
+        res.setHeader('Content-Type', voice.mimeType);
+        res.setHeader('Content-Length', voice.data.length);
+        res.setHeader('Cache-Control', 'private, max-age=86400');
+        if (voice.duration !== null) res.setHeader('X-Voice-Duration', Math.round(voice.duration));
+        res.writeHead(200);
+        res.end(voice.data);
+    }
+
+    /**
+     * 文件（appmsg type 6）和视频（localType 43）消息的附件，视频可用 size=thumb 获取封面。
+     * 支持 Range 分段下载和 If-None-Match 缓存校验；附件未在微信中下载时返回 404 且 downloaded 为 false
+     */
+    private async handleMediaFile(
+        account: Account,
+        apiKey: ApiKey | null,
+        req: http.IncomingMessage,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal
+    ): Promise<void> {
+        const size = url.searchParams.get('size') || 'original';
+        if (size !== 'original' && size !== 'thumb') {
+            this.sendError(res, 400, `Invalid size: ${size} (expected original or thumb)`);
+            return;
+        }
+
+        const normalizer = getMessageNormalizer();
+        const found = await this.findMediaMessage(account, apiKey, url, res, signal, (msg) => {
+            const type = normalizer.mapMessageType(msg);
+            return type === ChatLabType.FILE || type === ChatLabType.VIDEO;
+        }, 'a file or video');
+        if (!found) return;
+        const { row, msg } = found;
+
+        if (size === 'thumb' && msg.localType !== 43) {
+            this.sendError(res, 400, 'size=thumb is only available for videos');
+            return;
+        }
+
+        const result = getMediaResolver().locateAttachment(account, msg, row.packed_info_data || '', size === 'thumb');
+        if (!result.success) {
+            this.sendError(res, 500, result.error || 'Failed to locate attachment');
+            return;
+        }
+        if (!result.data) {
+            this.sendError(res, 404, 'Message has no attachment information');
+            return;
+        }
+
+        const attachment = result.data;
+        if (!attachment.path) {
+            res.setHeader('Content-Type', 'application/json; charset=utf-8');
+            res.writeHead(404);
+            res.end(JSON.stringify({
+                error: 'Attachment has not been downloaded in WeChat',
+                downloaded: false,
+                kind: attachment.kind,
+                name: attachment.name,
+            }));
+            return;
+        }
+
+        await sendFile(req, res, attachment.path, attachment.name, attachment.kind === 'file' ? 'attachment' : 'inline');
+    }
+
+    /**
+     * 媒体接口共用的消息定位：校验 talker / serverId 参数和会话范围，按 serverId（及可选的 time）查找消息，
+     * 并确认消息类型。失败时已写回错误响应，返回 null
+     */
+    private async findMediaMessage(
+        account: Account,
+        apiKey: ApiKey | null,
+        url: URL,
+        res: http.ServerResponse,
+        signal: AbortSignal,
+        accept: (msg: NormalizedMessage) => boolean,
+        description: string
+    ): Promise<{ talker: string; row: any; msg: NormalizedMessage } | null> {
+        const talker = url.searchParams.get('talker');
+        const serverId = url.searchParams.get('serverId');
+        const time = parseInt(url.searchParams.get('time') || '0', 10) || 0;
+
+        if (!talker || !serverId) {
+            this.sendError(res, 400, 'Missing required parameter: talker, serverId');
+            return null;
+        }
+        if (!canAccessSession(apiKey, talker)) {
+            this.sendSessionForbidden(res, talker);
+            return null;
+        }
+
+        const row = await this.findMessageRow(account, talker, serverId, { time }, signal);
+        if (signal.aborted) {
+            if (signal.reason === 'timeout') this.sendError(res, 504, `Request timed out after ${this.requestTimeoutMs}ms`);
+            return null;
+        }
+        if (!row) {
+            this.sendError(res, 404, `Message not found: ${serverId}`);
+            return null;
+        }
+
+        const msg = getMessageNormalizer().normalizeRow(row, talker, account.wxid);
+        if (!accept(msg)) {
+            this.sendError(res, 400, `Message ${serverId} is not ${description}`);
+            return null;
+        }
+        return { talker, row, msg };
+    }
+
+    private async convertToChatLab(
+        account: Account,
+        messages: NormalizedMessage[],
+        talkerId: string,
+        talkerName: string,
+        rich = false
+    ): Promise<any> {
+        const source = account.source;
         const isGroup = talkerId.endsWith('@chatroom');
-        const myWxid = config.myWxid;
+        const myWxid = account.wxid;
+        const normalizer = getMessageNormalizer();
 
         // 收集所有发送者
         const senderSet = new Set<string>();
@@ -845,7 +1967,7 @@ export class HttpService {
 
         if (isGroup) {
             // 尝试获取群成员列表
-            const groupMembersResult = await wcdb.getGroupMembers(talkerId);
+            const groupMembersResult = await source.getGroupMembers(talkerId);
             if (groupMembersResult.success && groupMembersResult.data) {
                 // 收集所有群成员的 username
                 for (const member of groupMembersResult.data) {
@@ -856,11 +1978,11 @@ export class HttpService {
                 }
 
                 // 获取所有群成员的显示名（包括不在消息发送者中的）
-                const displayNamesResult = await wcdb.getDisplayNames(allUsernames);
+                const displayNamesResult = await source.getDisplayNames(allUsernames);
                 const displayNamesMap = displayNamesResult.success && displayNamesResult.data ? displayNamesResult.data : {};
 
                 // 获取群昵称
-                const groupNicknamesResult = await wcdb.getGroupNicknames(talkerId);
+                const groupNicknamesResult = await source.getGroupNicknames(talkerId);
                 const groupNicknames = groupNicknamesResult.success && groupNicknamesResult.data ? groupNicknamesResult.data : {};
 
                 for (const member of groupMembersResult.data) {
@@ -870,7 +1992,7 @@ export class HttpService {
                     // 优先使用 getDisplayNames 获取的显示名
                     const displayName = displayNamesMap[username] || member.displayName || member.nickname || member.remark || member.accountName || username;
                     const groupNickname = groupNicknames[username] || groupNicknames[username.toLowerCase()] || member.groupNickname || '';
-                    const isSelf = this.isSelfSender(username, myWxid);
+                    const isSelf = normalizer.isSelfSender(username, myWxid);
 
                     memberMap.set(username, {
                         platformId: username,
@@ -883,7 +2005,7 @@ export class HttpService {
 
         // 如果是群聊但没有获取到群成员，或者获取发送者显示名
         const senderArray = Array.from(senderSet);
-        const senderNamesResult = await wcdb.getDisplayNames(senderArray);
+        const senderNamesResult = await source.getDisplayNames(senderArray);
         const senderNames = senderNamesResult.success && senderNamesResult.data ? senderNamesResult.data : {};
 
         // 对于没有在群成员中的发送者，也添加到 memberMap
@@ -891,7 +2013,7 @@ export class HttpService {
             const sender = msg.senderUsername || '';
             if (sender && !memberMap.has(sender)) {
                 const displayName = senderNames[sender] || sender;
-                const isSelf = this.isSelfSender(sender, myWxid);
+                const isSelf = normalizer.isSelfSender(sender, myWxid);
                 // 群聊中不使用"我"，统一使用真实昵称
                 memberMap.set(sender, {
                     platformId: sender,
@@ -901,22 +2023,10 @@ export class HttpService {
         }
 
         // 转换消息 - 不包含 accountName 和 groupNickname（这些信息已在 members 中）
+        const apiBase = getAccountRegistry().getApiBasePath(account.wxid);
         const chatLabMessages = messages.map((msg) => {
-            const sender = msg.senderUsername || '';
-            const type = this.mapMessageType(msg.localType, msg);
-            const url = type === ChatLabType.LINK
-                ? (msg.url || this.extractLinkUrl(msg.rawContent, msg.localType) || undefined)
-                : undefined;
-
-            return {
-                sender,
-                timestamp: msg.createTime,
-                type,
-                content: this.getMessageContent(msg),
-                referencedPlatformMessageId: type === ChatLabType.REPLY ? msg.referencedMessageId : undefined,
-                url,
-                platformMessageId: msg.serverId ? msg.serverId : undefined,
-            };
+            const message = { ...normalizer.toChatLab(msg), mediaUrl: normalizer.getMediaUrl(msg, talkerId, apiBase) };
+            return rich ? { ...message, payload: normalizer.getRichPayload(msg, myWxid) } : message;
         });
 
         return {
@@ -937,128 +2047,16 @@ export class HttpService {
         };
     }
 
-    /**
-     * 映射 WeChat 消息类型到 ChatLab 类型
-     */
-    private mapMessageType(localType: number, msg: Message): number {
-        switch (localType) {
-            case 1: // 文本
-                return ChatLabType.TEXT;
-            case 3: // 图片
-                return ChatLabType.IMAGE;
-            case 34: // 语音
-                return ChatLabType.VOICE;
-            case 43: // 视频
-                return ChatLabType.VIDEO;
-            case 47: // 动画表情
-                return ChatLabType.EMOJI;
-            case 48: // 位置
-                return ChatLabType.LOCATION;
-            case 42: // 名片
-                return ChatLabType.CONTACT;
-            case 50: // 语音/视频通话
-                return ChatLabType.CALL;
-            case 10000: // 系统消息
-                return ChatLabType.SYSTEM;
-            case 49: // 复合消息
-                return this.mapType49(msg);
-            case 244813135921: // 引用消息
-                return ChatLabType.REPLY;
-            case 266287972401: // 拍一拍
-                return ChatLabType.POKE;
-            case 8594229559345: // 红包
-                return ChatLabType.RED_PACKET;
-            case 8589934592049: // 转账
-                return ChatLabType.TRANSFER;
-            default:
-                if (msg.xmlType && this.isAppMessageContent(msg.rawContent)) {
-                    return this.mapType49(msg);
-                }
-                return ChatLabType.OTHER;
-        }
-    }
-
-    /**
-     * 映射 Type 49 子类型
-     */
-    private mapType49(msg: Message): number {
-        const xmlType = msg.xmlType;
-
-        switch (xmlType) {
-            case '5': // 链接
-            case '49':
-                return ChatLabType.LINK;
-            case '6': // 文件
-                return ChatLabType.FILE;
-            case '19': // 聊天记录
-                return ChatLabType.FORWARD;
-            case '33': // 小程序
-            case '36':
-                return ChatLabType.SHARE;
-            case '57': // 引用消息
-                return ChatLabType.REPLY;
-            case '2000': // 转账
-                return ChatLabType.TRANSFER;
-            case '2001': // 红包
-                return ChatLabType.RED_PACKET;
-            default:
-                return ChatLabType.OTHER;
-        }
-    }
-
-    /**
-     * 获取消息内容
-     */
-    private getMessageContent(msg: Message): string | null {
-        // 优先使用已解析的内容
-        if (msg.parsedContent) {
-            return msg.parsedContent;
-        }
-
-        // 根据类型返回占位符
-        switch (msg.localType) {
-            case 1:
-                return msg.rawContent || null;
-            case 3:
-                return '[图片]';
-            case 34:
-                return '[语音]';
-            case 43:
-                return '[视频]';
-            case 47:
-                return '[表情]';
-            case 42:
-                return '[名片]';
-            case 48:
-                return '[位置]';
-            case 49: {
-                const appMsg = this.extractAppMessageInfo(msg.rawContent, msg.localType);
-                const title = appMsg.title || this.extractXmlValue(msg.rawContent, 'title');
-                const xmlType = msg.xmlType || appMsg.xmlType;
-                if (xmlType === '5' || xmlType === '49') return title ? `[链接] ${title}` : '[链接]';
-                if (xmlType === '6') return title ? `[文件] ${title}` : '[文件]';
-                if (xmlType === '57') return this.formatReplyContent(title);
-                return title || '[消息]';
-            }
-            case 244813135921: {
-                const title = this.extractXmlValue(msg.rawContent, 'title');
-                return this.formatReplyContent(title);
-            }
-            case 266287972401:
-                return this.formatPokeMessage(msg.rawContent);
-            case 10000:
-                return this.cleanSystemMessage(msg.rawContent);
-            default:
-                return msg.rawContent || null;
-        }
-    }
-
     private sendJson(res: http.ServerResponse, data: any): void {
         res.setHeader('Content-Type', 'application/json; charset=utf-8');
         res.writeHead(200);
         res.end(JSON.stringify(data, null, 2));
     }
 
+    private sendSessionForbidden(res: http.ServerResponse, sessionId: string): void {
+        this.sendError(res, 403, `Forbidden: API key cannot access session "${sessionId}"`);
+    }
+
     private sendError(res: http.ServerResponse, code: number, message: string): void {
         res.setHeader('Content-Type', 'application/json; charset=utf-8');
         res.writeHead(code);
@@ -0,0 +1,160 @@
+/**
+ * WeFlow API CLI - 图片解密
+ * 微信图片附件（.dat）有两种加密格式：
+ * - 旧版：整个文件与单字节密钥异或，密钥由文件头与已知图片格式的魔数推出
+ * - V4：15 字节文件头（6 字节魔数 + AES 段长度 + 异或段长度，均为小端 uint32，再加 1 字节保留），
+ *   之后依次为 AES-128-ECB 加密段（PKCS7 填充）、明文段、单字节异或段。
+ *   V1 使用固定 AES 密钥，V2 的 AES 密钥因账号而异，需从微信进程中获取
+ */
+import { createDecipheriv } from 'crypto';
+import type { WcdbResult } from './dataSource.js';
+
+export type ImageFormat = 'jpg' | 'png' | 'gif' | 'webp' | 'bmp';
+
+export interface ImageKeys {
+    /** V2 格式的 AES 密钥（16 个字符），为空时无法解密 V2 */
+    aesKey: string;
+    /** V4 异或段的密钥，为 null 时根据文件尾推断 */
+    xorKey: number | null;
+}
+
+export interface DecryptedImage {
+    data: Buffer;
+    format: ImageFormat;
+    mimeType: string;
+}
+
+const V4_HEADER_SIZE = 15;
+const V4_MAGIC_V1 = Buffer.from([0x07, 0x08, 0x56, 0x31, 0x08, 0x07]);
+const V4_MAGIC_V2 = Buffer.from([0x07, 0x08, 0x56, 0x32, 0x08, 0x07]);
+// V1 的 AES 密钥为 md5("0") 的前 16 个字符
+const V4_V1_AES_KEY = 'cfcd208495d565ef';
+
+const IMAGE_SIGNATURES: { format: ImageFormat; mimeType: string; magic: number[] }[] = [
+    { format: 'jpg', mimeType: 'image/jpeg', magic: [0xff, 0xd8, 0xff] },
+    { format: 'png', mimeType: 'image/png', magic: [0x89, 0x50, 0x4e, 0x47] },
+    { format: 'gif', mimeType: 'image/gif', magic: [0x47, 0x49, 0x46, 0x38] },
+    { format: 'webp', mimeType: 'image/webp', magic: [0x52, 0x49, 0x46, 0x46] },
+    { format: 'bmp', mimeType: 'image/bmp', magic: [0x42, 0x4d] },
+];
+
+// 各格式固定的文件尾，用于推断 V4 异或段的密钥（webp / bmp 没有固定文件尾）
+const IMAGE_TRAILERS: Partial<Record<ImageFormat, number[]>> = {
+    jpg: [0xff, 0xd9],
+    png: [0xae, 0x42, 0x60, 0x82],
+    gif: [0x3b],
+};
+
+// 微信自有的 HEVC 封装格式，需要额外的解码器才能转换为普通图片
+const WXGF_MAGIC = Buffer.from('wxgf', 'latin1');
+
+/**
+ * 根据文件头识别图片格式
+ */
+export function detectImageFormat(data: Buffer): { format: ImageFormat; mimeType: string } | null {
+    for (const { format, mimeType, magic } of IMAGE_SIGNATURES) {
+        if (data.length < magic.length) continue;
+        if (!magic.every((byte, i) => data[i] === byte)) continue;
+        if (format === 'webp' && data.subarray(8, 12).toString('latin1') !== 'WEBP') continue;
+        return { format, mimeType };
+    }
+    return null;
+}
+
+export function isV4Image(data: Buffer): boolean {
+    if (data.length < V4_HEADER_SIZE) return false;
+    const magic = data.subarray(0, 6);
+    return magic.equals(V4_MAGIC_V1) || magic.equals(V4_MAGIC_V2);
+}
+
+/**
+ * 解密 .dat 图片，自动区分 V4 与旧版格式
+ */
+export function decryptImage(data: Buffer, keys: ImageKeys): WcdbResult<DecryptedImage> {
+    const decrypted = isV4Image(data) ? decryptV4(data, keys) : decryptLegacy(data);
+    if (!decrypted.success || !decrypted.data) {
+        return { success: false, error: decrypted.error };
+    }
+
+    const plain = decrypted.data;
+    const detected = detectImageFormat(plain);
+    if (!detected) {
+        if (plain.subarray(0, 4).equals(WXGF_MAGIC)) {
+            return { success: false, error: '图片为微信 HEVC（wxgf）格式，暂不支持转换' };
+        }
+        return { success: false, error: '解密后无法识别图片格式，密钥可能不正确' };
+    }
+    return { success: true, data: { data: plain, ...detected } };
+}
+
+/**
+ * 旧版格式：用各图片格式的魔数逐一尝试推出异或密钥
+ */
+function decryptLegacy(data: Buffer): WcdbResult<Buffer> {
+    const candidates = [...IMAGE_SIGNATURES.map((s) => s.magic), [...WXGF_MAGIC]];
+    for (const magic of candidates) {
+        if (data.length < magic.length) continue;
+        const key = data[0] ^ magic[0];
+        if (!magic.every((byte, i) => (data[i] ^ key) === byte)) continue;
+        return { success: true, data: xorBuffer(data, key) };
+    }
+    return { success: false, error: '无法识别的图片文件格式' };
+}
+
+function decryptV4(data: Buffer, keys: ImageKeys): WcdbResult<Buffer> {
+    const isV2 = data.subarray(0, 6).equals(V4_MAGIC_V2);
+    const aesKey = isV2 ? keys.aesKey : V4_V1_AES_KEY;
+    if (!aesKey) {
+        return { success: false, error: '图片为 V4-V2 格式，需要配置图片 AES 密钥（IMAGE_AES_KEY）' };
+    }
+
+    const aesSize = data.readUInt32LE(6);
+    const xorSize = data.readUInt32LE(10);
+    const body = data.subarray(V4_HEADER_SIZE);
+    // PKCS7 总会填充，长度恰好对齐时也会多出一个完整的块
+    const aesEncryptedSize = aesSize + (16 - (aesSize % 16));
+    if (aesEncryptedSize + xorSize > body.length) {
+        return { success: false, error: '图片文件头中的分段长度与文件大小不符' };
+    }
+
+    let head: Buffer;
+    try {
+        const decipher = createDecipheriv('aes-128-ecb', Buffer.from(aesKey, 'latin1'), null);
+        head = Buffer.concat([decipher.update(body.subarray(0, aesEncryptedSize)), decipher.final()]);
+    } catch {
+        return { success: false, error: '图片 AES 段解密失败，密钥可能不正确' };
+    }
+
+    const middle = body.subarray(aesEncryptedSize, body.length - xorSize);
+    const tail = body.subarray(body.length - xorSize);
+    if (tail.length === 0) {
+        return { success: true, data: Buffer.concat([head, middle]) };
+    }
+
+    const xorKey = keys.xorKey ?? inferXorKey(head, tail);
+    if (xorKey === null) {
+        return { success: false, error: '无法推断图片异或密钥，请配置 IMAGE_XOR_KEY' };
+    }
+    return { success: true, data: Buffer.concat([head, middle, xorBuffer(tail, xorKey)]) };
+}
+
+/**
+ * 异或段位于文件末尾，按解密出的文件头判断格式后，用该格式固定的文件尾反推密钥
+ */
+function inferXorKey(head: Buffer, tail: Buffer): number | null {
+    const detected = detectImageFormat(head);
+    const trailer = detected ? IMAGE_TRAILERS[detected.format] : undefined;
+    if (!trailer || tail.length < trailer.length) return null;
+
+    const offset = tail.length - trailer.length;
+    const key = tail[offset] ^ trailer[0];
+    return trailer.every((byte, i) => (tail[offset + i] ^ key) === byte) ? key : null;
+}
+
+function xorBuffer(data: Buffer, key: number): Buffer {
+    const out = Buffer.allocUnsafe(data.length);
+    for (let i = 0; i < data.length; i++) {
+        out[i] = data[i] ^ key;
+    }
+    return out;
+}
@@ -3,9 +3,12 @@
  * 微信聊天记录 HTTP API 和 WebSocket 实时推送服务
  */
 import { getConfig } from './config.js';
-import { getWcdbCore } from './wcdbCore.js';
+import { getAccountRegistry } from './accountRegistry.js';
 import { getHttpService } from './httpService.js';
 import { getWsService } from './wsService.js';
+import { getSearchIndexService } from './searchIndex.js';
+import { resolveDbStoragePath, findDbFile } from './dbStorage.js';
+import { decryptDbStorage, verifyDatabaseKey } from './dbDecrypt.js';
 
 async function main(): Promise<void> {
     console.log('');
@@ -18,27 +21,47 @@ async function main(): Promise<void> {
     // 加载配置
     const config = getConfig();
     console.log('📋 配置信息:');
+    console.log(`   数据源: ${config.dataSource}`);
     console.log(`   数据库路径: ${config.dbPath}`);
     console.log(`   微信ID: ${config.myWxid}`);
+    if (config.accounts.length > 1) {
+        console.log(`   附加账号: ${config.accounts.slice(1).map((a) => a.wxid).join(', ')}`);
+    }
     console.log(`   HTTP API: http://${config.httpHost}:${config.httpPort}`);
     console.log(`   WebSocket: ws://${config.wsHost}:${config.wsPort}`);
+    console.log(`   API 鉴权: ${config.apiKeys.length > 0 ? `已启用（${config.apiKeys.length} 个密钥）` : '未启用'}`);
+    console.log(`   全文搜索: ${config.searchIndexEnabled ? '已启用' : '未启用'}`);
     console.log('');
 
-    // 初始化 WCDB
+    // 初始化数据源
     console.log('🔌 正在连接数据库...');
-    const wcdb = getWcdbCore();
+    const registry = getAccountRegistry();
+    const source = registry.getDefault().source;
 
-    const connected = await wcdb.open(config.dbPath, config.decryptKey, config.myWxid);
-    if (!connected) {
-        console.error('❌ 数据库连接失败');
+    const results = await registry.openAll();
+    const connected = results[0].connected;
+    for (const result of results.slice(1)) {
+        if (!result.connected) {
+            console.warn(`⚠️ 账号 ${result.wxid} 连接失败，该账号的接口将返回错误`);
+        }
+    }
+    if (connected) {
+        console.log('✅ 数据库连接成功');
+    } else {
+        // 不退出：服务照常启动，/health/ready 返回 503，后台重连成功后恢复
+        console.error('❌ 数据库连接失败，将在后台定期重试');
         console.error('   请检查:');
-        console.error('   1. DB_PATH 是否正确指向 xwechat_files 目录');
-        console.error('   2. DECRYPT_KEY 是否正确');
-        console.error('   3. MY_WXID 是否正确');
-        console.error('   4. resources 目录是否包含必要的 DLL 文件');
-        process.exit(1);
+        if (source.kind === 'sqlite') {
+            console.error('   1. DB_PATH 是否指向包含已解密数据库的目录');
+            console.error('   2. MY_WXID 是否正确');
+        } else {
+            console.error('   1. DB_PATH 是否正确指向 xwechat_files 目录');
+            console.error('   2. DECRYPT_KEY 是否正确');
+            console.error('   3. MY_WXID 是否正确');
+            console.error('   4. resources 目录是否包含必要的 DLL 文件');
+        }
     }
-    console.log('✅ 数据库连接成功');
+    registry.startReconnectLoop(config.reconnectIntervalMs);
 
     // 启动 HTTP API 服务
     console.log('');
@@ -48,7 +71,7 @@ async function main(): Promise<void> {
     const httpResult = await httpService.start();
     if (!httpResult.success) {
         console.error('❌ HTTP API 服务启动失败:', httpResult.error);
-        wcdb.shutdown();
+        registry.shutdown();
         process.exit(1);
     }
 
@@ -58,18 +81,34 @@ async function main(): Promise<void> {
     if (!wsResult.success) {
         console.error('❌ WebSocket 服务启动失败:', wsResult.error);
         await httpService.stop();
-        wcdb.shutdown();
+        registry.shutdown();
         process.exit(1);
     }
 
+    // 启动全文搜索索引（后台构建，不阻塞启动）
+    const searchIndex = getSearchIndexService();
+    searchIndex.start();
+
     console.log('');
     console.log('═══════════════════════════════════════════════════════════════');
     console.log('');
     console.log('📖 API 文档:');
     console.log('');
+    if (config.apiKeys.length > 0) {
+        console.log('   鉴权:');
+        console.log('       - HTTP 请求头: Authorization: Bearer <API_KEY>（/health 系列接口无需鉴权）');
+        console.log('       - WebSocket: 同样的请求头，或连接地址加 ?token=<API_KEY>');
+        console.log('       - 权限: sessions(会话/数据库列表) messages(消息/消息数) contacts(联系人/头像) realtime(WebSocket)');
+        console.log('       - 失败: HTTP 401（密钥无效）/ 403（缺少权限），WebSocket 关闭码 4401 / 4403');
+    } else {
+        console.log('   ⚠️ 未配置 API_KEYS，所有接口无需鉴权，本机任意程序（包括浏览器页面）都可以读取聊天记录');
+    }
+    console.log('');
     console.log('   HTTP API 接口:');
-    console.log(`   GET http://${config.httpHost}:${config.httpPort}/health`);
-    console.log('       - 健康检查');
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/health/live`);
+    console.log('       - 存活检查（进程在运行即返回 200）');
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/health/ready`);
+    console.log('       - 就绪检查（各组件状态，默认账号未连接时返回 503；/health 为别名）');
     console.log('');
     console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/sessions`);
     console.log('       - 获取会话列表');
@@ -77,16 +116,40 @@ async function main(): Promise<void> {
     console.log('');
     console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/messages`);
     console.log('       - 获取消息列表');
-    console.log('       - 参数: talker(必填), limit, offset, start, end, chatlab');
+    console.log('       - 参数: talker(必填), limit, offset, start, end, chatlab, order, before, after, cursor');
     console.log('');
     console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/contacts`);
     console.log('       - 获取联系人列表');
     console.log('       - 参数: keyword, limit');
     console.log('');
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/contacts/{username}`);
+    console.log('       - 获取联系人详情');
+    console.log('');
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/sessions/{id}/count`);
+    console.log('       - 获取会话消息总数');
+    console.log('');
+    if (config.searchIndexEnabled) {
+        console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/search`);
+        console.log('       - 全文搜索所有会话的消息');
+        console.log('       - 参数: q(必填), talker, sender, type, start, end, limit, offset');
+        console.log('');
+    }
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/avatars`);
+    console.log('       - 获取头像 URL');
+    console.log('       - 参数: usernames(必填，逗号分隔)');
+    console.log('');
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/databases`);
+    console.log('       - 列出消息库和媒体库文件');
+    console.log('');
+    console.log(`   GET http://${config.httpHost}:${config.httpPort}/api/v1/accounts`);
+    console.log('       - 列出已配置的账号');
+    console.log('       - 以上 /api/v1/... 接口均可加账号前缀: /api/v1/accounts/{wxid}/...，不加时使用默认账号');
+    console.log('');
     console.log('   WebSocket 接口:');
-    console.log(`   ws://${config.wsHost}:${config.wsPort}`);
+    console.log(`   ws://${config.wsHost}:${config.wsPort}${config.apiKeys.length > 0 ? '?token=<API_KEY>' : ''}`);
     console.log('       - 连接后发送 { "type": "subscribe_all" } 订阅所有会话更新');
     console.log('       - 或发送 { "type": "subscribe", "sessions": ["wxid_xxx"] } 订阅特定会话');
+    console.log('       - 多账号: { "type": "subscribe", "sessions": [{ "account": "wxid_a", "session": "wxid_xxx" }] }');
     console.log('');
     console.log('═══════════════════════════════════════════════════════════════');
     console.log('');
@@ -99,7 +162,8 @@ async function main(): Promise<void> {
         console.log('正在关闭服务...');
         await wsService.stop();
         await httpService.stop();
-        wcdb.shutdown();
+        searchIndex.stop();
+        registry.shutdown();
         console.log('👋 服务已停止');
         process.exit(0);
     };
@@ -111,7 +175,71 @@ async function main(): Promise<void> {
     await new Promise(() => { });
 }
 
-main().catch((e) => {
+/**
+ * decrypt 命令：将 db_storage 下的加密数据库解密为普通 SQLite 文件
+ * 用法: node dist/index.js decrypt [输出目录] [--check]
+ *   --check  只校验 DECRYPT_KEY 是否正确，不写出文件
+ */
+async function decrypt(args: string[]): Promise<void> {
+    const config = getConfig();
+    const checkOnly = args.includes('--check');
+    const outputDir = args.find((arg) => !arg.startsWith('--')) || './decrypted';
+
+    if (!config.decryptKey) {
+        console.error('❌ 配置错误: 请在 .env 文件中配置 DECRYPT_KEY');
+        process.exit(1);
+    }
+
+    const dbStoragePath = resolveDbStoragePath(config.dbPath, config.myWxid);
+    if (!dbStoragePath) {
+        console.error(`❌ 未找到 db_storage 目录: ${config.dbPath}`);
+        process.exit(1);
+    }
+
+    if (checkOnly) {
+        const sessionDbPath = findDbFile(dbStoragePath, 'session.db');
+        if (!sessionDbPath) {
+            console.error('❌ 未找到 session.db 文件');
+            process.exit(1);
+        }
+        const result = verifyDatabaseKey(sessionDbPath, config.decryptKey);
+        if (!result.success) {
+            console.error(`❌ ${result.error}`);
+            process.exit(1);
+        }
+        console.log(result.data ? '✅ 密钥正确' : '❌ 密钥错误');
+        process.exit(result.data ? 0 : 1);
+    }
+
+    console.log(`🔓 正在解密: ${dbStoragePath}`);
+    console.log(`   输出目录: ${outputDir}`);
+
+    const result = decryptDbStorage(dbStoragePath, outputDir, config.decryptKey, (fileResult, index, total) => {
+        const prefix = `[${index + 1}/${total}]`;
+        if (fileResult.success && fileResult.data) {
+            const note = fileResult.data.plaintext ? '（未加密，已复制）' : `${fileResult.data.pages} 页`;
+            console.log(`   ${prefix} ✅ ${fileResult.data.target} ${note}`);
+        } else {
+            console.error(`   ${prefix} ❌ ${fileResult.error}`);
+        }
+    });
+
+    if (!result.success || !result.data) {
+        console.error(`❌ 解密失败: ${result.error}`);
+        process.exit(1);
+    }
+
+    const failed = result.data.filter((r) => !r.success).length;
+    console.log('');
+    console.log(`解密完成: 成功 ${result.data.length - failed} 个, 失败 ${failed} 个`);
+    console.log(`可设置 DATA_SOURCE=sqlite 并将 DB_PATH 指向 ${outputDir} 使用解密后的数据库`);
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+const [command, ...commandArgs] = process.argv.slice(2);
+const entry = command === 'decrypt' ? decrypt(commandArgs) : main();
+
+entry.catch((e) => {
     console.error('启动失败:', e);
     process.exit(1);
 });
@@ -0,0 +1,329 @@
+/**
+ * WeFlow API CLI - 媒体文件定位
+ * 在账号目录（db_storage 的上一级）下查找消息对应的附件：
+ * 图片位于 msg/attach/<md5(会话ID)>/<yyyy-mm>/Img/<文件名>[_t|_h].dat，
+ * 文件名优先取消息行 packed_info_data 中记录的名称，其次为消息 XML 中 <img md5="..."> 的值。
+ * 文件位于 msg/file/<yyyy-mm>/<原文件名>（重名时为 名称(1).扩展名），
+ * 视频位于 msg/video/<yyyy-mm>/<文件名>.mp4，封面为同目录的 <文件名>_thumb.jpg。
+ * 语音不是文件，存放在 media_N.db 的 VoiceInfo 表中，通过数据源的 execQuery 读取
+ */
+import { createHash } from 'crypto';
+import { basename, dirname, extname, join } from 'path';
+import { existsSync, readdirSync, statSync } from 'fs';
+import { readFile } from 'fs/promises';
+import type { Account } from './accountRegistry.js';
+import type { WcdbResult } from './dataSource.js';
+import { resolveDbStoragePath } from './dbStorage.js';
+import { decryptImage, type DecryptedImage } from './imageDecrypt.js';
+import { getMessageNormalizer, type NormalizedMessage } from './messageNormalizer.js';
+
+/** original 依次查找高清图（_h）和原图，thumb 为缩略图（_t） */
+export type ImageVariant = 'original' | 'thumb';
+
+export const IMAGE_VARIANTS: readonly ImageVariant[] = ['original', 'thumb'];
+
+const IMAGE_SUFFIXES: Record<ImageVariant, string[]> = {
+    original: ['_h.dat', '.dat'],
+    thumb: ['_t.dat'],
+};
+
+export interface ResolvedImage extends DecryptedImage {
+    /** 实际返回的版本：原图未下载时回退为缩略图 */
+    variant: ImageVariant;
+    path: string;
+}
+
+export interface AttachmentLocation {
+    kind: 'file' | 'video' | 'video_thumb';
+    /** 下载时使用的文件名 */
+    name: string;
+    /** 本地路径，附件尚未在微信中下载时为 null */
+    path: string | null;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.pdf': 'application/pdf',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ppt': 'application/vnd.ms-powerpoint',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.txt': 'text/plain; charset=utf-8',
+    '.csv': 'text/csv; charset=utf-8',
+    '.json': 'application/json',
+    '.zip': 'application/zip',
+    '.rar': 'application/vnd.rar',
+    '.7z': 'application/x-7z-compressed',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.mp3': 'audio/mpeg',
+    '.mp4': 'video/mp4',
+    '.mov': 'video/quicktime',
+};
+
+/**
+ * 按扩展名推断 Content-Type，未知类型为 application/octet-stream
+ */
+export function getContentType(name: string): string {
+    return CONTENT_TYPES[extname(name).toLowerCase()] || 'application/octet-stream';
+}
+
+export class MediaResolver {
+    // key: wxid，value: 账号目录；未找到时不缓存，下次请求重新查找
+    private accountDirs: Map<string, string> = new Map();
+
+    /**
+     * 账号目录，即 db_storage 的上一级（其中还有 msg/attach、msg/file 等附件目录）
+     */
+    getAccountDir(account: Account): string | null {
+        let accountDir = this.accountDirs.get(account.wxid);
+        if (!accountDir) {
+            const dbStorage = resolveDbStoragePath(account.dbPath, account.wxid);
+            if (!dbStorage) return null;
+            accountDir = dirname(dbStorage);
+            this.accountDirs.set(account.wxid, accountDir);
+        }
+        return accountDir;
+    }
+
+    /**
+     * 读取并解密图片消息的附件，请求的版本不存在时回退到另一个版本；找不到文件时 data 为 null
+     */
+    async readImage(
+        account: Account,
+        sessionId: string,
+        msg: NormalizedMessage,
+        packedInfo: string,
+        variant: ImageVariant
+    ): Promise<WcdbResult<ResolvedImage | null>> {
+        const accountDir = this.getAccountDir(account);
+        if (!accountDir) {
+            return { success: false, error: `未找到账号目录: ${account.wxid}` };
+        }
+
+        const names = this.getImageFileNames(msg.rawContent, packedInfo);
+        if (names.length === 0) {
+            return { success: true, data: null };
+        }
+
+        const fallback: ImageVariant = variant === 'original' ? 'thumb' : 'original';
+        for (const candidate of [variant, fallback]) {
+            const path = this.findImageFile(accountDir, sessionId, msg.createTime, names, candidate);
+            if (!path) continue;
+
+            const decrypted = decryptImage(await readFile(path), {
+                aesKey: account.imageAesKey,
+                xorKey: account.imageXorKey,
+            });
+            if (!decrypted.success || !decrypted.data) {
+                return { success: false, error: decrypted.error };
+            }
+            return { success: true, data: { ...decrypted.data, variant: candidate, path } };
+        }
+
+        return { success: true, data: null };
+    }
+
+    /**
+     * 定位文件（appmsg type 6）或视频（localType 43）消息的附件，thumb 为视频封面。
+     * 消息中没有可用的文件信息时 data 为 null
+     */
+    locateAttachment(
+        account: Account,
+        msg: NormalizedMessage,
+        packedInfo: string,
+        thumb: boolean
+    ): WcdbResult<AttachmentLocation | null> {
+        const accountDir = this.getAccountDir(account);
+        if (!accountDir) {
+            return { success: false, error: `未找到账号目录: ${account.wxid}` };
+        }
+
+        if (msg.localType === 43) {
+            const names = this.getVideoFileNames(msg.rawContent, packedInfo);
+            if (names.length === 0) return { success: true, data: null };
+
+            const fileNames = names.map((name) => (thumb ? `${name}_thumb.jpg` : `${name}.mp4`));
+            const path = this.findInMonthDirs(join(accountDir, 'msg', 'video'), msg.createTime, (dir) => {
+                const found = fileNames.find((fileName) => existsSync(join(dir, fileName)));
+                return found ? join(dir, found) : null;
+            });
+            return { success: true, data: { kind: thumb ? 'video_thumb' : 'video', name: path ? basename(path) : fileNames[0], path } };
+        }
+
+        const payload = getMessageNormalizer().getRichPayload(msg, account.wxid);
+        if (payload?.kind !== 'file' || !payload.name) {
+            return { success: true, data: null };
+        }
+        const { name, size } = payload;
+        const path = this.findInMonthDirs(join(accountDir, 'msg', 'file'), msg.createTime, (dir) => this.findSharedFile(dir, name, size));
+        return { success: true, data: { kind: 'file', name, path } };
+    }
+
+    /**
+     * 同名文件会被保存为 名称(1).扩展名 等，有文件大小时优先选择大小一致的那个
+     */
+    private findSharedFile(dir: string, name: string, size: number | null): string | null {
+        const ext = extname(name);
+        const stem = name.slice(0, name.length - ext.length);
+        let entries: string[];
+        try {
+            entries = readdirSync(dir);
+        } catch {
+            return null;
+        }
+
+        const candidates = entries.filter((entry) => {
+            if (entry === name) return true;
+            if (!entry.startsWith(`${stem}(`) || !entry.endsWith(`)${ext}`)) return false;
+            return /^\d+$/.test(entry.slice(stem.length + 1, entry.length - ext.length - 1));
+        });
+        if (candidates.length === 0) return null;
+
+        if (size !== null) {
+            const matched = candidates.find((entry) => {
+                try {
+                    return statSync(join(dir, entry)).size === size;
+                } catch {
+                    return false;
+                }
+            });
+            if (matched) return join(dir, matched);
+        }
+        return candidates.includes(name) ? join(dir, name) : join(dir, candidates[0]);
+    }
+
+    /**
+     * 视频文件名同样优先取 packed_info_data，其次为 <videomsg md5="...">
+     */
+    private getVideoFileNames(content: string, packedInfo: string): string[] {
+        const names = this.getPackedFileNames(packedInfo);
+        const md5 = /<videomsg\b[^>]*\smd5\s*=\s*"([0-9a-fA-F]{32})"/i.exec(content || '');
+        if (md5) names.push(md5[1].toLowerCase());
+        return [...new Set(names)];
+    }
+
+    /**
+     * 先查消息所在月份的目录，再查其他月份（消息时间与文件目录偶尔跨月）
+     */
+    private findInMonthDirs(baseDir: string, createTime: number, find: (dir: string) => string | null): string | null {
+        if (!existsSync(baseDir)) return null;
+
+        const month = this.formatMonth(createTime);
+        let months: string[] = [];
+        try {
+            months = readdirSync(baseDir).filter((entry) => entry !== month).sort().reverse();
+        } catch { }
+
+        for (const entry of [month, ...months]) {
+            const found = find(join(baseDir, entry));
+            if (found) return found;
+        }
+        return null;
+    }
+
+    /**
+     * 从 media_N.db 的 VoiceInfo 读取语音数据（SILK），优先按 svr_id 查找，
+     * 没有 svr_id 的记录按 local_id + create_time + 会话查找；较长的语音分多行存放，按 data_index 拼接。
+     * 找不到时 data 为 null
+     */
+    async readVoice(account: Account, sessionId: string, msg: NormalizedMessage): Promise<WcdbResult<Buffer | null>> {
+        const source = account.source;
+        const mediaDbs = await source.listMediaDbs();
+        if (!mediaDbs.success || !mediaDbs.data) {
+            return { success: false, error: mediaDbs.error || '无法列出媒体数据库' };
+        }
+
+        const conditions: string[] = [];
+        if (/^[1-9][0-9]*$/.test(msg.serverId)) {
+            conditions.push(`svr_id = ${msg.serverId}`);
+        }
+        if (msg.localId > 0 && msg.createTime > 0) {
+            const talker = sessionId.replace(/'/g, "''");
+            conditions.push(
+                `(local_id = ${msg.localId} AND create_time = ${msg.createTime} AND ` +
+                `chat_name_id = (SELECT rowid FROM Name2Id WHERE user_name = '${talker}'))`
+            );
+        }
+        if (conditions.length === 0) {
+            return { success: true, data: null };
+        }
+
+        // BLOB 以 hex 取出，两种数据源都原样返回字符串
+        for (const condition of conditions) {
+            const sql = `SELECT hex(voice_data) AS voice_hex FROM VoiceInfo WHERE ${condition} ORDER BY data_index`;
+            for (const path of mediaDbs.data) {
+                const result = await source.execQuery('media', path, sql);
+                if (!result.success || !result.data || result.data.length === 0) continue;
+
+                const chunks = result.data.map((row: any) => Buffer.from(String(row.voice_hex || ''), 'hex'));
+                const voice = Buffer.concat(chunks);
+                if (voice.length > 0) {
+                    return { success: true, data: voice };
+                }
+            }
+        }
+
+        return { success: true, data: null };
+    }
+
+    /**
+     * packed_info_data 为 protobuf（hex），其中以 32 位十六进制字符串记录了 .dat 文件名
+     */
+    private getImageFileNames(content: string, packedInfo: string): string[] {
+        const names = this.getPackedFileNames(packedInfo);
+        const md5 = /<img\b[^>]*\smd5\s*=\s*"([0-9a-fA-F]{32})"/i.exec(content || '');
+        if (md5) names.push(md5[1].toLowerCase());
+
+        return [...new Set(names)];
+    }
+
+    private getPackedFileNames(packedInfo: string): string[] {
+        const names: string[] = [];
+        if (packedInfo && /^[0-9a-fA-F]+$/.test(packedInfo)) {
+            const text = Buffer.from(packedInfo, 'hex').toString('latin1');
+            for (const match of text.matchAll(/[0-9a-f]{32}/gi)) {
+                names.push(match[0].toLowerCase());
+            }
+        }
+        return names;
+    }
+
+    private findImageFile(
+        accountDir: string,
+        sessionId: string,
+        createTime: number,
+        names: string[],
+        variant: ImageVariant
+    ): string | null {
+        const sessionDir = join(accountDir, 'msg', 'attach', createHash('md5').update(sessionId).digest('hex'));
+        return this.findInMonthDirs(sessionDir, createTime, (monthDir) => {
+            for (const name of names) {
+                for (const suffix of IMAGE_SUFFIXES[variant]) {
+                    const path = join(monthDir, 'Img', `${name}${suffix}`);
+                    if (existsSync(path)) return path;
+                }
+            }
+            return null;
+        });
+    }
+
+    private formatMonth(timestamp: number): string {
+        const date = new Date(timestamp * 1000);
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }
+}
+
+// 单例实例
+let resolverInstance: MediaResolver | null = null;
+
+export function getMediaResolver(): MediaResolver {
+    if (!resolverInstance) {
+        resolverInstance = new MediaResolver();
+    }
+    return resolverInstance;
+}
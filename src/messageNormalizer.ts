@@ -0,0 +1,1183 @@
+/**
+ * WeFlow API CLI - 消息规范化
+ * 把消息游标返回的原始行解析为统一的 NormalizedMessage，并转换为 ChatLab 消息。
+ * HTTP 和 WebSocket 共用这一份实现，保证同一条消息在两个通道上的内容一致
+ */
+import * as fzstd from 'fzstd';
+import { renderSystemTemplate } from './groupEvents.js';
+
+// ChatLab 消息类型映射
+export const ChatLabType = {
+    TEXT: 0,
+    IMAGE: 1,
+    VOICE: 2,
+    VIDEO: 3,
+    FILE: 4,
+    EMOJI: 5,
+    LINK: 7,
+    LOCATION: 8,
+    RED_PACKET: 20,
+    TRANSFER: 21,
+    POKE: 22,
+    CALL: 23,
+    SHARE: 24,
+    REPLY: 25,
+    FORWARD: 26,
+    CONTACT: 27,
+    SYSTEM: 80,
+    RECALL: 81,
+    OTHER: 99,
+} as const;
+
+export interface NormalizedMessage {
+    localId: number;
+    serverId: string;
+    localType: number;
+    createTime: number;
+    sortSeq: number;
+    isSend: number;
+    senderUsername: string;
+    parsedContent: string;
+    rawContent: string;
+    xmlType?: string;
+    url?: string;
+    referencedMessageId?: string;
+    /** 群消息中被 @ 的 wxid（来自消息 source 的 atuserlist） */
+    mentions: string[];
+    /** @所有人 */
+    mentionsAll: boolean;
+}
+
+export interface ChatLabMessage {
+    sender: string;
+    timestamp: number;
+    type: number;
+    content: string | null;
+    referencedPlatformMessageId?: string;
+    url?: string;
+    platformMessageId?: string;
+    /** 合并转发（FORWARD）中的消息 */
+    children?: ChatLabForwardedMessage[];
+    /** 被 @ 的 wxid，没有时省略 */
+    mentions?: string[];
+    mentionsAll?: boolean;
+    /** 附件下载地址（getMediaUrl），由 HTTP / WebSocket 按账号填充 */
+    mediaUrl?: string;
+}
+
+/**
+ * 引用消息所引用的原消息（expandReplies=1），无法确定的字段为 null
+ */
+export interface QuotedMessage {
+    platformMessageId: string | null;
+    sender: string | null;
+    /** 发送者显示名（refermsg 中的 displayname，按 serverId 查到时为当前的群昵称 / 显示名） */
+    displayName: string | null;
+    type: number;
+    content: string | null;
+    timestamp: number | null;
+}
+
+/** 合并转发中的消息只有显示名，没有 platformId */
+export interface ChatLabForwardedMessage {
+    accountName: string | null;
+    timestamp: number | null;
+    type: number;
+    content: string | null;
+    children?: ChatLabForwardedMessage[];
+}
+
+/**
+ * 合并转发聊天记录（appmsg type 19）中的一条消息（recorditem 的 dataitem）
+ */
+export interface ForwardedItem {
+    sourceName: string | null;
+    /** 原始显示时间，如 2024-01-01 10:00 */
+    sourceTime: string | null;
+    /** 原消息时间（秒），无法解析时为 null */
+    timestamp: number | null;
+    /** dataitem 的 datatype：1 文本，2 图片，3 语音，4 视频，5 链接，6 位置，8 文件，17 嵌套的聊天记录 */
+    dataType: number;
+    text: string | null;
+    /** 嵌套的聊天记录 */
+    children?: ForwardedItem[];
+}
+
+// 嵌套聊天记录的最大解析深度
+const MAX_FORWARD_DEPTH = 8;
+
+/** 转账状态（wcpayinfo.paysubtype）：1 待收款，3 已收款，4 已退还 */
+export type TransferStatus = 'pending' | 'received' | 'refunded' | 'unknown';
+
+/**
+ * rich=1 时附加的结构化内容，按 kind 区分；无法解析的字段为 null
+ */
+export type RichPayload =
+    | { kind: 'link'; title: string | null; description: string | null; url: string | null; thumbUrl: string | null; sourceName: string | null }
+    | { kind: 'file'; name: string | null; size: number | null; extension: string | null; md5: string | null }
+    | { kind: 'location'; latitude: number | null; longitude: number | null; label: string | null; poiName: string | null }
+    | {
+        kind: 'transfer';
+        /** 金额（元） */
+        amount: number | null;
+        /** 原始金额文本，如 ￥5.00 */
+        amountText: string | null;
+        status: TransferStatus;
+        memo: string | null;
+        /** 相对当前账号：out 为转出，in 为转入 */
+        direction: 'in' | 'out';
+        transferId: string | null;
+    }
+    | { kind: 'red_packet'; greeting: string | null }
+    | { kind: 'mini_program'; title: string | null; appId: string | null; pagePath: string | null; username: string | null; sourceName: string | null }
+    | { kind: 'contact_card'; username: string | null; nickname: string | null; alias: string | null }
+    /** duration 为 voicemsg 的 voicelength（毫秒） */
+    | { kind: 'voice'; duration: number | null }
+    | { kind: 'forward'; title: string | null; description: string | null; items: ForwardedItem[] };
+
+export class MessageNormalizer {
+    getCreateTime(row: any): number {
+        return parseInt(row.create_time || '0', 10);
+    }
+
+    /** 没有 sort_seq 的行使用 createTime 排序 */
+    getSortSeq(row: any, createTime = this.getCreateTime(row)): number {
+        return parseInt(row.sort_seq || row.sortSeq || row.sequence || String(createTime), 10);
+    }
+
+    /**
+     * 将消息游标返回的一行解析为 NormalizedMessage
+     * @param sessionId 所在会话，私聊中对方发送的消息没有 sender_username 时作为发送者
+     * @param myWxid 当前账号，用于判断是否为自己发送的消息
+     */
+    normalizeRow(row: any, sessionId: string, myWxid: string): NormalizedMessage {
+        const content = this.decodeMessageContent(row.message_content, row.compress_content);
+        const localType = parseInt(row.local_type || row.type || '1', 10);
+        const createTime = this.getCreateTime(row);
+        const senderUsername = row.sender_username || '';
+        const isSendRaw = row.computed_is_send ?? row.is_send ?? '0';
+        const isSend = parseInt(isSendRaw, 10) === 1;
+        const localId = parseInt(row.local_id || row.localId || '0', 10);
+
+        // 提取 XML 中的 type
+        const xmlType = this.extractMessageXmlType(content, localType) || undefined;
+        const linkUrl = this.extractLinkUrl(content, localType) || undefined;
+        // 引用消息指向被引用的消息，撤回通知指向被撤回的消息
+        const referencedMessageId = this.isReplyMessage(localType, xmlType)
+            ? this.extractReferencedMessageId(content)
+            : this.isRevokeMessage(localType, content)
+                ? this.extractRevokedMessageId(content)
+                : undefined;
+
+        const parsedContent = this.parseMessageContent(content, localType);
+        const { mentions, mentionsAll } = sessionId.endsWith('@chatroom')
+            ? this.extractMentions(row, content, localType)
+            : { mentions: [], mentionsAll: false };
+
+        // 判断是否是自己发送的消息
+        const isSelfMessage = isSend || this.isSelfSender(senderUsername, myWxid);
+
+        const serverId = row.server_id ?? row.serverId ?? '';
+        return {
+            localId,
+            serverId: serverId ? String(serverId) : '',
+            localType,
+            createTime,
+            sortSeq: this.getSortSeq(row, createTime),
+            isSend: isSelfMessage ? 1 : 0,
+            senderUsername: isSelfMessage ? myWxid : senderUsername || sessionId,
+            parsedContent: parsedContent || `[类型 ${localType}]`,
+            rawContent: content,
+            xmlType,
+            url: linkUrl,
+            referencedMessageId,
+            mentions,
+            mentionsAll,
+        };
+    }
+
+    /**
+     * 消息是否 @ 了该账号（包括 @所有人）
+     */
+    mentionsUser(msg: NormalizedMessage, wxid: string): boolean {
+        return msg.mentionsAll || msg.mentions.some((mention) => this.isSelfSender(mention, wxid));
+    }
+
+    /**
+     * 附件的下载地址（相对于 HTTP API 地址），apiBase 为账号对应的路由前缀；没有可下载附件时返回 undefined。
+     * time 用于在查找消息时直接限定游标的时间范围
+     */
+    getMediaUrl(msg: NormalizedMessage, sessionId: string, apiBase: string): string | undefined {
+        if (!msg.serverId || msg.serverId === '0') return undefined;
+
+        let kind: string | null = null;
+        if (msg.localType === 3) kind = 'image';
+        if (msg.localType === 34) kind = 'voice';
+        if (msg.localType === 43 || this.mapMessageType(msg) === ChatLabType.FILE) kind = 'file';
+        if (!kind) return undefined;
+
+        const params = new URLSearchParams({ talker: sessionId, serverId: msg.serverId, time: String(msg.createTime) });
+        return `${apiBase}/media/${kind}?${params}`;
+    }
+
+    /**
+     * 撤回通知所撤回的消息的服务端 ID；不是撤回通知时返回 null。
+     * 原消息行被原地改写为撤回通知时没有 newmsgid，使用自身的 serverId
+     */
+    getRecallTarget(msg: NormalizedMessage): string | null {
+        if (this.mapMessageType(msg) !== ChatLabType.RECALL) return null;
+        return msg.referencedMessageId || msg.serverId || null;
+    }
+
+    /**
+     * 群消息的 source（msgsource XML）中 <atuserlist> 为逗号分隔的被 @ 的 wxid，@所有人 为 notify@all；
+     * 部分客户端发出的 @所有人 不带 atuserlist，再检查文本
+     */
+    private extractMentions(row: any, content: string, localType: number): { mentions: string[]; mentionsAll: boolean } {
+        const source = this.decodeMaybeCompressed(row.source ?? row.msg_source ?? '');
+        const atUserList = source ? this.extractXmlValue(source, 'atuserlist') : '';
+
+        let mentionsAll = false;
+        const mentions: string[] = [];
+        for (const item of atUserList.split(',')) {
+            const wxid = item.trim();
+            if (!wxid) continue;
+            if (wxid === 'notify@all') {
+                mentionsAll = true;
+            } else if (!mentions.includes(wxid)) {
+                mentions.push(wxid);
+            }
+        }
+
+        if (!mentionsAll && localType === 1 && /@所有人(?:\s|\u2005|$)/.test(content)) {
+            mentionsAll = true;
+        }
+
+        return { mentions, mentionsAll };
+    }
+
+    /**
+     * 转换为 ChatLab 消息（不包含 accountName / groupNickname，这些信息在 members 中）
+     */
+    toChatLab(msg: NormalizedMessage): ChatLabMessage {
+        const type = this.mapMessageType(msg);
+        return {
+            sender: msg.senderUsername || '',
+            timestamp: msg.createTime,
+            type,
+            content: this.getMessageContent(msg),
+            referencedPlatformMessageId: type === ChatLabType.REPLY || type === ChatLabType.RECALL
+                ? msg.referencedMessageId
+                : undefined,
+            url: type === ChatLabType.LINK ? msg.url : undefined,
+            platformMessageId: msg.serverId ? msg.serverId : undefined,
+            children: type === ChatLabType.FORWARD
+                ? this.toChatLabChildren(this.parseForwardRecord(msg.rawContent).items)
+                : undefined,
+            mentions: msg.mentions.length > 0 ? msg.mentions : undefined,
+            mentionsAll: msg.mentionsAll || undefined,
+        };
+    }
+
+    /**
+     * 从引用消息的 refermsg 中解析被引用的消息；不是引用消息，或 refermsg 缺少发送者 / 类型时返回 null，
+     * 由调用方按 referencedMessageId 查找原消息
+     */
+    getQuotedMessage(msg: NormalizedMessage): QuotedMessage | null {
+        if (!this.isReplyMessage(msg.localType, msg.xmlType)) return null;
+
+        const referMatch = /<refermsg\b[^>]*>([\s\S]*?)<\/refermsg>/i.exec(this.normalizeAppMessageContent(msg.rawContent));
+        if (!referMatch) return null;
+        const refer = referMatch[1];
+
+        // 群聊中 fromusr 为群 ID，chatusr 为发送者；私聊中只有 fromusr
+        const sender = this.extractXmlValue(refer, 'chatusr') || this.extractXmlValue(refer, 'fromusr');
+        const localType = this.parseNumber(this.extractXmlValue(refer, 'type'));
+        if (!sender || localType === null) return null;
+
+        const content = this.extractXmlValue(refer, 'content');
+        const createTime = this.parseNumber(this.extractXmlValue(refer, 'createtime')) ?? 0;
+        const quoted: NormalizedMessage = {
+            localId: 0,
+            serverId: msg.referencedMessageId || '',
+            localType,
+            createTime,
+            sortSeq: createTime,
+            isSend: 0,
+            senderUsername: sender,
+            // 文本不经过 stripSenderPrefix，避免把 "note: xxx" 之类的开头当作发送者前缀去掉
+            parsedContent: (localType === 1 ? content : this.parseMessageContent(content, localType)) || '',
+            rawContent: content,
+            xmlType: this.extractMessageXmlType(content, localType) || undefined,
+            mentions: [],
+            mentionsAll: false,
+        };
+        return this.toQuotedMessage(quoted, this.extractXmlValue(refer, 'displayname') || null);
+    }
+
+    toQuotedMessage(msg: NormalizedMessage, displayName: string | null): QuotedMessage {
+        const chatLab = this.toChatLab(msg);
+        return {
+            platformMessageId: chatLab.platformMessageId ?? null,
+            sender: chatLab.sender || null,
+            displayName,
+            type: chatLab.type,
+            content: chatLab.content,
+            timestamp: chatLab.timestamp || null,
+        };
+    }
+
+    private toChatLabChildren(items: ForwardedItem[]): ChatLabForwardedMessage[] {
+        return items.map((item) => ({
+            accountName: item.sourceName,
+            timestamp: item.timestamp,
+            type: this.mapForwardedDataType(item.dataType),
+            content: item.text,
+            children: item.children ? this.toChatLabChildren(item.children) : undefined,
+        }));
+    }
+
+    /**
+     * 解析合并转发聊天记录：appmsg 中的 <recorditem> 是一段（CDATA 或转义的）<recordinfo> XML，
+     * 嵌套的聊天记录以 datatype=17 的 dataitem 出现，内容在 <recordxml> 中
+     */
+    parseForwardRecord(content: string): { title: string | null; description: string | null; items: ForwardedItem[] } {
+        const normalized = this.normalizeAppMessageContent(content);
+        const appMsgBodyMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
+        const appMsg = appMsgBodyMatch ? appMsgBodyMatch[1] : normalized;
+
+        const recordMatch = /<recorditem>([\s\S]*)<\/recorditem>/i.exec(appMsg) || /<recorditem>([\s\S]*)<\/recorditem>/i.exec(normalized);
+        const recordInfo = recordMatch
+            ? this.normalizeAppMessageContent(recordMatch[1].replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, ''))
+            : '';
+
+        return {
+            title: this.extractXmlValue(appMsg, 'title') || null,
+            description: this.extractXmlValue(appMsg, 'des') || null,
+            items: recordInfo ? this.parseForwardItems(recordInfo, 0) : [],
+        };
+    }
+
+    private parseForwardItems(recordInfo: string, depth: number): ForwardedItem[] {
+        const items: ForwardedItem[] = [];
+
+        for (const { attrs, body } of this.splitDataItems(recordInfo)) {
+            // 先去掉嵌套的记录，避免取到其中的字段
+            const nestedMatch = /<recordxml>([\s\S]*)<\/recordxml>/i.exec(body);
+            const own = nestedMatch ? body.replace(nestedMatch[0], '') : body;
+
+            const dataType = parseInt(/\bdatatype\s*=\s*"(\d+)"/i.exec(attrs)?.[1] || this.extractXmlValue(own, 'datatype') || '0', 10);
+            const sourceTime = this.extractXmlValue(own, 'sourcetime') || null;
+            const createTime = parseInt(this.extractXmlValue(own, 'srcMsgCreateTime') || '0', 10);
+
+            const item: ForwardedItem = {
+                sourceName: this.extractXmlValue(own, 'sourcename') || null,
+                sourceTime,
+                timestamp: createTime > 0 ? createTime : this.parseSourceTime(sourceTime),
+                dataType,
+                text: this.extractXmlValue(own, 'datadesc') || this.extractXmlValue(own, 'datatitle') || this.getForwardedPlaceholder(dataType),
+            };
+
+            if (nestedMatch && depth + 1 < MAX_FORWARD_DEPTH) {
+                item.children = this.parseForwardItems(this.normalizeAppMessageContent(nestedMatch[1]), depth + 1);
+            }
+
+            items.push(item);
+        }
+
+        return items;
+    }
+
+    /**
+     * 取出最外层的 <dataitem>，嵌套记录中的 dataitem 留在 body 里递归处理
+     */
+    private splitDataItems(xml: string): { attrs: string; body: string }[] {
+        const items: { attrs: string; body: string }[] = [];
+        const tagRegex = /<(\/?)dataitem\b([^>]*)>/gi;
+        let depth = 0;
+        let attrs = '';
+        let bodyStart = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = tagRegex.exec(xml))) {
+            if (match[1]) {
+                if (depth === 0) continue;
+                depth--;
+                if (depth === 0) {
+                    items.push({ attrs, body: xml.slice(bodyStart, match.index) });
+                }
+            } else if (match[2].endsWith('/')) {
+                if (depth === 0) items.push({ attrs: match[2], body: '' });
+            } else {
+                if (depth === 0) {
+                    attrs = match[2];
+                    bodyStart = tagRegex.lastIndex;
+                }
+                depth++;
+            }
+        }
+
+        return items;
+    }
+
+    /** sourcetime 形如 2024-01-01 10:00[:00] 或 2024/1/1 10:00，按本地时间解析 */
+    private parseSourceTime(value: string | null): number | null {
+        const match = /(\d{4})[-/](\d{1,2})[-/](\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value || '');
+        if (!match) return null;
+        const [, year, month, day, hour, minute, second] = match;
+        const date = new Date(+year, +month - 1, +day, +hour, +minute, +(second || 0));
+        return Math.floor(date.getTime() / 1000);
+    }
+
+    private getForwardedPlaceholder(dataType: number): string | null {
+        switch (dataType) {
+            case 2:
+                return '[图片]';
+            case 3:
+                return '[语音消息]';
+            case 4:
+                return '[视频]';
+            case 6:
+                return '[位置]';
+            case 8:
+                return '[文件]';
+            case 17:
+                return '[聊天记录]';
+            default:
+                return null;
+        }
+    }
+
+    private mapForwardedDataType(dataType: number): number {
+        switch (dataType) {
+            case 1:
+                return ChatLabType.TEXT;
+            case 2:
+                return ChatLabType.IMAGE;
+            case 3:
+                return ChatLabType.VOICE;
+            case 4:
+                return ChatLabType.VIDEO;
+            case 5:
+                return ChatLabType.LINK;
+            case 6:
+                return ChatLabType.LOCATION;
+            case 8:
+                return ChatLabType.FILE;
+            case 17:
+                return ChatLabType.FORWARD;
+            default:
+                return ChatLabType.OTHER;
+        }
+    }
+
+    /**
+     * 提取结构化内容（链接、文件、位置、转账、红包、小程序、名片），其他类型返回 null
+     * @param myWxid 当前账号，用于判断转账方向
+     */
+    getRichPayload(msg: NormalizedMessage, myWxid: string): RichPayload | null {
+        const content = this.normalizeAppMessageContent(msg.rawContent);
+        if (!content) return null;
+
+        if (msg.localType === 48) {
+            return {
+                kind: 'location',
+                latitude: this.parseNumber(this.extractXmlAttribute(content, 'location', 'x')),
+                longitude: this.parseNumber(this.extractXmlAttribute(content, 'location', 'y')),
+                label: this.extractXmlAttribute(content, 'location', 'label') || null,
+                poiName: this.extractXmlAttribute(content, 'location', 'poiname') || null,
+            };
+        }
+
+        if (msg.localType === 34) {
+            return { kind: 'voice', duration: this.parseNumber(this.extractXmlAttribute(content, 'voicemsg', 'voicelength')) };
+        }
+
+        if (msg.localType === 42) {
+            return {
+                kind: 'contact_card',
+                username: this.extractXmlAttribute(content, 'msg', 'username') || null,
+                nickname: this.extractXmlAttribute(content, 'msg', 'nickname') || null,
+                alias: this.extractXmlAttribute(content, 'msg', 'alias') || null,
+            };
+        }
+
+        const appMsgBodyMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(content);
+        const appMsg = appMsgBodyMatch ? appMsgBodyMatch[1] : content;
+        const title = this.extractXmlValue(appMsg, 'title') || null;
+
+        let xmlType = msg.xmlType;
+        if (msg.localType === 8589934592049) xmlType = '2000';
+        if (msg.localType === 8594229559345) xmlType = '2001';
+
+        switch (xmlType) {
+            case '5':
+            case '49':
+                return {
+                    kind: 'link',
+                    title,
+                    description: this.extractXmlValue(appMsg, 'des') || null,
+                    url: msg.url || null,
+                    thumbUrl: this.normalizeLinkUrl(this.extractXmlValue(appMsg, 'thumburl')) || null,
+                    sourceName: this.extractXmlValue(appMsg, 'sourcedisplayname') || this.extractXmlValue(content, 'appname') || null,
+                };
+            case '6': {
+                const name = title;
+                const extension = this.extractXmlValue(appMsg, 'fileext') || (name && /\.([^.]+)$/.exec(name)?.[1]) || null;
+                return {
+                    kind: 'file',
+                    name,
+                    size: this.parseNumber(this.extractXmlValue(appMsg, 'totallen')),
+                    extension: extension ? extension.toLowerCase() : null,
+                    md5: this.extractXmlValue(appMsg, 'md5') || null,
+                };
+            }
+            case '33':
+            case '36':
+                return {
+                    kind: 'mini_program',
+                    title,
+                    appId: this.extractXmlValue(appMsg, 'appid') || null,
+                    pagePath: this.extractXmlValue(appMsg, 'pagepath') || null,
+                    username: this.extractXmlValue(appMsg, 'username') || null,
+                    sourceName: this.extractXmlValue(appMsg, 'sourcedisplayname') || null,
+                };
+            case '19':
+                return { kind: 'forward', ...this.parseForwardRecord(msg.rawContent) };
+            case '2000':
+                return this.extractTransferPayload(msg, content, myWxid);
+            case '2001':
+                return {
+                    kind: 'red_packet',
+                    greeting: this.extractXmlValue(content, 'sendertitle')
+                        || this.extractXmlValue(content, 'receivertitle')
+                        || this.extractXmlValue(appMsg, 'des')
+                        || title,
+                };
+            default:
+                return null;
+        }
+    }
+
+    private extractTransferPayload(msg: NormalizedMessage, content: string, myWxid: string): RichPayload {
+        const amountText = this.extractXmlValue(content, 'feedesc') || null;
+        const paySubType = this.extractXmlValue(content, 'paysubtype');
+        const status: TransferStatus = paySubType === '1'
+            ? 'pending'
+            : paySubType === '3'
+                ? 'received'
+                : paySubType === '4'
+                    ? 'refunded'
+                    : 'unknown';
+
+        // 优先按付款人判断；没有付款人时，发起消息由付款人发出，收款 / 退还消息由收款人发出
+        const payer = this.extractXmlValue(content, 'payer_username');
+        let direction: 'in' | 'out';
+        if (payer) {
+            direction = this.isSelfSender(payer, myWxid) ? 'out' : 'in';
+        } else if (status === 'received' || status === 'refunded') {
+            direction = msg.isSend ? 'in' : 'out';
+        } else {
+            direction = msg.isSend ? 'out' : 'in';
+        }
+
+        return {
+            kind: 'transfer',
+            amount: amountText ? this.parseNumber(amountText.replace(/[^\d.]/g, '')) : null,
+            amountText,
+            status,
+            memo: this.extractXmlValue(content, 'pay_memo') || null,
+            direction,
+            transferId: this.extractXmlValue(content, 'transferid') || null,
+        };
+    }
+
+    private extractXmlAttribute(xml: string, tagName: string, attrName: string): string {
+        const tagMatch = new RegExp(`<${tagName}\\b([^>]*)>`, 'i').exec(xml);
+        if (!tagMatch) return '';
+        const attrMatch = new RegExp(`\\b${attrName}\\s*=\\s*"([^"]*)"`, 'i').exec(tagMatch[1]);
+        return attrMatch ? attrMatch[1].trim() : '';
+    }
+
+    private parseNumber(value: string): number | null {
+        if (!value) return null;
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+
+    /**
+     * 检查发送者是否是自己（支持部分匹配）
+     */
+    isSelfSender(sender: string, myWxid: string): boolean {
+        if (!sender || !myWxid) return false;
+        const lowerSender = sender.toLowerCase();
+        const lowerMyWxid = myWxid.toLowerCase();
+        // 完全匹配
+        if (lowerSender === lowerMyWxid) return true;
+        // sender 以 myWxid 开头（如 wxid_xxx 匹配 wxid_xxx_b0e4）
+        if (lowerSender.startsWith(lowerMyWxid + '_')) return true;
+        // myWxid 以 sender 开头
+        if (lowerMyWxid.startsWith(lowerSender + '_')) return true;
+        return false;
+    }
+
+    private decodeMessageContent(messageContent: any, compressContent: any): string {
+        let content = '';
+
+        if (compressContent) {
+            content = this.decodeMaybeCompressed(compressContent);
+        }
+        if (!content && messageContent) {
+            content = this.decodeMaybeCompressed(messageContent);
+        }
+
+        return content;
+    }
+
+    private decodeMaybeCompressed(raw: any): string {
+        if (!raw) return '';
+        if (typeof raw === 'string') {
+            if (raw.length === 0) return '';
+
+            if (raw.length > 16 && /^[0-9a-fA-F]+$/.test(raw)) {
+                try {
+                    const bytes = Buffer.from(raw, 'hex');
+                    if (bytes.length > 0) return this.decodeBinaryContent(bytes);
+                } catch { }
+            }
+
+            if (raw.length > 16 && /^[A-Za-z0-9+/=]+$/.test(raw)) {
+                try {
+                    const bytes = Buffer.from(raw, 'base64');
+                    return this.decodeBinaryContent(bytes);
+                } catch {
+                    return raw;
+                }
+            }
+
+            return raw;
+        }
+        return '';
+    }
+
+    private decodeBinaryContent(data: Buffer): string {
+        if (data.length === 0) return '';
+        try {
+            if (data.length >= 4) {
+                const magic = data.readUInt32LE(0);
+                if (magic === 0xfd2fb528) {
+                    const decompressed = fzstd.decompress(data);
+                    return Buffer.from(decompressed).toString('utf-8');
+                }
+            }
+            const decoded = data.toString('utf-8');
+            const replacementCount = (decoded.match(/\uFFFD/g) || []).length;
+            if (replacementCount < decoded.length * 0.2) {
+                return decoded.replace(/\uFFFD/g, '');
+            }
+            return data.toString('latin1');
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * 解析消息内容（与原项目保持一致）
+     */
+    private parseMessageContent(content: string, localType: number): string | null {
+        if (!content) return null;
+
+        // 检查 XML 中的 type 标签
+        const xmlType = this.extractMessageXmlType(content, localType) || null;
+
+        switch (localType) {
+            case 1: // 文本
+                return this.stripSenderPrefix(content);
+            case 3:
+                return '[图片]';
+            case 34:
+                return '[语音消息]';
+            case 42:
+                return '[名片]';
+            case 43:
+                return '[视频]';
+            case 47:
+                return '[动画表情]';
+            case 48:
+                return '[位置]';
+            case 49: {
+                const appMsg = this.extractAppMessageInfo(content, localType);
+                const title = appMsg.title || this.extractXmlValue(content, 'title');
+                const type = appMsg.xmlType || this.extractXmlValue(content, 'type');
+
+                // 转账消息特殊处理
+                if (type === '2000') {
+                    const feedesc = this.extractXmlValue(content, 'feedesc');
+                    const payMemo = this.extractXmlValue(content, 'pay_memo');
+                    if (feedesc) {
+                        return payMemo ? `[转账] ${feedesc} ${payMemo}` : `[转账] ${feedesc}`;
+                    }
+                    return '[转账]';
+                }
+
+                if (type === '2001') return title ? `[红包] ${title}` : '[红包]';
+                if (type === '6') return title ? `[文件] ${title}` : '[文件]';
+                if (type === '19') return title ? `[聊天记录] ${title}` : '[聊天记录]';
+                if (type === '33' || type === '36') return title ? `[小程序] ${title}` : '[小程序]';
+                if (type === '57') return this.formatReplyContent(title);
+                if (type === '5' || type === '49') return title ? `[链接] ${title}` : '[链接]';
+                return title ? `[链接] ${title}` : '[链接]';
+            }
+            case 50:
+                return this.parseVoipMessage(content);
+            case 10000:
+            case 10002:
+                return this.isRevokeMessage(localType, content)
+                    ? this.formatRevokeMessage(content)
+                    : this.cleanSystemMessage(content);
+            case 266287972401: // 拍一拍
+                return this.formatPokeMessage(content);
+            case 244813135921: {
+                // 引用消息 - 提取 title
+                const title = this.extractXmlValue(content, 'title');
+                return this.formatReplyContent(title);
+            }
+            default:
+                // 对于未知的 localType，检查 XML type 来判断消息类型
+                if (xmlType) {
+                    const appMsg = this.extractAppMessageInfo(content, localType);
+                    const title = appMsg.title || this.extractXmlValue(content, 'title');
+
+                    // 群公告消息（type 87）
+                    if (xmlType === '87') {
+                        const textAnnouncement = this.extractXmlValue(content, 'textannouncement');
+                        if (textAnnouncement) {
+                            return `[群公告] ${textAnnouncement}`;
+                        }
+                        return '[群公告]';
+                    }
+
+                    // 转账消息
+                    if (xmlType === '2000') {
+                        const feedesc = this.extractXmlValue(content, 'feedesc');
+                        const payMemo = this.extractXmlValue(content, 'pay_memo');
+                        if (feedesc) {
+                            return payMemo ? `[转账] ${feedesc} ${payMemo}` : `[转账] ${feedesc}`;
+                        }
+                        return '[转账]';
+                    }
+
+                    // 其他类型
+                    if (xmlType === '2001') return title ? `[红包] ${title}` : '[红包]';
+                    if (xmlType === '6') return title ? `[文件] ${title}` : '[文件]';
+                    if (xmlType === '19') return title ? `[聊天记录] ${title}` : '[聊天记录]';
+                    if (xmlType === '33' || xmlType === '36') return title ? `[小程序] ${title}` : '[小程序]';
+                    if (xmlType === '57') return this.formatReplyContent(title);
+                    if (xmlType === '5' || xmlType === '49') return title ? `[链接] ${title}` : '[链接]';
+                    if (title) return title;
+                }
+
+                // 最后尝试提取文本内容
+                return this.stripSenderPrefix(content) || null;
+        }
+    }
+
+    /**
+     * 清理系统消息
+     */
+    private cleanSystemMessage(content: string): string {
+        if (!content) return '[系统消息]';
+
+        // 新版模板消息（sysmsgtemplate）需要把成员占位符替换为昵称
+        content = renderSystemTemplate(content) ?? content;
+
+        // 处理 CDATA 内容
+        content = content.replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '');
+
+        // 移除所有 XML 标签
+        let cleaned = content.replace(/<[^>]+>/g, '');
+        
+        // 移除尾部的数字（如撤回消息后的时间戳）
+        cleaned = cleaned.replace(/\d+\s*$/, '');
+        
+        // 清理多余空白
+        cleaned = cleaned.replace(/\s+/g, ' ').trim();
+
+        cleaned = this.normalizeChineseQuotes(cleaned);
+        return cleaned || '[系统消息]';
+    }
+
+
+    private normalizeChineseQuotes(text: string): string {
+        if (!text || !text.includes('"')) return text;
+        let result = '';
+        let open = true;
+        for (const ch of text) {
+            if (ch === '"') {
+                result += open ? '\u201c' : '\u201d';
+                open = !open;
+            } else {
+                result += ch;
+            }
+        }
+        return result;
+    }
+
+    private formatReplyContent(title: string | null | undefined): string {
+        const value = (title || '').trim();
+        if (!value) return '[\u5f15\u7528]';
+        if (value.startsWith('[\u5f15\u7528]')) return value;
+        return `[\u5f15\u7528] ${value}`;
+    }
+
+    private formatPokeMessage(content: string): string {
+        const cleaned = this.cleanSystemMessage(content);
+        const names: string[] = [];
+        const regex = /["\u201c\u201d](.*?)["\u201c\u201d]/g;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(cleaned)) && names.length < 2) {
+            const name = match[1].trim();
+            if (name) names.push(name);
+        }
+        if (names.length >= 2) {
+            return `\u201c${names[0]}\u201d \u62cd\u4e86\u62cd \u201c${names[1]}\u201d`;
+        }
+        return cleaned;
+    }
+
+
+    private parseVoipMessage(content: string): string {
+        try {
+            if (!content) return '[通话]';
+
+            // 提取 msg 内容（中文通话状态）
+            const msgMatch = /<msg><!\[CDATA\[(.*?)\]\]><\/msg>/i.exec(content);
+            const msg = msgMatch?.[1]?.trim() || '';
+
+            // 提取 room_type（0=视频，1=语音）
+            const roomTypeMatch = /<room_type>(\d+)<\/room_type>/i.exec(content);
+            const roomType = roomTypeMatch ? parseInt(roomTypeMatch[1], 10) : -1;
+
+            let callType: string;
+            if (roomType === 0) {
+                callType = '视频通话';
+            } else if (roomType === 1) {
+                callType = '语音通话';
+            } else {
+                callType = '通话';
+            }
+
+            // 解析通话状态
+            if (msg.includes('通话时长')) {
+                const durationMatch = /通话时长\s*(\d{1,2}:\d{2}(?::\d{2})?)/i.exec(msg);
+                const duration = durationMatch?.[1] || '';
+                if (duration) {
+                    return `[${callType}] ${duration}`;
+                }
+                return `[${callType}] 已接听`;
+            } else if (msg.includes('对方无应答')) {
+                return `[${callType}] 对方无应答`;
+            } else if (msg.includes('已取消')) {
+                return `[${callType}] 已取消`;
+            } else if (msg.includes('已在其它设备接听') || msg.includes('已在其他设备接听')) {
+                return `[${callType}] 已在其他设备接听`;
+            } else if (msg.includes('对方已拒绝') || msg.includes('已拒绝')) {
+                return `[${callType}] 对方已拒绝`;
+            } else if (msg.includes('忙线未接听') || msg.includes('忙线')) {
+                return `[${callType}] 忙线未接听`;
+            } else if (msg.includes('未接听')) {
+                return `[${callType}] 未接听`;
+            } else if (msg) {
+                return `[${callType}] ${msg}`;
+            }
+
+            return `[${callType}]`;
+        } catch {
+            return '[通话]';
+        }
+    }
+
+    private stripSenderPrefix(content: string): string | null {
+        // 移除开头的空白字符（包括换行符），然后移除发送者前缀
+        const result = content.replace(/^[\s]*([a-zA-Z0-9_-]+):(?!\/\/)\s*/, '').trim();
+        return result || null;
+    }
+
+    private extractXmlValue(xml: string, tagName: string): string {
+        const regex = new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`, 'i');
+        const match = regex.exec(xml);
+        if (match) {
+            return match[1].replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '').trim();
+        }
+        return '';
+    }
+
+    private normalizeAppMessageContent(content: string): string {
+        if (!content) return '';
+        if (content.includes('&lt;') && content.includes('&gt;')) {
+            return content
+                .replace(/&lt;/g, '<')
+                .replace(/&gt;/g, '>')
+                .replace(/&amp;/g, '&')
+                .replace(/&quot;/g, '"')
+                .replace(/&#39;/g, "'")
+                .replace(/&apos;/g, "'");
+        }
+        return content;
+    }
+
+    private isAppMessageContent(content: string): boolean {
+        if (!content) return false;
+        return (
+            content.includes('<appmsg') ||
+            content.includes('&lt;appmsg') ||
+            content.includes('<msg>') ||
+            content.includes('&lt;msg')
+        );
+    }
+
+    private extractAppMessageInfo(content: string, localType?: number): { xmlType?: string; title?: string; url?: string } {
+        if (!content) return {};
+        if (localType !== 49 && !this.isAppMessageContent(content)) return {};
+
+        const normalized = this.normalizeAppMessageContent(content);
+        const appMsgBodyMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
+        const appMsgBody = appMsgBodyMatch ? appMsgBodyMatch[1] : normalized;
+
+        const xmlType = this.extractXmlValue(appMsgBody, 'type') || this.extractXmlValue(normalized, 'type') || undefined;
+        const title = this.extractXmlValue(appMsgBody, 'title') || this.extractXmlValue(appMsgBody, 'des') || undefined;
+        const rawUrl = this.extractXmlValue(appMsgBody, 'url') || this.extractXmlValue(normalized, 'url');
+        const url = this.normalizeLinkUrl(rawUrl) || undefined;
+
+        return { xmlType, title, url };
+    }
+
+
+    private extractReferencedMessageId(content: string): string | undefined {
+        if (!content) return undefined;
+
+        const normalized = this.normalizeAppMessageContent(content);
+        const blocks: string[] = [];
+
+        const referMatch = /<refermsg\b[^>]*>([\s\S]*?)<\/refermsg>/i.exec(normalized);
+        if (referMatch?.[1]) {
+            blocks.push(referMatch[1]);
+        }
+
+        const appMsgMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
+        if (appMsgMatch?.[1]) {
+            blocks.push(appMsgMatch[1]);
+        }
+
+        blocks.push(normalized);
+
+        const tags = ['svrid', 'msgid', 'msgId', 'frommsgid', 'from_msgid', 'quoteid', 'refermsgid'];
+        for (const block of blocks) {
+            for (const tag of tags) {
+                const value = this.extractXmlValue(block, tag);
+                if (value && /^[0-9]+$/.test(value)) {
+                    return value;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    private isReplyMessage(localType: number, xmlType?: string): boolean {
+        return localType === 244813135921 || xmlType === '57';
+    }
+
+    /**
+     * 撤回通知：<sysmsg type="revokemsg"><revokemsg><msgid>..</msgid><newmsgid>..</newmsgid><replacemsg>..</replacemsg></revokemsg></sysmsg>
+     */
+    private isRevokeMessage(localType: number, content: string): boolean {
+        return (localType === 10000 || localType === 10002) && /<revokemsg\b|type\s*=\s*"revokemsg"/i.test(content || '');
+    }
+
+    /** newmsgid 为被撤回消息的服务端 ID（即 platformMessageId），旧版本只有 msgid */
+    private extractRevokedMessageId(content: string): string | undefined {
+        const normalized = this.normalizeAppMessageContent(content);
+        for (const tag of ['newmsgid', 'msgid']) {
+            const value = this.extractXmlValue(normalized, tag);
+            if (value && /^[0-9]+$/.test(value)) return value;
+        }
+        return undefined;
+    }
+
+    private formatRevokeMessage(content: string): string {
+        const replaceMsg = this.extractXmlValue(this.normalizeAppMessageContent(content), 'replacemsg');
+        return replaceMsg ? this.cleanSystemMessage(replaceMsg) : '[撤回消息]';
+    }
+
+    private extractMessageXmlType(content: string, localType?: number): string {
+        const appMsg = this.extractAppMessageInfo(content, localType);
+        return appMsg.xmlType || this.extractXmlValue(content, 'type');
+    }
+
+    private extractLinkUrl(content: string, localType?: number): string {
+        const appMsg = this.extractAppMessageInfo(content, localType);
+        if (!appMsg.url) return '';
+        if (!appMsg.xmlType || appMsg.xmlType === '5' || appMsg.xmlType === '49') return appMsg.url;
+        return '';
+    }
+
+    private normalizeLinkUrl(rawUrl: string): string {
+        const value = (rawUrl || '').trim();
+        if (!value) return '';
+
+        const parseHttpUrl = (candidate: string): string => {
+            try {
+                const parsed = new URL(candidate);
+                if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+                    return parsed.toString();
+                }
+            } catch {
+                return '';
+            }
+            return '';
+        };
+
+        if (value.startsWith('//')) {
+            return parseHttpUrl(`https:${value}`);
+        }
+
+        const direct = parseHttpUrl(value);
+        if (direct) return direct;
+
+        const hasScheme = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value);
+        const isDomainLike = /^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}(?:[/:?#].*)?$/.test(value);
+        if (!hasScheme && isDomainLike) {
+            return parseHttpUrl(`https://${value}`);
+        }
+
+        return '';
+    }
+
+    /**
+     * 映射 WeChat 消息类型到 ChatLab 类型
+     */
+    mapMessageType(msg: NormalizedMessage): number {
+        switch (msg.localType) {
+            case 1: // 文本
+                return ChatLabType.TEXT;
+            case 3: // 图片
+                return ChatLabType.IMAGE;
+            case 34: // 语音
+                return ChatLabType.VOICE;
+            case 43: // 视频
+                return ChatLabType.VIDEO;
+            case 47: // 动画表情
+                return ChatLabType.EMOJI;
+            case 48: // 位置
+                return ChatLabType.LOCATION;
+            case 42: // 名片
+                return ChatLabType.CONTACT;
+            case 50: // 语音/视频通话
+                return ChatLabType.CALL;
+            case 10000: // 系统消息
+            case 10002:
+                return this.isRevokeMessage(msg.localType, msg.rawContent) ? ChatLabType.RECALL : ChatLabType.SYSTEM;
+            case 49: // 复合消息
+                return this.mapType49(msg);
+            case 244813135921: // 引用消息
+                return ChatLabType.REPLY;
+            case 266287972401: // 拍一拍
+                return ChatLabType.POKE;
+            case 8594229559345: // 红包
+                return ChatLabType.RED_PACKET;
+            case 8589934592049: // 转账
+                return ChatLabType.TRANSFER;
+            default:
+                if (msg.xmlType && this.isAppMessageContent(msg.rawContent)) {
+                    return this.mapType49(msg);
+                }
+                return ChatLabType.OTHER;
+        }
+    }
+
+    /**
+     * 映射 Type 49 子类型
+     */
+    private mapType49(msg: NormalizedMessage): number {
+        const xmlType = msg.xmlType;
+
+        switch (xmlType) {
+            case '5': // 链接
+            case '49':
+                return ChatLabType.LINK;
+            case '6': // 文件
+                return ChatLabType.FILE;
+            case '19': // 聊天记录
+                return ChatLabType.FORWARD;
+            case '33': // 小程序
+            case '36':
+                return ChatLabType.SHARE;
+            case '57': // 引用消息
+                return ChatLabType.REPLY;
+            case '2000': // 转账
+                return ChatLabType.TRANSFER;
+            case '2001': // 红包
+                return ChatLabType.RED_PACKET;
+            default:
+                return ChatLabType.OTHER;
+        }
+    }
+
+    /**
+     * 获取消息内容
+     */
+    private getMessageContent(msg: NormalizedMessage): string | null {
+        // 优先使用已解析的内容
+        if (msg.parsedContent) {
+            return msg.parsedContent;
+        }
+
+        // 根据类型返回占位符
+        switch (msg.localType) {
+            case 1:
+                return msg.rawContent || null;
+            case 3:
+                return '[图片]';
+            case 34:
+                return '[语音]';
+            case 43:
+                return '[视频]';
+            case 47:
+                return '[表情]';
+            case 42:
+                return '[名片]';
+            case 48:
+                return '[位置]';
+            case 49: {
+                const appMsg = this.extractAppMessageInfo(msg.rawContent, msg.localType);
+                const title = appMsg.title || this.extractXmlValue(msg.rawContent, 'title');
+                const xmlType = msg.xmlType || appMsg.xmlType;
+                if (xmlType === '5' || xmlType === '49') return title ? `[链接] ${title}` : '[链接]';
+                if (xmlType === '6') return title ? `[文件] ${title}` : '[文件]';
+                if (xmlType === '57') return this.formatReplyContent(title);
+                return title || '[消息]';
+            }
+            case 244813135921: {
+                const title = this.extractXmlValue(msg.rawContent, 'title');
+                return this.formatReplyContent(title);
+            }
+            case 266287972401:
+                return this.formatPokeMessage(msg.rawContent);
+            case 10000:
+                return this.cleanSystemMessage(msg.rawContent);
+            default:
+                return msg.rawContent || null;
+        }
+    }
+}
+
+// 单例实例
+let normalizerInstance: MessageNormalizer | null = null;
+
+export function getMessageNormalizer(): MessageNormalizer {
+    if (!normalizerInstance) {
+        normalizerInstance = new MessageNormalizer();
+    }
+    return normalizerInstance;
+}
@@ -0,0 +1,91 @@
+/**
+ * WeFlow API CLI - 引用回复线程
+ * 按引用关系（引用消息的 referencedMessageId）把消息组织成树：没有被引用的上级（或上级不在范围内）的消息为根，
+ * 引用它的消息为回复。被引用的消息一定早于引用消息，按时间顺序处理即可保证父节点先于子节点出现
+ */
+import { getMessageNormalizer, ChatLabType, type NormalizedMessage } from './messageNormalizer.js';
+
+export interface ThreadNode {
+    message: NormalizedMessage;
+    /** 根为 0 */
+    depth: number;
+    replies: ThreadNode[];
+}
+
+export interface MessageThread {
+    root: ThreadNode;
+    /** 线程中的回复总数（不含根） */
+    replyCount: number;
+    /** 最深回复的 depth */
+    depth: number;
+    /** 参与者 wxid，按首次出现顺序 */
+    participants: string[];
+    /** 最后一条回复的时间（秒） */
+    lastActivity: number;
+}
+
+/**
+ * 引用消息所引用的消息 ID，不是引用消息时返回 undefined
+ */
+export function getReplyParentId(msg: NormalizedMessage): string | undefined {
+    const normalizer = getMessageNormalizer();
+    return normalizer.mapMessageType(msg) === ChatLabType.REPLY ? msg.referencedMessageId : undefined;
+}
+
+/**
+ * 从一组消息构建线程，只返回至少有一条回复的线程，按最后活跃时间从新到旧排列
+ */
+export function buildThreads(messages: NormalizedMessage[]): MessageThread[] {
+    return buildForest(messages)
+        .filter((root) => root.replies.length > 0)
+        .map(summarizeThread)
+        .sort((a, b) => b.lastActivity - a.lastActivity);
+}
+
+/**
+ * 构建以 rootId 为根的线程（可以没有回复），rootId 不在 messages 中或不是根时返回 null
+ */
+export function buildThread(messages: NormalizedMessage[], rootId: string): MessageThread | null {
+    const root = buildForest(messages).find((node) => node.message.serverId === rootId);
+    return root ? summarizeThread(root) : null;
+}
+
+function buildForest(messages: NormalizedMessage[]): ThreadNode[] {
+    const sorted = [...messages].sort((a, b) => a.createTime - b.createTime || a.sortSeq - b.sortSeq);
+    const nodes = new Map<string, ThreadNode>();
+    const roots: ThreadNode[] = [];
+
+    for (const message of sorted) {
+        if (!message.serverId || nodes.has(message.serverId)) continue;
+
+        const parentId = getReplyParentId(message);
+        const parent = parentId ? nodes.get(parentId) : undefined;
+        const node: ThreadNode = { message, depth: parent ? parent.depth + 1 : 0, replies: [] };
+        nodes.set(message.serverId, node);
+
+        if (parent) {
+            parent.replies.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+    return roots;
+}
+
+function summarizeThread(root: ThreadNode): MessageThread {
+    const participants = new Set<string>();
+    let replyCount = 0;
+    let depth = 0;
+    let lastActivity = root.message.createTime;
+
+    const visit = (node: ThreadNode) => {
+        if (node.message.senderUsername) participants.add(node.message.senderUsername);
+        if (node !== root) replyCount++;
+        depth = Math.max(depth, node.depth);
+        lastActivity = Math.max(lastActivity, node.message.createTime);
+        node.replies.forEach(visit);
+    };
+    visit(root);
+
+    return { root, replyCount, depth, participants: [...participants], lastActivity };
+}
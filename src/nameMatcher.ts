@@ -0,0 +1,180 @@
+/**
+ * WeFlow API CLI - 名称匹配
+ * 会话 / 联系人的关键词搜索：除了原文子串，还支持全拼（zhangsan）、首字母（zs）和混合输入（zhangs、zsan），
+ * 多音字的每个读音都参与匹配（拼音词典来自 pinyin-pro）。匹配结果按匹配程度打分，用于排序
+ */
+import { pinyin } from 'pinyin-pro';
+
+/** 匹配程度，数值越大越好；0 表示不匹配 */
+export const MatchScore = {
+    EXACT: 100,
+    PREFIX: 90,
+    SUBSTRING: 80,
+    PINYIN_PREFIX: 70,
+    INITIALS_PREFIX: 60,
+    PINYIN: 50,
+    INITIALS: 40,
+    FUZZY: 20,
+    NONE: 0,
+} as const;
+
+export interface RankedItem<T> {
+    item: T;
+    score: number;
+}
+
+// 单个字的候选读音：汉字为字本身、按上下文确定的读音和其余多音读音，其他字符为小写的字符本身
+type CharReadings = string[];
+
+const HAN_REGEX = /\p{Script=Han}/u;
+
+// 名称的读音缓存，会话和联系人名称重复搜索时不必每次重新查词典
+const MAX_CACHED_NAMES = 20000;
+const readingsCache = new Map<string, CharReadings[]>();
+
+function getReadings(text: string): CharReadings[] {
+    const cached = readingsCache.get(text);
+    if (cached) return cached;
+
+    const chars = Array.from(text).filter((ch) => !/\s/.test(ch));
+    const hasHan = chars.some((ch) => HAN_REGEX.test(ch));
+    // 整体转换可以按词语确定多音字读音（如"重庆"），surname 让姓氏按姓氏读音（如"曾"读 zeng）
+    const contextual = hasHan ? pinyin(chars.join(''), { type: 'array', toneType: 'none', v: true, surname: 'head' }) : [];
+    const aligned = contextual.length === chars.length;
+
+    const readings = chars.map((ch, i) => {
+        const lower = ch.toLowerCase();
+        if (!HAN_REGEX.test(ch)) return [lower];
+        const all = pinyin(ch, { type: 'array', toneType: 'none', v: true, multiple: true });
+        return Array.from(new Set([lower, ...(aligned ? [contextual[i]] : []), ...all])).filter(Boolean);
+    });
+
+    if (readingsCache.size >= MAX_CACHED_NAMES) readingsCache.clear();
+    readingsCache.set(text, readings);
+    return readings;
+}
+
+/**
+ * 关键词归一化：小写，去掉空白和隔音符（xi'an）
+ */
+export function normalizeKeyword(keyword: string): string {
+    return keyword.toLowerCase().replace(/[\s']+/g, '');
+}
+
+/**
+ * 从第 start 个字开始用读音匹配关键词，返回 'full'（全拼，最后一个字可以只输入一部分）、
+ * 'initials'（用到了首字母）或 null
+ */
+function matchReadings(chars: CharReadings[], start: number, keyword: string): 'full' | 'initials' | null {
+    // memo[ci][ki]：从第 ci 个字、关键词第 ki 位开始的最佳结果（0 全拼，1 用到首字母，-1 不匹配）
+    const memo = new Map<number, number>();
+
+    const visit = (ci: number, ki: number): number => {
+        if (ki === keyword.length) return 0;
+        if (ci === chars.length) return -1;
+        const key = ci * (keyword.length + 1) + ki;
+        const cached = memo.get(key);
+        if (cached !== undefined) return cached;
+
+        const rest = keyword.slice(ki);
+        let best = -1;
+        const consider = (result: number) => {
+            if (result >= 0 && (best < 0 || result < best)) best = result;
+        };
+        for (const reading of chars[ci]) {
+            if (rest.startsWith(reading)) consider(visit(ci + 1, ki + reading.length));
+            if (best === 0) break;
+            // 关键词在这个字的读音中间结束：zhangs 匹配张三；只输入了一个字母时视为首字母
+            if (reading.length > rest.length && reading.startsWith(rest)) consider(rest.length > 1 || ki > 0 ? 0 : 1);
+            if (reading.length > 1 && /^[a-z]/.test(reading)) {
+                // 声母 zh / ch / sh 可以输入两个字母，其余声母输入首字母
+                const initial = /^[zcs]h/.test(reading) ? reading.slice(0, 2) : '';
+                if (initial && rest.startsWith(initial)) consider(visit(ci + 1, ki + 2) >= 0 ? 1 : -1);
+                if (rest[0] === reading[0]) consider(visit(ci + 1, ki + 1) >= 0 ? 1 : -1);
+            }
+        }
+
+        memo.set(key, best);
+        return best;
+    };
+
+    const result = visit(start, 0);
+    return result < 0 ? null : result === 0 ? 'full' : 'initials';
+}
+
+/** keyword 的每个字符都按顺序出现在 text 中 */
+function isSubsequence(keyword: string, text: string): boolean {
+    let ki = 0;
+    for (const ch of text) {
+        if (ch === keyword[ki]) ki++;
+        if (ki === keyword.length) return true;
+    }
+    return false;
+}
+
+/**
+ * 计算关键词（已归一化）与名称的匹配程度
+ */
+export function matchName(keyword: string, name: string | null | undefined): number {
+    if (!keyword || !name) return MatchScore.NONE;
+
+    const lower = name.toLowerCase();
+    if (lower === keyword) return MatchScore.EXACT;
+    if (lower.startsWith(keyword)) return MatchScore.PREFIX;
+    if (lower.includes(keyword)) return MatchScore.SUBSTRING;
+
+    const chars = getReadings(name);
+    if (chars.length === 0) return MatchScore.NONE;
+
+    let best: number = MatchScore.NONE;
+    for (let start = 0; start < chars.length; start++) {
+        const kind = matchReadings(chars, start, keyword);
+        if (!kind) continue;
+        const score = start === 0
+            ? (kind === 'full' ? MatchScore.PINYIN_PREFIX : MatchScore.INITIALS_PREFIX)
+            : (kind === 'full' ? MatchScore.PINYIN : MatchScore.INITIALS);
+        best = Math.max(best, score);
+        if (start === 0) break;
+    }
+    if (best > MatchScore.NONE) return best;
+
+    // 模糊匹配：关键词的字符按顺序出现在名称或其首字母中（zsf 匹配"张三丰"也由上面的首字母规则处理）
+    if (keyword.length > 1) {
+        const initials = chars.map((readings) => readings[readings.length > 1 ? 1 : 0][0] || '').join('');
+        if (isSubsequence(keyword, lower) || isSubsequence(keyword, initials)) return MatchScore.FUZZY;
+    }
+    return MatchScore.NONE;
+}
+
+/**
+ * 按关键词过滤并排序：每项取各名称字段中最好的匹配，同分时前面的字段优先，再按最近活跃时间从新到旧。
+ * 一个字段可以有多个名称（如不同群的群昵称）
+ */
+export function rankByName<T>(
+    keyword: string,
+    items: T[],
+    getNames: (item: T) => (string | string[] | null | undefined)[],
+    getTimestamp: (item: T) => number
+): RankedItem<T>[] {
+    const normalized = normalizeKeyword(keyword);
+    if (!normalized) return items.map((item) => ({ item, score: MatchScore.NONE }));
+
+    const ranked: (RankedItem<T> & { field: number; timestamp: number })[] = [];
+    for (const item of items) {
+        let score: number = MatchScore.NONE;
+        let field = 0;
+        getNames(item).forEach((names, index) => {
+            for (const name of Array.isArray(names) ? names : [names]) {
+                const s = matchName(normalized, name);
+                if (s > score) {
+                    score = s;
+                    field = index;
+                }
+            }
+        });
+        if (score > MatchScore.NONE) ranked.push({ item, score, field, timestamp: getTimestamp(item) || 0 });
+    }
+
+    ranked.sort((a, b) => b.score - a.score || a.field - b.field || b.timestamp - a.timestamp);
+    return ranked.map(({ item, score }) => ({ item, score }));
+}
@@ -0,0 +1,146 @@
+/**
+ * WeFlow API CLI - 数据库操作调度器
+ * 数据库调用仍然一次只执行一个，但等待中的调用按优先级出队：
+ * realtime（WebSocket 实时推送） > interactive（HTTP 查询） > bulk（导出 / 后台任务）
+ *
+ * 优先级通过 AsyncLocalStorage 随调用链传递，调用方用 runWithPriority 包裹即可，
+ * 无需修改每个数据源方法的签名。消息游标的每个批次都是独立的调用，
+ * 因此大批量导出会在批次之间让出队列给更高优先级的调用。
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type OpPriority = 'realtime' | 'interactive' | 'bulk';
+
+const PRIORITIES: OpPriority[] = ['realtime', 'interactive', 'bulk'];
+
+// 低优先级调用等待超过该时间后提升到队首，防止被持续的高优先级调用饿死
+const MAX_WAIT_BEFORE_PROMOTE_MS = 5000;
+
+interface QueuedOp {
+    run: () => void;
+    enqueuedAt: number;
+}
+
+interface PriorityStats {
+    enqueued: number;
+    dispatched: number;
+    promoted: number;
+    totalWaitMs: number;
+    maxWaitMs: number;
+}
+
+export interface QueueStats {
+    running: boolean;
+    depth: number;
+    priorities: Record<OpPriority, {
+        depth: number;
+        enqueued: number;
+        dispatched: number;
+        promoted: number;
+        avgWaitMs: number;
+        maxWaitMs: number;
+        oldestWaitingMs: number;
+    }>;
+}
+
+const priorityContext = new AsyncLocalStorage<OpPriority>();
+
+/**
+ * 在指定优先级下执行 fn，fn 内（包括其后续的 await）发起的数据库调用都使用该优先级
+ */
+export function runWithPriority<T>(priority: OpPriority, fn: () => T): T {
+    return priorityContext.run(priority, fn);
+}
+
+export function currentPriority(): OpPriority {
+    return priorityContext.getStore() || 'interactive';
+}
+
+export class OpScheduler {
+    private queues: Record<OpPriority, QueuedOp[]> = { realtime: [], interactive: [], bulk: [] };
+    private stats: Record<OpPriority, PriorityStats>;
+    private running = false;
+
+    constructor() {
+        const empty = (): PriorityStats => ({ enqueued: 0, dispatched: 0, promoted: 0, totalWaitMs: 0, maxWaitMs: 0 });
+        this.stats = { realtime: empty(), interactive: empty(), bulk: empty() };
+    }
+
+    run<T>(fn: () => Promise<T> | T, priority: OpPriority = currentPriority()): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const enqueuedAt = Date.now();
+            const op: QueuedOp = {
+                enqueuedAt,
+                run: () => {
+                    const waited = Date.now() - enqueuedAt;
+                    const stat = this.stats[priority];
+                    stat.dispatched++;
+                    stat.totalWaitMs += waited;
+                    stat.maxWaitMs = Math.max(stat.maxWaitMs, waited);
+
+                    Promise.resolve()
+                        .then(fn)
+                        .then(resolve, reject)
+                        .finally(() => {
+                            this.running = false;
+                            this.drain();
+                        });
+                },
+            };
+
+            this.queues[priority].push(op);
+            this.stats[priority].enqueued++;
+            this.drain();
+        });
+    }
+
+    private drain(): void {
+        if (this.running) return;
+        const next = this.dequeue();
+        if (!next) return;
+        this.running = true;
+        next.run();
+    }
+
+    private dequeue(): QueuedOp | null {
+        const now = Date.now();
+
+        // 先检查是否有等待过久的低优先级调用
+        for (const priority of ['bulk', 'interactive'] as const) {
+            const head = this.queues[priority][0];
+            if (head && now - head.enqueuedAt > MAX_WAIT_BEFORE_PROMOTE_MS) {
+                this.stats[priority].promoted++;
+                return this.queues[priority].shift()!;
+            }
+        }
+
+        for (const priority of PRIORITIES) {
+            const op = this.queues[priority].shift();
+            if (op) return op;
+        }
+        return null;
+    }
+
+    getStats(): QueueStats {
+        const now = Date.now();
+        const priorities = {} as QueueStats['priorities'];
+        let depth = 0;
+
+        for (const priority of PRIORITIES) {
+            const queue = this.queues[priority];
+            const stat = this.stats[priority];
+            depth += queue.length;
+            priorities[priority] = {
+                depth: queue.length,
+                enqueued: stat.enqueued,
+                dispatched: stat.dispatched,
+                promoted: stat.promoted,
+                avgWaitMs: stat.dispatched > 0 ? Math.round(stat.totalWaitMs / stat.dispatched) : 0,
+                maxWaitMs: stat.maxWaitMs,
+                oldestWaitingMs: queue.length > 0 ? now - queue[0].enqueuedAt : 0,
+            };
+        }
+
+        return { running: this.running, depth, priorities };
+    }
+}
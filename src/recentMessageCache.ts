@@ -0,0 +1,52 @@
+/**
+ * WeFlow API CLI - 近期消息缓存
+ * 保存本进程推送过的消息（按账号 + 服务端消息 ID），供撤回通知找回原始内容。
+ * 容量有限，超出后按最久未访问的顺序淘汰；进程重启后缓存清空。
+ */
+import type { ChatLabMessage, QuotedMessage, RichPayload } from './messageNormalizer.js';
+
+export interface CachedMessage {
+    sessionId: string;
+    message: ChatLabMessage & { payload: RichPayload | null; quoted?: QuotedMessage | null };
+    /** 是否已作为撤回通知推送过，避免同一条撤回重复推送 */
+    recalled: boolean;
+}
+
+export class RecentMessageCache {
+    // Map 按插入顺序遍历，第一个键即为最久未访问的条目
+    private entries: Map<string, CachedMessage> = new Map();
+
+    constructor(private readonly capacity: number) {}
+
+    get(account: string, serverId: string): CachedMessage | undefined {
+        const key = this.key(account, serverId);
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(account: string, serverId: string, entry: CachedMessage): void {
+        if (this.capacity <= 0 || !serverId || serverId === '0') return;
+
+        const key = this.key(account, serverId);
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.capacity) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    private key(account: string, serverId: string): string {
+        return `${account}\u0000${serverId}`;
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * WeFlow API CLI - 内容打码
+ * 按 API 密钥的 redact 规则，在消息内容离开进程前遮盖手机号、身份证号、银行卡号和转账金额
+ */
+import type { RedactRule } from './config.js';
+
+interface Masker {
+    pattern: RegExp;
+    mask: (match: string) => string;
+}
+
+/** 保留首尾若干位数字，其余数字替换为 *（分隔符原样保留） */
+function maskDigits(value: string, keepStart: number, keepEnd: number): string {
+    const total = (value.match(/[0-9Xx]/g) || []).length;
+    let index = 0;
+    return value.replace(/[0-9Xx]/g, (ch) => {
+        const position = index++;
+        return position < keepStart || position >= total - keepEnd ? ch : '*';
+    });
+}
+
+// 身份证号与银行卡号位数重叠，先匹配身份证
+const MASKERS: [RedactRule, Masker][] = [
+    ['idcard', {
+        pattern: /(?<![0-9A-Za-z])\d{17}[\dXx](?![0-9A-Za-z])/g,
+        mask: (match) => maskDigits(match, 3, 4),
+    }],
+    ['bankcard', {
+        pattern: /(?<!\d)(?:\d[ -]?){15,18}\d(?!\d)/g,
+        mask: (match) => maskDigits(match, 0, 4),
+    }],
+    ['phone', {
+        pattern: /(?<!\d)(?:\+?86[ -]?)?1[3-9]\d[ -]?\d{4}[ -]?\d{4}(?!\d)/g,
+        mask: (match) => match.replace(/(1[3-9]\d)([ -]?)\d{4}([ -]?)(\d{4})$/, '$1$2****$3$4'),
+    }],
+    ['amount', {
+        pattern: /[￥¥]\s*\d[\d,]*(?:\.\d+)?|\d[\d,]*(?:\.\d+)?\s*元/g,
+        mask: (match) => (match.endsWith('元') ? '***元' : `${match[0]}***`),
+    }],
+];
+
+/**
+ * 按规则遮盖文本中的敏感信息，rules 为空时原样返回
+ */
+export function redactText(text: string, rules: ReadonlySet<RedactRule>): string {
+    if (!text || rules.size === 0) return text;
+
+    let result = text;
+    for (const [rule, masker] of MASKERS) {
+        if (rules.has(rule)) {
+            result = result.replace(masker.pattern, masker.mask);
+        }
+    }
+    return result;
+}
+
+/**
+ * 对结构化内容（含嵌套的对象和数组）中的字符串字段打码；启用 amount 规则时，数值型的 amount 字段置为 null
+ */
+export function redactObject<T extends object>(value: T, rules: ReadonlySet<RedactRule>): T {
+    if (rules.size === 0) return value;
+    return redactValue(value, rules) as T;
+}
+
+function redactValue(value: unknown, rules: ReadonlySet<RedactRule>, key?: string): unknown {
+    if (typeof value === 'string') return redactText(value, rules);
+    if (key === 'amount' && typeof value === 'number' && rules.has('amount')) return null;
+    if (Array.isArray(value)) return value.map((item) => redactValue(item, rules));
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [field, fieldValue] of Object.entries(value)) {
+            result[field] = redactValue(fieldValue, rules, field);
+        }
+        return result;
+    }
+    return value;
+}
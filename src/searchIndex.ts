@@ -0,0 +1,503 @@
+/**
+ * WeFlow API CLI - 全文搜索索引
+ * 后台通过消息游标读取所有会话，把消息文本写入本地 SQLite FTS5 索引（每个账号一个文件），
+ * 之后按数据库变更通知和定时检查增量更新。
+ *
+ * FTS5 自带的 unicode61 分词不会切分连续的中文，写入前先把中日韩文字切成相邻两字的二元组
+ * （每段最后一个字再单独成词，用于单字搜索）；查询时按同样的方式切分并作为短语匹配，效果相当于子串匹配
+ */
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { join, resolve } from 'path';
+import { getConfig } from './config.js';
+import { getAccountRegistry, type Account } from './accountRegistry.js';
+import { runWithPriority } from './opScheduler.js';
+import { getMessageNormalizer, ChatLabType, type ForwardedItem, type NormalizedMessage } from './messageNormalizer.js';
+
+// 索引内容或分词方式变化时递增，打开旧版本的索引会清空重建
+const INDEX_VERSION = 1;
+
+const BATCH_SIZE = 500;
+
+// 只索引有文字内容的消息，图片、语音等只有占位符的消息不索引
+const INDEXED_TYPES = new Set<number>([
+    ChatLabType.TEXT,
+    ChatLabType.FILE,
+    ChatLabType.LINK,
+    ChatLabType.LOCATION,
+    ChatLabType.SHARE,
+    ChatLabType.REPLY,
+    ChatLabType.FORWARD,
+    ChatLabType.CONTACT,
+    ChatLabType.SYSTEM,
+]);
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const WORD_REGEX = new RegExp(`([${CJK}]+)|((?:(?![${CJK}])[\\p{L}\\p{N}])+)`, 'gu');
+
+export interface SearchQuery {
+    q: string;
+    talker?: string;
+    sender?: string;
+    /** ChatLab 消息类型 */
+    types?: number[];
+    start?: number;
+    end?: number;
+    limit: number;
+    offset: number;
+    /** 会话过滤（API 密钥的会话范围），返回 false 的会话不出现在结果中 */
+    canAccess?: (talker: string) => boolean;
+}
+
+export interface SearchHit {
+    talker: string;
+    serverId: string;
+    sender: string;
+    type: number;
+    createTime: number;
+    sortSeq: number;
+    content: string;
+    /** bm25 得分，越小越相关 */
+    score: number;
+}
+
+export interface SearchIndexStatus {
+    /** 首次全量索引是否已完成 */
+    ready: boolean;
+    indexedSessions: number;
+    messages: number;
+    /** 最近一次全量检查完成的时间（毫秒） */
+    lastSyncAt: number | null;
+    syncing: boolean;
+}
+
+/**
+ * 把文本切分为写入 FTS5 的词：中日韩文字为二元组，其余为连续的字母数字
+ */
+export function tokenizeForIndex(text: string): string {
+    const tokens: string[] = [];
+    for (const match of text.matchAll(WORD_REGEX)) {
+        if (match[1]) {
+            const chars = [...match[1]];
+            for (let i = 0; i < chars.length - 1; i++) {
+                tokens.push(chars[i] + chars[i + 1]);
+            }
+            tokens.push(chars[chars.length - 1]);
+        } else if (match[2]) {
+            tokens.push(match[2].toLowerCase());
+        }
+    }
+    return tokens.join(' ');
+}
+
+/**
+ * 把搜索词转换为 FTS5 查询：空格分隔的每个词都必须出现；
+ * 中日韩文字段转为二元组短语（单字用前缀匹配），字母数字用前缀匹配。没有可搜索的内容时返回 null
+ */
+export function buildMatchQuery(q: string): string | null {
+    const parts: string[] = [];
+    for (const match of q.matchAll(WORD_REGEX)) {
+        if (match[1]) {
+            const chars = [...match[1]];
+            if (chars.length === 1) {
+                parts.push(`"${chars[0]}"*`);
+                continue;
+            }
+            const bigrams: string[] = [];
+            for (let i = 0; i < chars.length - 1; i++) {
+                bigrams.push(chars[i] + chars[i + 1]);
+            }
+            parts.push(`"${bigrams.join(' ')}"`);
+        } else if (match[2]) {
+            parts.push(`"${match[2].toLowerCase()}"*`);
+        }
+    }
+    return parts.length > 0 ? parts.join(' AND ') : null;
+}
+
+/**
+ * 截取第一个命中词附近的文字作为摘要，命中词用 <mark> 标出（其余文字已做 HTML 转义）
+ */
+export function highlightSnippet(content: string, q: string, radius = 30): string {
+    const terms = q.split(/\s+/).map((t) => t.trim().toLowerCase()).filter(Boolean);
+    const lower = content.toLowerCase();
+    const first = Math.min(...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0), Infinity);
+
+    const from = first === Infinity ? 0 : Math.max(0, first - radius);
+    const to = first === Infinity ? radius * 2 : first + radius * 2;
+    const window = content.slice(from, to);
+
+    let snippet = '';
+    let pos = 0;
+    const windowLower = window.toLowerCase();
+    while (pos < window.length) {
+        let hitAt = -1;
+        let hitLength = 0;
+        for (const term of terms) {
+            const at = windowLower.indexOf(term, pos);
+            if (at >= 0 && (hitAt < 0 || at < hitAt)) {
+                hitAt = at;
+                hitLength = term.length;
+            }
+        }
+        if (hitAt < 0) {
+            snippet += escapeHtml(window.slice(pos));
+            break;
+        }
+        snippet += escapeHtml(window.slice(pos, hitAt)) + `<mark>${escapeHtml(window.slice(hitAt, hitAt + hitLength))}</mark>`;
+        pos = hitAt + hitLength;
+    }
+
+    return `${from > 0 ? '…' : ''}${snippet}${to < content.length ? '…' : ''}`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 单个账号的索引
+ */
+export class AccountSearchIndex {
+    private db: Database.Database;
+    // 同一账号的同步任务串行执行
+    private queue: Promise<void> = Promise.resolve();
+    private pendingSessions = new Set<string>();
+    private pendingFullSync = false;
+    private ready = false;
+    private syncing = false;
+    private lastSyncAt: number | null = null;
+
+    constructor(private readonly account: Account, path: string) {
+        this.db = new Database(path);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('synchronous = NORMAL');
+
+        if (this.db.pragma('user_version', { simple: true }) !== INDEX_VERSION) {
+            this.db.exec(`
+                DROP TABLE IF EXISTS messages_fts;
+                DROP TABLE IF EXISTS messages;
+                DROP TABLE IF EXISTS sync_state;
+            `);
+            this.db.pragma(`user_version = ${INDEX_VERSION}`);
+        }
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS messages (
+                id INTEGER PRIMARY KEY,
+                talker TEXT NOT NULL,
+                server_id TEXT NOT NULL,
+                sender TEXT NOT NULL,
+                type INTEGER NOT NULL,
+                create_time INTEGER NOT NULL,
+                sort_seq INTEGER NOT NULL,
+                content TEXT NOT NULL,
+                UNIQUE (talker, sort_seq)
+            );
+            CREATE INDEX IF NOT EXISTS idx_messages_time ON messages (create_time);
+            CREATE INDEX IF NOT EXISTS idx_messages_server ON messages (talker, server_id);
+            CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(tokens);
+            CREATE TABLE IF NOT EXISTS sync_state (
+                talker TEXT PRIMARY KEY,
+                sort_seq INTEGER NOT NULL,
+                create_time INTEGER NOT NULL
+            );
+        `);
+    }
+
+    /**
+     * 检查所有会话，索引上次同步之后的新消息
+     */
+    scheduleFullSync(): void {
+        if (this.pendingFullSync) return;
+        this.pendingFullSync = true;
+        this.enqueue(async () => {
+            this.pendingFullSync = false;
+            await this.syncAll();
+        });
+    }
+
+    scheduleSessionSync(sessionId: string): void {
+        if (this.pendingSessions.has(sessionId)) return;
+        this.pendingSessions.add(sessionId);
+        this.enqueue(async () => {
+            this.pendingSessions.delete(sessionId);
+            await this.syncSession(sessionId);
+        });
+    }
+
+    search(query: SearchQuery): { hits: SearchHit[]; hasMore: boolean } {
+        const match = buildMatchQuery(query.q);
+        if (!match) return { hits: [], hasMore: false };
+
+        const conditions = ['messages_fts MATCH ?'];
+        const params: unknown[] = [match];
+        if (query.talker) {
+            conditions.push('m.talker = ?');
+            params.push(query.talker);
+        }
+        if (query.sender) {
+            conditions.push('m.sender = ?');
+            params.push(query.sender);
+        }
+        if (query.types && query.types.length > 0) {
+            conditions.push(`m.type IN (${query.types.map(() => '?').join(', ')})`);
+            params.push(...query.types);
+        }
+        if (query.start) {
+            conditions.push('m.create_time >= ?');
+            params.push(query.start);
+        }
+        if (query.end) {
+            conditions.push('m.create_time <= ?');
+            params.push(query.end);
+        }
+        if (query.canAccess) {
+            const talkers = (this.db.prepare('SELECT talker FROM sync_state').pluck().all() as string[]).filter(query.canAccess);
+            conditions.push('m.talker IN (SELECT value FROM json_each(?))');
+            params.push(JSON.stringify(talkers));
+        }
+
+        const rows = this.db.prepare(`
+            SELECT m.talker, m.server_id, m.sender, m.type, m.create_time, m.sort_seq, m.content, bm25(messages_fts) AS score
+            FROM messages_fts JOIN messages m ON m.id = messages_fts.rowid
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY score, m.create_time DESC
+            LIMIT ? OFFSET ?
+        `).all(...params, query.limit + 1, query.offset) as any[];
+
+        return {
+            hits: rows.slice(0, query.limit).map((row) => ({
+                talker: row.talker,
+                serverId: row.server_id,
+                sender: row.sender,
+                type: row.type,
+                createTime: row.create_time,
+                sortSeq: row.sort_seq,
+                content: row.content,
+                score: row.score,
+            })),
+            hasMore: rows.length > query.limit,
+        };
+    }
+
+    /**
+     * 已索引消息的时间（秒），用于按 serverId 定位消息；未索引的消息（如图片）返回 null
+     */
+    findCreateTime(talker: string, serverId: string): number | null {
+        const time = this.db.prepare('SELECT create_time FROM messages WHERE talker = ? AND server_id = ? LIMIT 1').pluck().get(talker, serverId);
+        return typeof time === 'number' ? time : null;
+    }
+
+    getStatus(): SearchIndexStatus {
+        return {
+            ready: this.ready,
+            indexedSessions: this.db.prepare('SELECT COUNT(*) FROM sync_state').pluck().get() as number,
+            messages: this.db.prepare('SELECT COUNT(*) FROM messages').pluck().get() as number,
+            lastSyncAt: this.lastSyncAt,
+            syncing: this.syncing,
+        };
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private enqueue(task: () => Promise<void>): void {
+        this.queue = this.queue
+            .then(() => runWithPriority('bulk', async () => {
+                this.syncing = true;
+                try {
+                    await task();
+                } finally {
+                    this.syncing = false;
+                }
+            }))
+            .catch((e) => console.error(`搜索索引更新失败 (${this.account.wxid}):`, e));
+    }
+
+    private async syncAll(): Promise<void> {
+        if (!this.account.source.isConnected()) return;
+
+        const sessionsResult = await this.account.source.getSessions();
+        if (!sessionsResult.success || !sessionsResult.data) {
+            console.warn(`⚠️ 搜索索引: 获取会话列表失败 (${this.account.wxid}): ${sessionsResult.error}`);
+            return;
+        }
+
+        const states = new Map<string, number>(
+            (this.db.prepare('SELECT talker, create_time FROM sync_state').all() as any[]).map((s) => [s.talker, s.create_time])
+        );
+        let indexed = 0;
+        for (const session of sessionsResult.data) {
+            const username: string = session.username || session.user_name || '';
+            if (!username) continue;
+            // 会话最后活跃时间早于已索引的最新消息，说明没有新消息
+            const lastTimestamp = session.sort_timestamp || session.last_timestamp || 0;
+            const indexedTime = states.get(username);
+            if (indexedTime !== undefined && lastTimestamp && lastTimestamp < indexedTime) continue;
+
+            indexed += await this.syncSession(username);
+        }
+
+        if (!this.ready) {
+            console.log(`✅ 搜索索引已就绪 (${this.account.wxid})`);
+        } else if (indexed > 0) {
+            console.log(`[搜索索引] ${this.account.wxid} 新增 ${indexed} 条消息`);
+        }
+        this.ready = true;
+        this.lastSyncAt = Date.now();
+    }
+
+    /**
+     * 从上次同步的位置开始按时间顺序读取会话消息，返回新索引的消息数
+     */
+    private async syncSession(talker: string): Promise<number> {
+        const source = this.account.source;
+        const normalizer = getMessageNormalizer();
+        const state = this.db.prepare('SELECT sort_seq, create_time FROM sync_state WHERE talker = ?').get(talker) as
+            { sort_seq: number; create_time: number } | undefined;
+
+        const cursorResult = await source.openMessageCursor(talker, BATCH_SIZE, true, state?.create_time || 0, 0);
+        if (!cursorResult.success || !cursorResult.data) {
+            return 0;
+        }
+
+        const insertMessage = this.db.prepare(`
+            INSERT OR IGNORE INTO messages (talker, server_id, sender, type, create_time, sort_seq, content)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        const insertTokens = this.db.prepare('INSERT INTO messages_fts (rowid, tokens) VALUES (?, ?)');
+        const saveState = this.db.prepare(`
+            INSERT INTO sync_state (talker, sort_seq, create_time) VALUES (?, ?, ?)
+            ON CONFLICT (talker) DO UPDATE SET sort_seq = excluded.sort_seq, create_time = excluded.create_time
+        `);
+
+        let lastSortSeq = state?.sort_seq ?? -1;
+        let lastCreateTime = state?.create_time ?? 0;
+        let indexed = 0;
+        const writeBatch = this.db.transaction((messages: NormalizedMessage[]) => {
+            for (const msg of messages) {
+                const type = normalizer.mapMessageType(msg);
+                const content = INDEXED_TYPES.has(type) ? this.getIndexText(msg, type) : '';
+                // 去掉 [引用] / [链接] 之类的类型前缀，避免搜索这些词时命中所有同类消息
+                const tokens = content ? tokenizeForIndex(content.replace(/^\[[^\]]+\]\s*/, '')) : '';
+                if (tokens) {
+                    const result = insertMessage.run(talker, msg.serverId, msg.senderUsername, type, msg.createTime, msg.sortSeq, content);
+                    if (result.changes > 0) {
+                        insertTokens.run(result.lastInsertRowid, tokens);
+                        indexed++;
+                    }
+                }
+                lastSortSeq = Math.max(lastSortSeq, msg.sortSeq);
+                lastCreateTime = Math.max(lastCreateTime, msg.createTime);
+            }
+            saveState.run(talker, lastSortSeq, lastCreateTime);
+        });
+
+        const cursor = cursorResult.data;
+        try {
+            let hasMore = true;
+            while (hasMore) {
+                const batch = await source.fetchMessageBatch(cursor);
+                if (!batch.success || !batch.data) break;
+
+                const messages = batch.data.rows
+                    .filter((row) => !state || normalizer.getSortSeq(row) > state.sort_seq)
+                    .map((row) => normalizer.normalizeRow(row, talker, this.account.wxid));
+                writeBatch(messages);
+                hasMore = batch.data.hasMore;
+            }
+        } finally {
+            await source.closeMessageCursor(cursor);
+        }
+
+        return indexed;
+    }
+
+    /**
+     * 索引的文字：消息内容，合并转发的聊天记录再加上其中每条消息的内容
+     */
+    private getIndexText(msg: NormalizedMessage, type: number): string {
+        const normalizer = getMessageNormalizer();
+        const content = normalizer.toChatLab(msg).content || '';
+        if (type !== ChatLabType.FORWARD) return content;
+
+        const texts: string[] = [content];
+        const collect = (items: ForwardedItem[]) => {
+            for (const item of items) {
+                if (item.text) texts.push(item.text);
+                if (item.children) collect(item.children);
+            }
+        };
+        collect(normalizer.parseForwardRecord(msg.rawContent).items);
+        return texts.join('\n');
+    }
+}
+
+/**
+ * 管理所有账号的索引：启动时全量同步，之后按变更通知和定时检查增量更新
+ */
+export class SearchIndexService {
+    private indexes: Map<string, AccountSearchIndex> = new Map();
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    isEnabled(): boolean {
+        return getConfig().searchIndexEnabled;
+    }
+
+    start(): void {
+        const config = getConfig();
+        if (!config.searchIndexEnabled || this.indexes.size > 0) return;
+
+        const dir = resolve(process.cwd(), config.searchIndexDir);
+        mkdirSync(dir, { recursive: true });
+        for (const account of getAccountRegistry().list()) {
+            const index = new AccountSearchIndex(account, join(dir, `${account.wxid.replace(/[^\w.-]/g, '_')}.db`));
+            this.indexes.set(account.wxid, index);
+            index.scheduleFullSync();
+        }
+        console.log(`🔎 搜索索引已启用: ${dir}`);
+
+        if (config.searchIndexIntervalMs > 0) {
+            this.timer = setInterval(() => {
+                for (const index of this.indexes.values()) index.scheduleFullSync();
+            }, config.searchIndexIntervalMs);
+        }
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        for (const index of this.indexes.values()) index.close();
+        this.indexes.clear();
+    }
+
+    /**
+     * 数据库变更通知：已知会话时只同步该会话，否则检查所有会话
+     */
+    notifyChange(account: Account, sessionId?: string): void {
+        const index = this.indexes.get(account.wxid);
+        if (!index) return;
+        if (sessionId) {
+            index.scheduleSessionSync(sessionId);
+        } else {
+            index.scheduleFullSync();
+        }
+    }
+
+    get(account: Account): AccountSearchIndex | null {
+        return this.indexes.get(account.wxid) || null;
+    }
+}
+
+// 单例实例
+let searchIndexInstance: SearchIndexService | null = null;
+
+export function getSearchIndexService(): SearchIndexService {
+    if (!searchIndexInstance) {
+        searchIndexInstance = new SearchIndexService();
+    }
+    return searchIndexInstance;
+}
@@ -0,0 +1,585 @@
+/**
+ * WeFlow API CLI - SQLite 数据源
+ * 使用 better-sqlite3 直接读取已解密的微信 4.x 数据库（session.db / contact.db / message_*.db），
+ * 不依赖 wcdb_api.dll，可在 Linux / macOS 上运行
+ */
+import { join, isAbsolute } from 'path';
+import { existsSync, mkdirSync, appendFileSync } from 'fs';
+import { createHash } from 'crypto';
+import Database from 'better-sqlite3';
+import { getConfig } from './config.js';
+import type { DataSource, WcdbResult } from './dataSource.js';
+import { resolveDbStoragePath, findDbFile, listDbFiles } from './dbStorage.js';
+
+interface MessageCursor {
+    sessionId: string;
+    tableName: string;
+    dbs: Database.Database[];
+    batchSize: number;
+    ascending: boolean;
+    beginTimestamp: number;
+    endTimestamp: number;
+    lastSortSeq: bigint | null;
+    done: boolean;
+}
+
+export class SqliteDataSource implements DataSource {
+    readonly kind = 'sqlite' as const;
+    private logEnabled: boolean;
+    private logDir: string;
+    private dbStoragePath: string | null = null;
+    private myWxid = '';
+    private sessionDb: Database.Database | null = null;
+    private contactDb: Database.Database | null = null;
+    private messageDbs: Database.Database[] = [];
+    private messageDbPaths: string[] = [];
+    private extraDbs: Map<string, Database.Database> = new Map();
+    private tableCache: Map<Database.Database, Set<string>> = new Map();
+    private cursors: Map<number, MessageCursor> = new Map();
+    private cursorIdCounter = 0;
+
+    constructor() {
+        const config = getConfig();
+        this.logEnabled = config.logEnabled;
+        this.logDir = config.logDir;
+    }
+
+    private writeLog(message: string, force = false): void {
+        if (!force && !this.logEnabled) return;
+        const line = `[${new Date().toISOString()}] ${message}`;
+        console.log(line);
+        try {
+            if (!existsSync(this.logDir)) {
+                mkdirSync(this.logDir, { recursive: true });
+            }
+            appendFileSync(join(this.logDir, 'sqlite.log'), line + '\n', { encoding: 'utf8' });
+        } catch { }
+    }
+
+    private openReadonly(path: string): Database.Database {
+        const db = new Database(path, { readonly: true, fileMustExist: true });
+        db.defaultSafeIntegers(true);
+        return db;
+    }
+
+    async open(dbPath: string, _hexKey: string, wxid: string): Promise<boolean> {
+        try {
+            this.closeAll();
+
+            const dbStoragePath = resolveDbStoragePath(dbPath, wxid);
+            this.writeLog(`open dbPath=${dbPath} wxid=${wxid} dbStorage=${dbStoragePath || 'null'}`);
+            if (!dbStoragePath) {
+                this.writeLog(`数据库目录不存在: ${dbPath}`, true);
+                return false;
+            }
+
+            const sessionDbPath = findDbFile(dbStoragePath, 'session.db');
+            const contactDbPath = findDbFile(dbStoragePath, 'contact.db');
+            if (!sessionDbPath || !contactDbPath) {
+                this.writeLog('未找到 session.db 或 contact.db 文件', true);
+                return false;
+            }
+
+            this.sessionDb = this.openReadonly(sessionDbPath);
+            this.contactDb = this.openReadonly(contactDbPath);
+            this.messageDbPaths = listDbFiles(dbStoragePath, /^message_\d+\.db$/i);
+            this.messageDbs = this.messageDbPaths.map((p) => this.openReadonly(p));
+
+            // 校验是否为已解密的 SQLite 文件
+            this.sessionDb.prepare('SELECT count(*) FROM sqlite_master').get();
+
+            this.dbStoragePath = dbStoragePath;
+            this.myWxid = wxid;
+            this.writeLog(`SQLite 数据源打开成功, wxid=${wxid} 消息库数量=${this.messageDbs.length}`);
+            return true;
+        } catch (e) {
+            this.writeLog(`打开 SQLite 数据库异常（文件是否已解密？）: ${e}`, true);
+            this.closeAll();
+            return false;
+        }
+    }
+
+    async reopen(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
+        // open 总是先关闭已打开的文件
+        return this.open(dbPath, hexKey, wxid);
+    }
+
+    private closeAll(): void {
+        this.cursors.clear();
+        this.tableCache.clear();
+        const all = [this.sessionDb, this.contactDb, ...this.messageDbs, ...this.extraDbs.values()];
+        for (const db of all) {
+            try {
+                db?.close();
+            } catch { }
+        }
+        this.sessionDb = null;
+        this.contactDb = null;
+        this.messageDbs = [];
+        this.messageDbPaths = [];
+        this.extraDbs.clear();
+        this.dbStoragePath = null;
+    }
+
+    shutdown(): void {
+        this.closeAll();
+    }
+
+    isConnected(): boolean {
+        return this.sessionDb !== null && this.contactDb !== null;
+    }
+
+    // 已解密的数据库副本不会被微信写入，不提供变更监控
+    startMonitor(_callback: (type: string, json: string) => void): boolean {
+        this.writeLog('startMonitor: SQLite 数据源不支持实时监控，将由调用方轮询');
+        return false;
+    }
+
+    stopMonitor(): void { }
+
+    isMonitorConnected(): boolean {
+        return false;
+    }
+
+    /**
+     * 将 better-sqlite3 的行转换为与 DLL JSON 输出一致的格式：
+     * 超出安全整数范围的 BigInt 转为字符串（避免 server_id 精度丢失），BLOB 按内容转为文本或 hex
+     */
+    private normalizeRow(row: Record<string, any>): Record<string, any> {
+        const out: Record<string, any> = {};
+        for (const [key, value] of Object.entries(row)) {
+            if (typeof value === 'bigint') {
+                const asNumber = Number(value);
+                out[key] = Number.isSafeInteger(asNumber) ? asNumber : value.toString();
+            } else if (Buffer.isBuffer(value)) {
+                const isZstd = value.length >= 4 && value.readUInt32LE(0) === 0xfd2fb528;
+                out[key] = isZstd || key === 'packed_info_data' ? value.toString('hex') : value.toString('utf-8');
+            } else {
+                out[key] = value;
+            }
+        }
+        return out;
+    }
+
+    private hasTable(db: Database.Database, tableName: string): boolean {
+        let tables = this.tableCache.get(db);
+        if (!tables) {
+            const rows = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[];
+            tables = new Set(rows.map((r) => r.name));
+            this.tableCache.set(db, tables);
+        }
+        return tables.has(tableName);
+    }
+
+    private getContactNames(usernames: string[]): Map<string, string> {
+        const names = new Map<string, string>();
+        if (!this.contactDb || usernames.length === 0) return names;
+
+        const CHUNK = 500;
+        for (let i = 0; i < usernames.length; i += CHUNK) {
+            const chunk = usernames.slice(i, i + CHUNK);
+            const placeholders = chunk.map(() => '?').join(',');
+            const rows = this.contactDb
+                .prepare(`SELECT username, remark, nick_name FROM contact WHERE username IN (${placeholders})`)
+                .all(...chunk) as any[];
+            for (const row of rows) {
+                names.set(row.username, row.remark || row.nick_name || row.username);
+            }
+        }
+        return names;
+    }
+
+    // ===== 数据库查询方法 =====
+
+    async getSessions(): Promise<WcdbResult<any[]>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const rows = this.sessionDb!
+                .prepare('SELECT * FROM SessionTable ORDER BY sort_timestamp DESC')
+                .all() as any[];
+            const sessions = rows.map((row) => this.normalizeRow(row));
+            const names = this.getContactNames(sessions.map((s) => s.username).filter(Boolean));
+            for (const session of sessions) {
+                session.display_name = names.get(session.username) || session.username;
+            }
+            return { success: true, data: sessions };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async getDisplayNames(usernames: string[]): Promise<WcdbResult<Record<string, string>>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const names = this.getContactNames(usernames);
+            const map: Record<string, string> = {};
+            for (const username of usernames) {
+                map[username] = names.get(username) || username;
+            }
+            return { success: true, data: map };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async openMessageCursor(
+        sessionId: string,
+        batchSize: number,
+        ascending: boolean,
+        beginTimestamp: number,
+        endTimestamp: number
+    ): Promise<WcdbResult<number>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const tableName = `Msg_${createHash('md5').update(sessionId).digest('hex')}`;
+            const dbs = this.messageDbs.filter((db) => this.hasTable(db, tableName));
+            const cursorId = ++this.cursorIdCounter;
+
+            this.cursors.set(cursorId, {
+                sessionId,
+                tableName,
+                dbs,
+                batchSize: Math.max(1, batchSize),
+                ascending,
+                beginTimestamp,
+                endTimestamp,
+                lastSortSeq: null,
+                done: dbs.length === 0,
+            });
+
+            return { success: true, data: cursorId };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async fetchMessageBatch(cursor: number): Promise<WcdbResult<{ rows: any[]; hasMore: boolean }>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        const state = this.cursors.get(cursor);
+        if (!state) {
+            return { success: false, error: `无效的消息游标: ${cursor}` };
+        }
+        if (state.done) {
+            return { success: true, data: { rows: [], hasMore: false } };
+        }
+
+        try {
+            const conditions: string[] = [];
+            const params: any[] = [];
+            if (state.lastSortSeq !== null) {
+                conditions.push(state.ascending ? 'm.sort_seq > ?' : 'm.sort_seq < ?');
+                params.push(state.lastSortSeq);
+            }
+            if (state.beginTimestamp > 0) {
+                conditions.push('m.create_time >= ?');
+                params.push(state.beginTimestamp);
+            }
+            if (state.endTimestamp > 0) {
+                conditions.push('m.create_time <= ?');
+                params.push(state.endTimestamp);
+            }
+            const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+            const order = state.ascending ? 'ASC' : 'DESC';
+            const sql = `SELECT m.*, n.user_name AS sender_username FROM ${state.tableName} m ` +
+                `LEFT JOIN Name2Id n ON n.rowid = m.real_sender_id ${where} ` +
+                `ORDER BY m.sort_seq ${order} LIMIT ?`;
+
+            // 一个会话可能分布在多个 message_N.db 中，各库各取一批后按 sort_seq 归并
+            const merged: any[] = [];
+            for (const db of state.dbs) {
+                merged.push(...(db.prepare(sql).all(...params, state.batchSize + 1) as any[]));
+            }
+            merged.sort((a, b) => {
+                const diff = BigInt(a.sort_seq) - BigInt(b.sort_seq);
+                const cmp = diff > 0n ? 1 : diff < 0n ? -1 : 0;
+                return state.ascending ? cmp : -cmp;
+            });
+
+            const hasMore = merged.length > state.batchSize;
+            const page = merged.slice(0, state.batchSize);
+            if (page.length > 0) {
+                state.lastSortSeq = BigInt(page[page.length - 1].sort_seq);
+            }
+            state.done = !hasMore;
+
+            const myWxid = this.myWxid.toLowerCase();
+            const rows = page.map((raw) => {
+                const row = this.normalizeRow(raw);
+                const sender = String(row.sender_username || '').toLowerCase();
+                row.computed_is_send = sender && sender === myWxid ? '1' : '0';
+                return row;
+            });
+
+            return { success: true, data: { rows, hasMore } };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async closeMessageCursor(cursor: number): Promise<WcdbResult<void>> {
+        this.cursors.delete(cursor);
+        return { success: true };
+    }
+
+    async getGroupNicknames(chatroomId: string): Promise<WcdbResult<Record<string, string>>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const row = this.contactDb!
+                .prepare('SELECT ext_buffer FROM chat_room WHERE username = ?')
+                .get(chatroomId) as { ext_buffer?: Buffer } | undefined;
+            if (!row?.ext_buffer || !Buffer.isBuffer(row.ext_buffer)) {
+                return { success: true, data: {} };
+            }
+            return { success: true, data: this.parseChatRoomNicknames(row.ext_buffer) };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    /**
+     * 解析 chat_room.ext_buffer（protobuf）：
+     * 字段 1 为重复的成员信息，成员内字段 1 为 wxid，字段 2 为群昵称
+     */
+    private parseChatRoomNicknames(buffer: Buffer): Record<string, string> {
+        const nicknames: Record<string, string> = {};
+        for (const field of this.readProtobufFields(buffer)) {
+            if (field.no !== 1 || !field.bytes) continue;
+            let wxid = '';
+            let nickname = '';
+            for (const sub of this.readProtobufFields(field.bytes)) {
+                if (!sub.bytes) continue;
+                if (sub.no === 1) wxid = sub.bytes.toString('utf-8');
+                if (sub.no === 2) nickname = sub.bytes.toString('utf-8');
+            }
+            if (wxid && nickname) {
+                nicknames[wxid] = nickname;
+            }
+        }
+        return nicknames;
+    }
+
+    private readProtobufFields(buffer: Buffer): { no: number; bytes?: Buffer }[] {
+        const fields: { no: number; bytes?: Buffer }[] = [];
+        let pos = 0;
+
+        const readVarint = (): number => {
+            let result = 0;
+            let shift = 0;
+            while (pos < buffer.length) {
+                const byte = buffer[pos++];
+                result += (byte & 0x7f) * Math.pow(2, shift);
+                if ((byte & 0x80) === 0) return result;
+                shift += 7;
+            }
+            throw new Error('truncated varint');
+        };
+
+        try {
+            while (pos < buffer.length) {
+                const tag = readVarint();
+                const no = Math.floor(tag / 8);
+                const wireType = tag & 7;
+                if (wireType === 0) {
+                    readVarint();
+                    fields.push({ no });
+                } else if (wireType === 1) {
+                    pos += 8;
+                    fields.push({ no });
+                } else if (wireType === 2) {
+                    const len = readVarint();
+                    if (pos + len > buffer.length) break;
+                    fields.push({ no, bytes: buffer.subarray(pos, pos + len) });
+                    pos += len;
+                } else if (wireType === 5) {
+                    pos += 4;
+                    fields.push({ no });
+                } else {
+                    break;
+                }
+            }
+        } catch { }
+
+        return fields;
+    }
+
+    /**
+     * 获取群成员列表
+     */
+    async getGroupMembers(chatroomId: string): Promise<WcdbResult<any[]>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const rows = this.contactDb!
+                .prepare(
+                    'SELECT c.username, c.nick_name, c.remark, c.alias FROM chatroom_member m ' +
+                    'JOIN chat_room r ON r.id = m.room_id JOIN contact c ON c.id = m.member_id ' +
+                    'WHERE r.username = ?'
+                )
+                .all(chatroomId) as any[];
+
+            const members = rows.map((row) => ({
+                username: row.username,
+                nickname: row.nick_name || '',
+                remark: row.remark || '',
+                alias: row.alias || '',
+                displayName: row.remark || row.nick_name || row.username,
+            }));
+            return { success: true, data: members };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    /**
+     * 按 kind 选择数据库执行只读 SQL：
+     * contact / session 使用对应主库，其余 kind 需要通过 path 指定（相对 db_storage 或绝对路径）
+     */
+    async execQuery(kind: string, path: string | null, sql: string): Promise<WcdbResult<any[]>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            let db: Database.Database | null = null;
+            if (path) {
+                const fullPath = isAbsolute(path) ? path : join(this.dbStoragePath!, path);
+                db = this.extraDbs.get(fullPath) || null;
+                if (!db) {
+                    db = this.openReadonly(fullPath);
+                    this.extraDbs.set(fullPath, db);
+                }
+            } else if (kind === 'contact') {
+                db = this.contactDb;
+            } else if (kind === 'session') {
+                db = this.sessionDb;
+            } else if (kind === 'message') {
+                db = this.messageDbs[0] || null;
+            }
+
+            if (!db) {
+                return { success: false, error: `不支持的查询类型: ${kind}` };
+            }
+
+            const rows = db.prepare(sql).all() as any[];
+            return { success: true, data: rows.map((row) => this.normalizeRow(row)) };
+        } catch (e) {
+            return { success: false, error: `执行查询失败: ${e}` };
+        }
+    }
+
+    async getMessageCount(username: string): Promise<WcdbResult<number>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const tableName = `Msg_${createHash('md5').update(username).digest('hex')}`;
+            let count = 0;
+            for (const db of this.messageDbs) {
+                if (!this.hasTable(db, tableName)) continue;
+                const row = db.prepare(`SELECT count(*) AS cnt FROM ${tableName}`).get() as { cnt: bigint };
+                count += Number(row.cnt);
+            }
+            return { success: true, data: count };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async getMessageCreateTime(sessionId: string, by: 'serverId' | 'localId', id: string): Promise<WcdbResult<number | null>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const tableName = `Msg_${createHash('md5').update(sessionId).digest('hex')}`;
+            const column = by === 'localId' ? 'local_id' : 'server_id';
+            let found: number | null = null;
+            for (const db of this.messageDbs) {
+                if (!this.hasTable(db, tableName)) continue;
+                const time = db.prepare(`SELECT create_time FROM ${tableName} WHERE ${column} = ? ORDER BY create_time DESC LIMIT 1`)
+                    .pluck()
+                    .get(BigInt(id));
+                if (time !== undefined && time !== null) found = Math.max(found ?? 0, Number(time));
+            }
+            return { success: true, data: found };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async getContact(username: string): Promise<WcdbResult<any | null>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const row = this.contactDb!.prepare('SELECT * FROM contact WHERE username = ?').get(username) as any;
+            if (!row) {
+                return { success: true, data: null };
+            }
+            // extra_buffer 等二进制字段对调用方没有意义
+            const contact = this.normalizeRow(row);
+            delete contact.extra_buffer;
+            return { success: true, data: contact };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async getAvatarUrls(usernames: string[]): Promise<WcdbResult<Record<string, string>>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const map: Record<string, string> = {};
+            const CHUNK = 500;
+            for (let i = 0; i < usernames.length; i += CHUNK) {
+                const chunk = usernames.slice(i, i + CHUNK);
+                const placeholders = chunk.map(() => '?').join(',');
+                const rows = this.contactDb!
+                    .prepare(`SELECT username, big_head_url, small_head_url FROM contact WHERE username IN (${placeholders})`)
+                    .all(...chunk) as any[];
+                for (const row of rows) {
+                    const url = row.big_head_url || row.small_head_url;
+                    if (url) map[row.username] = url;
+                }
+            }
+            return { success: true, data: map };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    async listMessageDbs(): Promise<WcdbResult<string[]>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+        return { success: true, data: [...this.messageDbPaths] };
+    }
+
+    async listMediaDbs(): Promise<WcdbResult<string[]>> {
+        if (!this.isConnected() || !this.dbStoragePath) {
+            return { success: false, error: '数据库未连接' };
+        }
+        return { success: true, data: listDbFiles(this.dbStoragePath, /^media_\d+\.db$/i) };
+    }
+}
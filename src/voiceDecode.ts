@@ -0,0 +1,72 @@
+/**
+ * WeFlow API CLI - 语音解码
+ * 微信语音为腾讯版 SILK v3（文件头 #!SILK_V3 前多一个 0x02 字节），采样率 24000Hz 单声道，
+ * 通过 silk-wasm（可直接识别腾讯版文件头）在进程内解码为 PCM（s16le），不依赖外部程序
+ */
+import { decode, isSilk } from 'silk-wasm';
+import type { WcdbResult } from './dataSource.js';
+
+export type VoiceFormat = 'wav' | 'pcm' | 'silk';
+
+export const VOICE_FORMATS: readonly VoiceFormat[] = ['wav', 'pcm', 'silk'];
+
+export const VOICE_SAMPLE_RATE = 24000;
+
+export interface DecodedVoice {
+    data: Buffer;
+    mimeType: string;
+    /** 时长（毫秒），silk 格式不解码时为 null */
+    duration: number | null;
+}
+
+const VOICE_MIME_TYPES: Record<VoiceFormat, string> = {
+    wav: 'audio/wav',
+    pcm: `audio/L16;rate=${VOICE_SAMPLE_RATE};channels=1`,
+    silk: 'audio/silk',
+};
+
+/**
+ * 将语音数据转换为指定格式
+ */
+export async function decodeVoice(silk: Buffer, format: VoiceFormat): Promise<WcdbResult<DecodedVoice>> {
+    if (!isSilk(silk)) {
+        return { success: false, error: '语音数据不是 SILK v3 格式' };
+    }
+    if (format === 'silk') {
+        return { success: true, data: { data: silk, mimeType: VOICE_MIME_TYPES.silk, duration: null } };
+    }
+
+    let pcm: Buffer;
+    let duration: number;
+    try {
+        const decoded = await decode(silk, VOICE_SAMPLE_RATE);
+        pcm = Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength);
+        duration = decoded.duration;
+    } catch (e) {
+        return { success: false, error: `SILK 解码失败: ${e}` };
+    }
+
+    const data = format === 'wav' ? Buffer.concat([createWavHeader(pcm.length), pcm]) : pcm;
+    return { success: true, data: { data, mimeType: VOICE_MIME_TYPES[format], duration } };
+}
+
+/**
+ * 44 字节的 PCM WAV 文件头（16 位单声道）
+ */
+function createWavHeader(dataLength: number): Buffer {
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(36 + dataLength, 4);
+    header.write('WAVE', 8, 'latin1');
+    header.write('fmt ', 12, 'latin1');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(1, 22); // 单声道
+    header.writeUInt32LE(VOICE_SAMPLE_RATE, 24);
+    header.writeUInt32LE(VOICE_SAMPLE_RATE * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36, 'latin1');
+    header.writeUInt32LE(dataLength, 40);
+    return header;
+}
@@ -2,60 +2,48 @@
  * WeFlow API CLI - WCDB Core 服务
  * 封装 WCDB DLL 的调用，提供数据库操作接口
  * 基于原项目 electron/services/wcdbCore.ts 简化实现
+ *
+ * DLL 句柄由 wcdbWorker 工作线程持有，WcdbCore 是主线程中的异步代理：
+ * 调用以消息形式发送到工作线程，工作线程崩溃时自动重启并重新打开账号。
+ * 所有账号共用一个工作线程和调用队列，每个账号对应一个 WcdbSource（DataSource 实现）
  */
-import { join, dirname } from 'path';
-import { existsSync, mkdirSync, readdirSync, statSync, appendFileSync, readFileSync, writeFileSync } from 'fs';
-import { execSync } from 'child_process';
-import { uptime } from 'os';
+import { Worker } from 'worker_threads';
+import { join } from 'path';
+import { existsSync, mkdirSync, appendFileSync } from 'fs';
 import { getConfig } from './config.js';
+import type { DataSource, WcdbResult } from './dataSource.js';
+import type { WcdbNativeOptions } from './wcdbNative.js';
+import type { WcdbWorkerRequest, WcdbWorkerResponse } from './wcdbWorker.js';
+import { OpScheduler, type QueueStats } from './opScheduler.js';
+
+interface PendingCall {
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+}
 
-interface WcdbResult<T = any> {
-    success: boolean;
-    data?: T;
-    error?: string;
+interface OpenedAccount {
+    dbPath: string;
+    hexKey: string;
 }
 
 export class WcdbCore {
-    private resourcesPath: string;
+    private options: WcdbNativeOptions;
     private logEnabled: boolean;
     private logDir: string;
-    private lib: any = null;
-    private koffi: any = null;
-    private initialized = false;
-    private handle: number | null = null;
-    private currentPath: string | null = null;
-    private currentKey: string | null = null;
-    private currentWxid: string | null = null;
-    private opChain: Promise<void> = Promise.resolve();
-    private lastDllLogTime = 0;
-
-    // DLL 函数引用
-    private wcdbInit: any = null;
-    private wcdbShutdown: any = null;
-    private wcdbOpenAccount: any = null;
-    private wcdbCloseAccount: any = null;
-    private wcdbSetMyWxid: any = null;
-    private wcdbFreeString: any = null;
-    private wcdbGetSessions: any = null;
-    private wcdbGetMessages: any = null;
-    private wcdbGetNewMessages: any = null;
-    private wcdbGetMessageCount: any = null;
-    private wcdbGetDisplayNames: any = null;
-    private wcdbGetAvatarUrls: any = null;
-    private wcdbGetContact: any = null;
-    private wcdbGetGroupMembers: any = null;
-    private wcdbGetGroupNicknames: any = null;
-    private wcdbOpenMessageCursor: any = null;
-    private wcdbFetchMessageBatch: any = null;
-    private wcdbCloseMessageCursor: any = null;
-    private wcdbExecQuery: any = null;
-    private wcdbListMessageDbs: any = null;
-    private wcdbListMediaDbs: any = null;
-    private wcdbStartMonitorPipe: any = null;
-    private wcdbStopMonitorPipe: any = null;
-    private wcdbGetLogs: any = null;
-
-    private monitorCallback: ((type: string, json: string) => void) | null = null;
+    private worker: Worker | null = null;
+    private pending: Map<number, PendingCall> = new Map();
+    private requestIdCounter = 0;
+    private scheduler = new OpScheduler();
+    private accounts: Map<string, OpenedAccount> = new Map();
+    private connectedAccounts: Set<string> = new Set();
+    private monitorAvailable = false;
+    private libraryLoaded = false;
+    private shuttingDown = false;
+    private workerRestartTimer: ReturnType<typeof setTimeout> | null = null;
+    private workerRestartCount = 0;
+
+    // 管道通知不区分账号，广播给所有注册了监听的账号
+    private monitorListeners: Map<string, (type: string, json: string) => void> = new Map();
     private monitorPipeClient: any = null;
     private monitorReconnectTimer: ReturnType<typeof setTimeout> | null = null;
     private monitorPipeConnected = false;
@@ -63,7 +51,11 @@ export class WcdbCore {
 
     constructor() {
         const config = getConfig();
-        this.resourcesPath = config.resourcesPath;
+        this.options = {
+            resourcesPath: config.resourcesPath,
+            logEnabled: config.logEnabled,
+            logDir: config.logDir,
+        };
         this.logEnabled = config.logEnabled;
         this.logDir = config.logDir;
     }
@@ -81,532 +73,268 @@ export class WcdbCore {
     }
 
     private runSerialized<T>(fn: () => Promise<T> | T): Promise<T> {
-        const run = this.opChain.then(() => fn());
-        this.opChain = run.then(
-            () => undefined,
-            () => undefined
-        );
-        return run;
+        return this.scheduler.run(fn);
     }
 
-    private logDllDiagnostics(reason: string): void {
-        if (!this.wcdbGetLogs) return;
-        const now = Date.now();
-        if (now - this.lastDllLogTime < 5000) return;
-        this.lastDllLogTime = now;
+    getQueueStats(): QueueStats {
+        return this.scheduler.getStats();
+    }
 
-        try {
-            const outPtr = [null as any];
-            const result = this.wcdbGetLogs(outPtr);
-            if (result !== 0) {
-                this.writeLog(`wcdb_get_logs failed (${reason}): ${result}`, true);
-                return;
-            }
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (jsonStr) {
-                this.writeLog(`wcdb_get_logs (${reason}): ${jsonStr}`, true);
+    // ===== 工作线程管理 =====
+
+    private ensureWorker(): Worker {
+        if (this.worker) return this.worker;
+
+        // 开发模式（tsx）下工作线程不会继承 tsx 加载器，先注册再加载 .ts 源文件
+        const isSource = import.meta.url.endsWith('.ts');
+        const entry = new URL(`./wcdbWorker${isSource ? '.ts' : '.js'}`, import.meta.url);
+        const worker = isSource
+            ? new Worker(
+                `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); });`,
+                { eval: true, workerData: this.options }
+            )
+            : new Worker(entry, { workerData: this.options });
+
+        worker.on('message', (response: WcdbWorkerResponse) => {
+            const call = this.pending.get(response.id);
+            if (!call) return;
+            this.pending.delete(response.id);
+            if (response.error !== undefined) {
+                call.reject(new Error(response.error));
             } else {
-                this.writeLog(`wcdb_get_logs (${reason}): empty`, true);
+                call.resolve(response.result);
             }
-        } catch (e) {
-            this.writeLog(`wcdb_get_logs threw (${reason}): ${e}`, true);
-        }
-    }
-
-    private getDllPath(): string {
-        const candidates = [
-            join(this.resourcesPath, 'wcdb_api.dll'),
-            join(process.cwd(), 'resources', 'wcdb_api.dll'),
-        ];
-
-        for (const path of candidates) {
-            if (existsSync(path)) return path;
-        }
+        });
 
-        return candidates[0];
-    }
+        worker.on('error', (err) => {
+            this.writeLog(`WCDB 工作线程错误: ${err}`, true);
+        });
 
-    private findSessionDb(dir: string, depth = 0): string | null {
-        if (depth > 5) return null;
+        worker.on('exit', (code) => {
+            if (this.worker !== worker) return;
+            this.worker = null;
+            this.connectedAccounts.clear();
+            this.libraryLoaded = false;
 
-        try {
-            const entries = readdirSync(dir);
-
-            for (const entry of entries) {
-                if (entry.toLowerCase() === 'session.db') {
-                    const fullPath = join(dir, entry);
-                    if (statSync(fullPath).isFile()) {
-                        return fullPath;
-                    }
-                }
+            const error = new Error(`WCDB 工作线程已退出 (code=${code})`);
+            for (const call of this.pending.values()) {
+                call.reject(error);
             }
+            this.pending.clear();
 
-            for (const entry of entries) {
-                const fullPath = join(dir, entry);
-                try {
-                    if (statSync(fullPath).isDirectory()) {
-                        const found = this.findSessionDb(fullPath, depth + 1);
-                        if (found) return found;
-                    }
-                } catch { }
+            if (!this.shuttingDown) {
+                this.writeLog(`WCDB 工作线程异常退出 (code=${code})，准备重启`, true);
+                this.scheduleWorkerRestart();
             }
-        } catch (e) {
-            this.writeLog(`查找 session.db 失败: ${e}`);
-        }
+        });
 
-        return null;
+        this.worker = worker;
+        return worker;
     }
 
-    private resolveDbStoragePath(basePath: string, wxid: string): string | null {
-        if (!basePath) return null;
-        const normalized = basePath.replace(/[\\/]+$/, '');
-
-        if (normalized.toLowerCase().endsWith('db_storage') && existsSync(normalized)) {
-            return normalized;
-        }
-
-        const direct = join(normalized, 'db_storage');
-        if (existsSync(direct)) {
-            return direct;
-        }
-
-        if (wxid) {
-            const viaWxid = join(normalized, wxid, 'db_storage');
-            if (existsSync(viaWxid)) {
-                return viaWxid;
-            }
-
-            try {
-                const entries = readdirSync(normalized);
-                const lowerWxid = wxid.toLowerCase();
-                const candidates = entries.filter((entry) => {
-                    const entryPath = join(normalized, entry);
-                    try {
-                        if (!statSync(entryPath).isDirectory()) return false;
-                    } catch {
-                        return false;
-                    }
-                    const lowerEntry = entry.toLowerCase();
-                    return lowerEntry === lowerWxid || lowerEntry.startsWith(`${lowerWxid}_`);
-                });
-
-                for (const entry of candidates) {
-                    const candidate = join(normalized, entry, 'db_storage');
-                    if (existsSync(candidate)) {
-                        return candidate;
-                    }
-                }
-            } catch { }
-        }
-
-        return null;
+    private post<T>(account: string | undefined, method: string, args: any[]): Promise<T> {
+        const worker = this.ensureWorker();
+        const id = ++this.requestIdCounter;
+        return new Promise<T>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            const request: WcdbWorkerRequest = { id, account, method, args };
+            worker.postMessage(request);
+        });
     }
 
-    async initialize(): Promise<boolean> {
-        return this.runSerialized(() => this.initializeInternal());
+    /** 与账号无关的调用（初始化、管道服务） */
+    private invoke<T>(method: string, ...args: any[]): Promise<T> {
+        return this.runSerialized(() => this.post<T>(undefined, method, args));
     }
 
-    private async initializeInternal(): Promise<boolean> {
-        if (this.initialized) return true;
+    private invokeFor<T>(account: string, method: string, ...args: any[]): Promise<T> {
+        return this.runSerialized(() => this.post<T>(account, method, args));
+    }
 
+    async invokeQuery<T>(account: string, method: string, ...args: any[]): Promise<WcdbResult<T>> {
+        if (!this.isAccountConnected(account)) {
+            return { success: false, error: '数据库未连接' };
+        }
         try {
-            this.koffi = (await import('koffi')).default;
-            const dllPath = this.getDllPath();
-
-            if (!existsSync(dllPath)) {
-                this.writeLog(`WCDB DLL 不存在: ${dllPath}`, true);
-                return false;
-            }
-
-            this.writeLog(`加载 DLL: ${dllPath}`);
-
-            // 预加载依赖 DLL
-            const dllDir = dirname(dllPath);
-            const wcdbCorePath = join(dllDir, 'WCDB.dll');
-            if (existsSync(wcdbCorePath)) {
-                try {
-                    this.koffi.load(wcdbCorePath);
-                    this.writeLog('预加载 WCDB.dll 成功');
-                } catch (e) {
-                    this.writeLog(`预加载 WCDB.dll 失败: ${e}`);
-                }
-            }
+            return await this.invokeFor<WcdbResult<T>>(account, method, ...args);
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
 
-            const sdl2Path = join(dllDir, 'SDL2.dll');
-            if (existsSync(sdl2Path)) {
-                try {
-                    this.koffi.load(sdl2Path);
-                    this.writeLog('预加载 SDL2.dll 成功');
-                } catch (e) {
-                    this.writeLog(`预加载 SDL2.dll 失败: ${e}`);
+    /**
+     * 工作线程崩溃后重启并重新打开账号，重试间隔逐步增加（最长 30 秒）
+     */
+    private scheduleWorkerRestart(): void {
+        if (this.workerRestartTimer || this.shuttingDown) return;
+
+        const delay = Math.min(1000 * 2 ** this.workerRestartCount, 30000);
+        this.workerRestartCount++;
+
+        this.workerRestartTimer = setTimeout(async () => {
+            this.workerRestartTimer = null;
+            if (this.shuttingDown || this.accounts.size === 0) return;
+
+            for (const [wxid, account] of Array.from(this.accounts)) {
+                const reopened = await this.openAccount(account.dbPath, account.hexKey, wxid);
+                if (!reopened) {
+                    this.writeLog(`WCDB 工作线程重启后重新打开账号 ${wxid} 失败，稍后重试`, true);
+                    this.scheduleWorkerRestart();
+                    return;
                 }
             }
 
-            this.lib = this.koffi.load(dllPath);
-
-            // 定义函数
-            this.wcdbInit = this.lib.func('int32 wcdb_init()');
-            this.wcdbShutdown = this.lib.func('int32 wcdb_shutdown()');
-            this.wcdbOpenAccount = this.lib.func('int32 wcdb_open_account(const char* path, const char* key, _Out_ int64* handle)');
-            this.wcdbCloseAccount = this.lib.func('int32 wcdb_close_account(int64 handle)');
-            this.wcdbFreeString = this.lib.func('void wcdb_free_string(void* ptr)');
-            this.wcdbGetSessions = this.lib.func('int32 wcdb_get_sessions(int64 handle, _Out_ void** outJson)');
-            this.wcdbGetMessages = this.lib.func('int32 wcdb_get_messages(int64 handle, const char* username, int32 limit, int32 offset, _Out_ void** outJson)');
-            this.wcdbGetMessageCount = this.lib.func('int32 wcdb_get_message_count(int64 handle, const char* username, _Out_ int32* outCount)');
-            this.wcdbGetDisplayNames = this.lib.func('int32 wcdb_get_display_names(int64 handle, const char* usernamesJson, _Out_ void** outJson)');
-            this.wcdbGetAvatarUrls = this.lib.func('int32 wcdb_get_avatar_urls(int64 handle, const char* usernamesJson, _Out_ void** outJson)');
-            this.wcdbGetContact = this.lib.func('int32 wcdb_get_contact(int64 handle, const char* username, _Out_ void** outJson)');
-            this.wcdbOpenMessageCursor = this.lib.func('int32 wcdb_open_message_cursor(int64 handle, const char* sessionId, int32 batchSize, int32 ascending, int32 beginTimestamp, int32 endTimestamp, _Out_ int64* outCursor)');
-            this.wcdbFetchMessageBatch = this.lib.func('int32 wcdb_fetch_message_batch(int64 handle, int64 cursor, _Out_ void** outJson, _Out_ int32* outHasMore)');
-            this.wcdbCloseMessageCursor = this.lib.func('int32 wcdb_close_message_cursor(int64 handle, int64 cursor)');
-            this.wcdbExecQuery = this.lib.func('int32 wcdb_exec_query(int64 handle, const char* kind, const char* path, const char* sql, _Out_ void** outJson)');
-            this.wcdbListMessageDbs = this.lib.func('int32 wcdb_list_message_dbs(int64 handle, _Out_ void** outJson)');
-            this.wcdbListMediaDbs = this.lib.func('int32 wcdb_list_media_dbs(int64 handle, _Out_ void** outJson)');
-
-            try {
-                this.wcdbSetMyWxid = this.lib.func('int32 wcdb_set_my_wxid(int64 handle, const char* wxid)');
-            } catch {
-                this.wcdbSetMyWxid = null;
-            }
-
-            try {
-                this.wcdbGetGroupMembers = this.lib.func('int32 wcdb_get_group_members(int64 handle, const char* chatroomId, _Out_ void** outJson)');
-            } catch {
-                this.wcdbGetGroupMembers = null;
-            }
-
-            try {
-                this.wcdbGetGroupNicknames = this.lib.func('int32 wcdb_get_group_nicknames(int64 handle, const char* chatroomId, _Out_ void** outJson)');
-            } catch {
-                this.wcdbGetGroupNicknames = null;
-            }
-
-            try {
-                this.wcdbGetLogs = this.lib.func('int32 wcdb_get_logs(_Out_ void** outJson)');
-            } catch {
-                this.wcdbGetLogs = null;
-            }
-
-            // Monitor pipe functions
-            try {
-                this.wcdbStartMonitorPipe = this.lib.func('int32 wcdb_start_monitor_pipe()');
-                this.wcdbStopMonitorPipe = this.lib.func('void wcdb_stop_monitor_pipe()');
-                this.writeLog('Monitor pipe functions loaded');
-            } catch {
-                this.wcdbStartMonitorPipe = null;
-                this.wcdbStopMonitorPipe = null;
-            }
+            this.workerRestartCount = 0;
+            this.writeLog('WCDB 工作线程已重启，账号已重新打开', true);
 
-            // 初始化 WCDB
-            const initResult = this.wcdbInit();
-            if (initResult !== 0) {
-                this.writeLog(`WCDB 初始化失败: ${initResult}`, true);
-                return false;
+            // 管道服务端状态随旧线程一起丢失，重新走一遍启动流程
+            if (this.monitorListeners.size > 0 && !this.monitorStopping) {
+                this.startMonitorPipe();
             }
+        }, delay);
+    }
 
-            this.initialized = true;
-            this.writeLog('WCDB 初始化成功');
-            return true;
+    async initialize(): Promise<boolean> {
+        try {
+            return await this.invoke<boolean>('initialize');
         } catch (e) {
             this.writeLog(`WCDB 初始化异常: ${e}`, true);
             return false;
         }
     }
 
-    async open(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
-        return this.runSerialized(async () => {
+    async openAccount(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
+        this.shuttingDown = false;
         try {
-            if (!this.initialized) {
-                const initOk = await this.initializeInternal();
-                if (!initOk) return false;
-            }
-
-            if (
-                this.handle !== null &&
-                this.currentPath === dbPath &&
-                this.currentKey === hexKey &&
-                this.currentWxid === wxid
-            ) {
-                return true;
-            }
-
-            if (this.handle !== null) {
-                this.closeInternal();
-            }
-
-            const dbStoragePath = this.resolveDbStoragePath(dbPath, wxid);
-            this.writeLog(`open dbPath=${dbPath} wxid=${wxid} dbStorage=${dbStoragePath || 'null'}`);
-
-            if (!dbStoragePath || !existsSync(dbStoragePath)) {
-                this.writeLog(`数据库目录不存在: ${dbPath}`, true);
-                return false;
-            }
-
-            const sessionDbPath = this.findSessionDb(dbStoragePath);
-            this.writeLog(`sessionDb=${sessionDbPath || 'null'}`);
-
-            if (!sessionDbPath) {
-                this.writeLog('未找到 session.db 文件', true);
-                return false;
-            }
-
-            const handleOut = [0];
-            const result = this.wcdbOpenAccount(sessionDbPath, hexKey, handleOut);
-
-            if (result !== 0) {
-                this.writeLog(`打开数据库失败: ${result}`, true);
-                return false;
-            }
-
-            this.handle = handleOut[0];
-            this.currentPath = dbPath;
-            this.currentKey = hexKey;
-            this.currentWxid = wxid;
-
-            if (this.handle <= 0) {
-                this.writeLog('无效的数据库句柄', true);
-                return false;
-            }
-
-            // 设置 myWxid
-            if (this.wcdbSetMyWxid) {
-                this.wcdbSetMyWxid(this.handle, wxid);
+            const opened = await this.invokeFor<boolean>(wxid, 'open', dbPath, hexKey, wxid);
+            this.libraryLoaded = await this.invoke<boolean>('isInitialized');
+            if (opened) {
+                this.accounts.set(wxid, { dbPath, hexKey });
+                this.connectedAccounts.add(wxid);
+                this.monitorAvailable = await this.invoke<boolean>('hasMonitorPipe');
+            } else {
+                this.connectedAccounts.delete(wxid);
             }
-
-            this.writeLog(`数据库打开成功, handle=${this.handle}`);
-            return true;
+            return opened;
         } catch (e) {
             this.writeLog(`打开数据库异常: ${e}`, true);
+            this.connectedAccounts.delete(wxid);
             return false;
         }
-        });
     }
 
-    private closeInternal(): void {
-        if (this.handle !== null) {
-            try {
-                this.wcdbCloseAccount(this.handle);
-            } catch { }
-            this.handle = null;
-            this.currentPath = null;
-            this.currentKey = null;
-            this.currentWxid = null;
+    /**
+     * 关闭账号句柄后重新打开，用于数据库文件被轮换或锁定后的恢复。
+     * 与 closeAccount 不同，不会移除监听，也不会在最后一个账号时停止工作线程
+     */
+    async reopenAccount(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
+        this.connectedAccounts.delete(wxid);
+        if (this.worker) {
+            await this.invokeFor(wxid, 'close').catch(() => undefined);
         }
+        return this.openAccount(dbPath, hexKey, wxid);
     }
 
-    close(): void {
-        void this.runSerialized(() => {
-            this.closeInternal();
-        });
+    /**
+     * 关闭单个账号；最后一个账号关闭后停止工作线程
+     */
+    closeAccount(wxid: string): void {
+        this.removeMonitorListener(wxid);
+        this.accounts.delete(wxid);
+        this.connectedAccounts.delete(wxid);
+        if (this.accounts.size === 0) {
+            this.shutdown();
+        } else if (this.worker) {
+            void this.invokeFor(wxid, 'close').catch(() => undefined);
+        }
     }
 
     shutdown(): void {
-        void this.runSerialized(() => {
-            this.stopMonitor();
-            this.closeInternal();
-            if (this.wcdbShutdown) {
-                try {
-                    this.wcdbShutdown();
-                } catch { }
-            }
-            this.initialized = false;
-        });
+        this.shuttingDown = true;
+        this.stopMonitorPipe();
+        this.accounts.clear();
+        this.connectedAccounts.clear();
+        if (this.workerRestartTimer) {
+            clearTimeout(this.workerRestartTimer);
+            this.workerRestartTimer = null;
+        }
+
+        const worker = this.worker;
+        if (worker) {
+            void this.invoke('shutdown')
+                .catch(() => undefined)
+                .finally(() => {
+                    void worker.terminate();
+                });
+        }
     }
 
-    isConnected(): boolean {
-        return this.initialized && this.handle !== null;
+    isAccountConnected(wxid: string): boolean {
+        return this.connectedAccounts.has(wxid);
     }
 
-    private decodeJsonPtr(outPtr: any): string | null {
-        if (!outPtr) return null;
-        try {
-            const jsonStr = this.koffi.decode(outPtr, 'char', -1);
-            this.wcdbFreeString(outPtr);
-            return jsonStr;
-        } catch (e) {
-            try {
-                this.wcdbFreeString(outPtr);
-            } catch { }
-            return null;
-        }
+    isLibraryLoaded(): boolean {
+        return this.libraryLoaded;
     }
 
-    // Monitor 功能 — 带重试和自动重连
-    startMonitor(callback: (type: string, json: string) => void): boolean {
-        if (!this.wcdbStartMonitorPipe) {
+    // Monitor 功能 — 带重试和自动重连。第一个监听注册时启动管道，最后一个移除时停止
+    addMonitorListener(account: string, callback: (type: string, json: string) => void): boolean {
+        if (!this.monitorAvailable) {
             this.writeLog('startMonitor: wcdbStartMonitorPipe not available');
             return false;
         }
 
-        this.monitorStopping = false;
-        this.monitorCallback = callback;
-
-        // 先强力清理残留管道和可能的僵尸进程
-        this.cleanupStalePipes();
-
-        // 尝试启动管道服务，带重试
-        const started = this.tryStartPipeWithRetry();
-        if (started) {
-            this.writeLog('Monitor pipe server started, connecting client...');
-            this.connectMonitorPipe(0);
-            return true;
+        const alreadyRunning = this.monitorListeners.size > 0;
+        this.monitorListeners.set(account, callback);
+        if (!alreadyRunning) {
+            this.startMonitorPipe();
         }
 
-        this.writeLog('startMonitor: pipe server failed after retries, will keep retrying in background');
         // 即使首次失败也返回 true，后台持续重试
-        this.scheduleMonitorRetry();
         return true;
     }
 
-    /**
-     * 强力清理残留管道：
-     * 1. 先调 DLL stop 清理本进程内部状态
-     * 2. 检测 \\.\pipe\weflow_monitor 是否已存在
-     * 3. 如果存在，尝试杀掉持有管道的僵尸进程（上一次异常退出的 node/tsx）
-     * 4. 等待系统释放管道资源
-     */
-    private cleanupStalePipes(): void {
-        // Step 0: marker-based stale instance cleanup (same boot, previous PID)
-        try {
-            const currentPid = process.pid;
-            const bootTimeMs = Date.now() - Math.floor(uptime() * 1000);
-            const markerPath = join(this.logDir, 'instance.json');
-
-            if (existsSync(markerPath)) {
-                try {
-                    const raw = readFileSync(markerPath, { encoding: 'utf8' }).trim();
-                    if (raw) {
-                        const marker = JSON.parse(raw) as { pid?: number; bootTimeMs?: number };
-                        const sameBoot = typeof marker.bootTimeMs === 'number' && Math.abs(marker.bootTimeMs - bootTimeMs) < 5 * 60 * 1000;
-                        if (sameBoot && marker.pid && marker.pid !== currentPid) {
-                            try {
-                                execSync(`powershell -NoProfile -Command "Get-Process -Id ${marker.pid} -ErrorAction SilentlyContinue | Out-Null"`, { timeout: 2000, windowsHide: true });
-                                this.writeLog(`cleanupStalePipes: killing stale CLI PID from marker: ${marker.pid}`, true);
-                                execSync(`taskkill /PID ${marker.pid} /F`, { timeout: 3000, windowsHide: true });
-                            } catch {
-                                // process likely already gone
-                            }
-                        }
-                    }
-                } catch { }
-            }
-
-            if (!existsSync(this.logDir)) {
-                mkdirSync(this.logDir, { recursive: true });
-            }
-            writeFileSync(markerPath, JSON.stringify({ pid: currentPid, bootTimeMs }), { encoding: 'utf8' });
-        } catch (e) {
-            this.writeLog(`cleanupStalePipes: marker check failed (non-critical): ${e}`);
-        }
-
-        // 步骤1: 清理 DLL 内部状态（无论如何先调一次 stop）
-        if (this.wcdbStopMonitorPipe) {
-            try {
-                this.wcdbStopMonitorPipe();
-                this.writeLog('cleanupStalePipes: called wcdb_stop_monitor_pipe to clean DLL state');
-            } catch { }
+    removeMonitorListener(account: string): void {
+        if (!this.monitorListeners.delete(account)) return;
+        if (this.monitorListeners.size === 0) {
+            this.stopMonitorPipe();
         }
+    }
 
-        // 步骤2: 检测管道是否被其他进程占用
-        try {
-            const currentPid = process.pid;
-
-            // 检查管道是否存在
-            let pipeExists = false;
-            try {
-                const check = execSync(
-                    'powershell -NoProfile -Command "Test-Path \\\\\\\\.\\\\pipe\\\\weflow_monitor"',
-                    { encoding: 'utf8', timeout: 3000, windowsHide: true }
-                ).trim();
-                pipeExists = check === 'True';
-            } catch { }
-
-            if (pipeExists) {
-                this.writeLog('cleanupStalePipes: stale pipe \\\\.\\.pipe\\weflow_monitor detected!', true);
-
-                // 步骤3: 查找并杀掉可能持有管道的僵尸进程（排除当前进程）
-                try {
-                    // 查找所有 node.exe 和 tsx 相关进程
-                    const psCommand = `powershell -NoProfile -Command "Get-Process -Name 'node','tsx' -ErrorAction SilentlyContinue | Where-Object { $_.Id -ne ${currentPid} } | Select-Object -ExpandProperty Id"`;
-                    const pidsStr = execSync(psCommand, { encoding: 'utf8', timeout: 3000, windowsHide: true }).trim();
-
-                    if (pidsStr) {
-                        const pids = pidsStr.split(/\r?\n/).map((s: string) => s.trim()).filter((s: string) => s);
-                        this.writeLog(`cleanupStalePipes: found ${pids.length} stale process(es): ${pids.join(', ')}`, true);
-
-                        for (const pid of pids) {
-                            try {
-                                execSync(`taskkill /PID ${pid} /F`, { timeout: 3000, windowsHide: true });
-                                this.writeLog(`cleanupStalePipes: killed stale process PID ${pid}`, true);
-                            } catch (e) {
-                                this.writeLog(`cleanupStalePipes: failed to kill PID ${pid}: ${e}`);
-                            }
-                        }
+    private hasMonitorListeners(): boolean {
+        return this.monitorListeners.size > 0;
+    }
 
-                        // 等待系统释放管道资源
-                        const waitUntil = Date.now() + 1000;
-                        while (Date.now() < waitUntil) { /* busy wait for OS pipe cleanup */ }
-                        this.writeLog('cleanupStalePipes: waited 1s for OS pipe cleanup');
-                    } else {
-                        this.writeLog('cleanupStalePipes: pipe exists but no stale node/tsx processes found');
-                        // 管道存在但找不到进程，可能是其他原因，等待一下再试
-                        const waitUntil = Date.now() + 500;
-                        while (Date.now() < waitUntil) { /* brief wait */ }
-                    }
-                } catch (e) {
-                    this.writeLog(`cleanupStalePipes: process cleanup failed: ${e}`);
-                }
-            } else {
-                this.writeLog('cleanupStalePipes: no stale pipe detected, clean start');
-            }
-        } catch (e) {
-            this.writeLog(`cleanupStalePipes: check failed (non-critical): ${e}`);
+    private emitMonitor(type: string, json: string): void {
+        for (const listener of this.monitorListeners.values()) {
+            listener(type, json);
         }
     }
 
-    /**
-     * 尝试启动 DLL 管道服务器，每次尝试前都先 stop 清理残留
-     */
-    private tryStartPipeWithRetry(): boolean {
-        const MAX_RETRIES = 3;
-        const RETRY_DELAYS = [0, 200, 500]; // ms between retries
-
-        for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-            // 每次都先调 stop 清理（包括第一次！之前只有 retry 才清理，是 bug 来源）
-            if (this.wcdbStopMonitorPipe) {
-                try {
-                    this.wcdbStopMonitorPipe();
-                } catch { }
-            }
-
-            if (attempt > 0) {
-                this.writeLog(`startMonitor: retry attempt ${attempt + 1}/${MAX_RETRIES}, waiting ${RETRY_DELAYS[attempt]}ms...`);
-                // 同步等待一小段时间让系统释放管道资源
-                const waitUntil = Date.now() + RETRY_DELAYS[attempt];
-                while (Date.now() < waitUntil) { /* busy wait, short duration only */ }
-            }
+    private startMonitorPipe(): void {
+        this.monitorStopping = false;
 
-            try {
-                const result = this.wcdbStartMonitorPipe();
-                if (result === 0) {
-                    this.writeLog(`startMonitor: wcdb_start_monitor_pipe succeeded on attempt ${attempt + 1}`);
-                    return true;
-                }
-                this.writeLog(`startMonitor: wcdb_start_monitor_pipe returned ${result} on attempt ${attempt + 1}`);
-            } catch (e) {
-                this.writeLog(`startMonitor: wcdb_start_monitor_pipe threw on attempt ${attempt + 1}: ${e}`);
+        // 清理残留管道和启动管道服务都在工作线程中执行（含同步等待），不阻塞主线程
+        this.invoke<boolean>('startMonitorPipe').then((started) => {
+            if (this.monitorStopping || !this.hasMonitorListeners()) return;
+            if (started) {
+                this.writeLog('Monitor pipe server started, connecting client...');
+                this.connectMonitorPipe(0);
+            } else {
+                this.writeLog('startMonitor: pipe server failed after retries, will keep retrying in background');
+                this.scheduleMonitorRetry();
             }
-        }
-
-        this.logDllDiagnostics('startMonitor: wcdb_start_monitor_pipe failed after retries');
-        return false;
+        }).catch((e) => {
+            this.writeLog(`startMonitor: worker call failed: ${e}`);
+            this.scheduleMonitorRetry();
+        });
     }
 
     /**
      * 连接到命名管道客户端，带自动重连
      */
     private connectMonitorPipe(retryCount: number): void {
-        if (this.monitorStopping || !this.monitorCallback) return;
+        if (this.monitorStopping || !this.hasMonitorListeners()) return;
 
         const MAX_CONNECT_RETRIES = 5;
         const PIPE_PATH = '\\\\.\\pipe\\weflow_monitor';
@@ -615,10 +343,10 @@ export class WcdbCore {
 
         this.monitorReconnectTimer = setTimeout(() => {
             this.monitorReconnectTimer = null;
-            if (this.monitorStopping || !this.monitorCallback) return;
+            if (this.monitorStopping || !this.hasMonitorListeners()) return;
 
             import('net').then((net) => {
-                if (this.monitorStopping || !this.monitorCallback) return;
+                if (this.monitorStopping || !this.hasMonitorListeners()) return;
 
                 this.writeLog(`Monitor pipe connecting (attempt ${retryCount + 1})...`);
 
@@ -636,13 +364,12 @@ export class WcdbCore {
                     buffer = lines.pop() || '';
 
                     for (const line of lines) {
-                        if (line.trim() && this.monitorCallback) {
+                        if (line.trim() && this.hasMonitorListeners()) {
+                            let action = 'update';
                             try {
-                                const parsed = JSON.parse(line);
-                                this.monitorCallback(parsed.action || 'update', line);
-                            } catch {
-                                this.monitorCallback('update', line);
-                            }
+                                action = JSON.parse(line).action || 'update';
+                            } catch { }
+                            this.emitMonitor(action, line);
                         }
                     }
                 });
@@ -654,7 +381,7 @@ export class WcdbCore {
                     this.monitorPipeConnected = false;
 
                     // 连接失败时自动重试
-                    if (!this.monitorStopping && this.monitorCallback) {
+                    if (!this.monitorStopping && this.hasMonitorListeners()) {
                         if (retryCount < MAX_CONNECT_RETRIES) {
                             this.writeLog(`Monitor pipe will reconnect (attempt ${retryCount + 2}/${MAX_CONNECT_RETRIES + 1})...`);
                             this.connectMonitorPipe(retryCount + 1);
@@ -672,7 +399,7 @@ export class WcdbCore {
                     this.monitorPipeConnected = false;
 
                     // 非主动关闭时自动重连
-                    if (!this.monitorStopping && this.monitorCallback) {
+                    if (!this.monitorStopping && this.hasMonitorListeners()) {
                         this.writeLog('Monitor pipe unexpectedly closed, will restart...');
                         this.scheduleMonitorRetry();
                     }
@@ -687,7 +414,7 @@ export class WcdbCore {
      * 计划重新启动整个管道监控（stop → start → connect）
      */
     private scheduleMonitorRetry(): void {
-        if (this.monitorStopping || !this.monitorCallback) return;
+        if (this.monitorStopping || !this.hasMonitorListeners()) return;
 
         // 清理现有连接
         if (this.monitorPipeClient) {
@@ -700,20 +427,22 @@ export class WcdbCore {
         // 3 秒后重试整个流程
         this.monitorReconnectTimer = setTimeout(() => {
             this.monitorReconnectTimer = null;
-            if (this.monitorStopping || !this.monitorCallback) return;
+            if (this.monitorStopping || !this.hasMonitorListeners()) return;
 
             this.writeLog('Monitor: retrying full pipe startup...');
-            const started = this.tryStartPipeWithRetry();
-            if (started) {
-                this.connectMonitorPipe(0);
-            } else {
-                this.writeLog('Monitor: pipe restart failed, will notify callback to use fallback');
-                this.logDllDiagnostics('monitor: pipe restart failed');
-                // 通知上层监控不可用，让 wsService 启用轮询备用方案
-                if (this.monitorCallback) {
-                    this.monitorCallback('monitor_unavailable', '{}');
+            this.invoke<boolean>('restartMonitorPipe').then((started) => {
+                if (this.monitorStopping || !this.hasMonitorListeners()) return;
+                if (started) {
+                    this.connectMonitorPipe(0);
+                } else {
+                    this.writeLog('Monitor: pipe restart failed, will notify callback to use fallback');
+                    // 通知上层监控不可用，让 wsService 启用轮询备用方案
+                    this.emitMonitor('monitor_unavailable', '{}');
                 }
-            }
+            }).catch((e) => {
+                this.writeLog(`Monitor: pipe restart threw: ${e}`);
+                this.emitMonitor('monitor_unavailable', '{}');
+            });
         }, 3000);
     }
 
@@ -722,7 +451,7 @@ export class WcdbCore {
         return this.monitorPipeConnected && this.monitorPipeClient !== null;
     }
 
-    stopMonitor(): void {
+    private stopMonitorPipe(): void {
         this.monitorStopping = true;
         this.monitorPipeConnected = false;
 
@@ -738,68 +467,71 @@ export class WcdbCore {
             } catch { }
             this.monitorPipeClient = null;
         }
-        if (this.wcdbStopMonitorPipe) {
-            try {
-                this.wcdbStopMonitorPipe();
-            } catch { }
+        if (this.worker) {
+            void this.invoke('stopMonitorPipe').catch(() => undefined);
         }
-        this.monitorCallback = null;
+        this.monitorListeners.clear();
     }
+}
 
-    // ===== 数据库查询方法 =====
+/**
+ * 单个账号的 WCDB 数据源，调用经共享的 WcdbCore 转发到工作线程
+ */
+export class WcdbSource implements DataSource {
+    readonly kind = 'wcdb' as const;
+    private core: WcdbCore;
+    private wxid = '';
 
-    async getSessions(): Promise<WcdbResult<any[]>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected()) {
-            return { success: false, error: '数据库未连接' };
-        }
+    constructor(core: WcdbCore) {
+        this.core = core;
+    }
 
-        try {
-            const outPtr = [null as any];
-            const result = this.wcdbGetSessions(this.handle, outPtr);
+    async open(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
+        this.wxid = wxid;
+        return this.core.openAccount(dbPath, hexKey, wxid);
+    }
 
-            if (result !== 0) {
-                return { success: false, error: `获取会话失败: ${result}` };
-            }
+    async reopen(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
+        this.wxid = wxid;
+        return this.core.reopenAccount(dbPath, hexKey, wxid);
+    }
 
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (!jsonStr) {
-                return { success: false, error: '解析会话数据失败' };
-            }
+    shutdown(): void {
+        this.core.closeAccount(this.wxid);
+    }
 
-            const sessions = JSON.parse(jsonStr);
-            return { success: true, data: sessions };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+    isConnected(): boolean {
+        return this.core.isAccountConnected(this.wxid);
     }
 
-    async getDisplayNames(usernames: string[]): Promise<WcdbResult<Record<string, string>>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected()) {
-            return { success: false, error: '数据库未连接' };
-        }
+    isLibraryLoaded(): boolean {
+        return this.core.isLibraryLoaded();
+    }
 
-        try {
-            const outPtr = [null as any];
-            const result = this.wcdbGetDisplayNames(this.handle, JSON.stringify(usernames), outPtr);
+    startMonitor(callback: (type: string, json: string) => void): boolean {
+        return this.core.addMonitorListener(this.wxid, callback);
+    }
 
-            if (result !== 0) {
-                return { success: false, error: `获取昵称失败: ${result}` };
-            }
+    stopMonitor(): void {
+        this.core.removeMonitorListener(this.wxid);
+    }
 
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (!jsonStr) {
-                return { success: false, error: '解析昵称数据失败' };
-            }
+    isMonitorConnected(): boolean {
+        return this.core.isMonitorConnected();
+    }
 
-            const map = JSON.parse(jsonStr);
-            return { success: true, data: map };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+    getQueueStats(): QueueStats {
+        return this.core.getQueueStats();
+    }
+
+    // ===== 数据库查询方法 =====
+
+    async getSessions(): Promise<WcdbResult<any[]>> {
+        return this.core.invokeQuery(this.wxid, 'getSessions');
+    }
+
+    async getDisplayNames(usernames: string[]): Promise<WcdbResult<Record<string, string>>> {
+        return this.core.invokeQuery(this.wxid, 'getDisplayNames', usernames);
     }
 
     async openMessageCursor(
@@ -809,163 +541,58 @@ export class WcdbCore {
         beginTimestamp: number,
         endTimestamp: number
     ): Promise<WcdbResult<number>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected()) {
-            return { success: false, error: '数据库未连接' };
-        }
-
-        try {
-            const cursorOut = [0n];
-            const result = this.wcdbOpenMessageCursor(
-                this.handle,
-                sessionId,
-                batchSize,
-                ascending ? 1 : 0,
-                beginTimestamp,
-                endTimestamp,
-                cursorOut
-            );
-
-            if (result !== 0) {
-                return { success: false, error: `打开消息游标失败: ${result}` };
-            }
-
-            return { success: true, data: Number(cursorOut[0]) };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+        return this.core.invokeQuery(this.wxid, 'openMessageCursor', sessionId, batchSize, ascending, beginTimestamp, endTimestamp);
     }
 
     async fetchMessageBatch(cursor: number): Promise<WcdbResult<{ rows: any[]; hasMore: boolean }>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected()) {
-            return { success: false, error: '数据库未连接' };
-        }
-
-        try {
-            const outPtr = [null as any];
-            const hasMoreOut = [0];
-            const result = this.wcdbFetchMessageBatch(this.handle, cursor, outPtr, hasMoreOut);
-
-            if (result !== 0) {
-                return { success: false, error: `获取消息批次失败: ${result}` };
-            }
-
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (!jsonStr) {
-                return { success: true, data: { rows: [], hasMore: false } };
-            }
-
-            const rows = JSON.parse(jsonStr);
-            return { success: true, data: { rows, hasMore: hasMoreOut[0] === 1 } };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+        return this.core.invokeQuery(this.wxid, 'fetchMessageBatch', cursor);
     }
 
     async closeMessageCursor(cursor: number): Promise<WcdbResult<void>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected()) {
-            return { success: false, error: '数据库未连接' };
-        }
-
-        try {
-            this.wcdbCloseMessageCursor(this.handle, cursor);
-            return { success: true };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+        return this.core.invokeQuery(this.wxid, 'closeMessageCursor', cursor);
     }
 
     async getGroupNicknames(chatroomId: string): Promise<WcdbResult<Record<string, string>>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected() || !this.wcdbGetGroupNicknames) {
-            return { success: false, error: '数据库未连接或功能不可用' };
-        }
-
-        try {
-            const outPtr = [null as any];
-            const result = this.wcdbGetGroupNicknames(this.handle, chatroomId, outPtr);
-
-            if (result !== 0) {
-                return { success: false, error: `获取群昵称失败: ${result}` };
-            }
-
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (!jsonStr) {
-                return { success: true, data: {} };
-            }
-
-            const nicknames = JSON.parse(jsonStr);
-            return { success: true, data: nicknames };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+        return this.core.invokeQuery(this.wxid, 'getGroupNicknames', chatroomId);
     }
 
     /**
      * 获取群成员列表
      */
     async getGroupMembers(chatroomId: string): Promise<WcdbResult<any[]>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected() || !this.wcdbGetGroupMembers) {
-            return { success: false, error: '数据库未连接或功能不可用' };
-        }
-
-        try {
-            const outPtr = [null as any];
-            const result = this.wcdbGetGroupMembers(this.handle, chatroomId, outPtr);
-
-            if (result !== 0) {
-                return { success: false, error: `获取群成员失败: ${result}` };
-            }
+        return this.core.invokeQuery(this.wxid, 'getGroupMembers', chatroomId);
+    }
 
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (!jsonStr) {
-                return { success: true, data: [] };
-            }
+    async execQuery(kind: string, path: string | null, sql: string): Promise<WcdbResult<any[]>> {
+        return this.core.invokeQuery(this.wxid, 'execQuery', kind, path, sql);
+    }
 
-            const members = JSON.parse(jsonStr);
-            return { success: true, data: members };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+    async getMessageCount(username: string): Promise<WcdbResult<number>> {
+        return this.core.invokeQuery(this.wxid, 'getMessageCount', username);
     }
 
-    async execQuery(kind: string, path: string | null, sql: string): Promise<WcdbResult<any[]>> {
-        return this.runSerialized(async () => {
-        if (!this.isConnected()) {
-            return { success: false, error: '数据库未连接' };
-        }
+    async getMessageCreateTime(sessionId: string, by: 'serverId' | 'localId', id: string): Promise<WcdbResult<number | null>> {
+        return this.core.invokeQuery(this.wxid, 'getMessageCreateTime', sessionId, by, id);
+    }
 
-        try {
-            const outPtr = [null as any];
-            const result = this.wcdbExecQuery(this.handle, kind, path || '', sql, outPtr);
+    async getContact(username: string): Promise<WcdbResult<any | null>> {
+        return this.core.invokeQuery(this.wxid, 'getContact', username);
+    }
 
-            if (result !== 0) {
-                return { success: false, error: `执行查询失败: ${result}` };
-            }
+    async getAvatarUrls(usernames: string[]): Promise<WcdbResult<Record<string, string>>> {
+        return this.core.invokeQuery(this.wxid, 'getAvatarUrls', usernames);
+    }
 
-            const jsonStr = this.decodeJsonPtr(outPtr[0]);
-            if (!jsonStr) {
-                return { success: true, data: [] };
-            }
+    async listMessageDbs(): Promise<WcdbResult<string[]>> {
+        return this.core.invokeQuery(this.wxid, 'listMessageDbs');
+    }
 
-            const rows = JSON.parse(jsonStr);
-            return { success: true, data: rows };
-        } catch (e) {
-            return { success: false, error: String(e) };
-        }
-        });
+    async listMediaDbs(): Promise<WcdbResult<string[]>> {
+        return this.core.invokeQuery(this.wxid, 'listMediaDbs');
     }
 }
 
-// 单例实例
+// 单例实例（所有账号共用）
 let wcdbInstance: WcdbCore | null = null;
 
 export function getWcdbCore(): WcdbCore {
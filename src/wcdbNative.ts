@@ -0,0 +1,865 @@
+/**
+ * WeFlow API CLI - WCDB Native 绑定
+ * 通过 koffi 同步调用 WCDB DLL，只在 wcdbWorker 工作线程中使用，
+ * 主线程通过 WcdbCore 代理以消息方式访问
+ */
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync, appendFileSync, readFileSync, writeFileSync } from 'fs';
+import { execSync } from 'child_process';
+import { uptime } from 'os';
+import { createHash } from 'crypto';
+import type { WcdbResult } from './dataSource.js';
+import { resolveDbStoragePath, findDbFile } from './dbStorage.js';
+
+export interface WcdbNativeOptions {
+    resourcesPath: string;
+    logEnabled: boolean;
+    logDir: string;
+}
+
+interface OpenAccount {
+    handle: number;
+    dbPath: string;
+    hexKey: string;
+}
+
+export class WcdbNative {
+    private resourcesPath: string;
+    private logEnabled: boolean;
+    private logDir: string;
+    private lib: any = null;
+    private koffi: any = null;
+    private initialized = false;
+    // 每个账号一个 DLL 句柄，handle 为当前调用所选账号的句柄
+    private accounts: Map<string, OpenAccount> = new Map();
+    private currentWxid: string | null = null;
+    private handle: number | null = null;
+    private lastDllLogTime = 0;
+
+    // DLL 函数引用
+    private wcdbInit: any = null;
+    private wcdbShutdown: any = null;
+    private wcdbOpenAccount: any = null;
+    private wcdbCloseAccount: any = null;
+    private wcdbSetMyWxid: any = null;
+    private wcdbFreeString: any = null;
+    private wcdbGetSessions: any = null;
+    private wcdbGetMessages: any = null;
+    private wcdbGetNewMessages: any = null;
+    private wcdbGetMessageCount: any = null;
+    private wcdbGetDisplayNames: any = null;
+    private wcdbGetAvatarUrls: any = null;
+    private wcdbGetContact: any = null;
+    private wcdbGetGroupMembers: any = null;
+    private wcdbGetGroupNicknames: any = null;
+    private wcdbOpenMessageCursor: any = null;
+    private wcdbFetchMessageBatch: any = null;
+    private wcdbCloseMessageCursor: any = null;
+    private wcdbExecQuery: any = null;
+    private wcdbListMessageDbs: any = null;
+    private wcdbListMediaDbs: any = null;
+    private wcdbStartMonitorPipe: any = null;
+    private wcdbStopMonitorPipe: any = null;
+    private wcdbGetLogs: any = null;
+
+    constructor(options: WcdbNativeOptions) {
+        this.resourcesPath = options.resourcesPath;
+        this.logEnabled = options.logEnabled;
+        this.logDir = options.logDir;
+    }
+
+    private writeLog(message: string, force = false): void {
+        if (!force && !this.logEnabled) return;
+        const line = `[${new Date().toISOString()}] ${message}`;
+        console.log(line);
+        try {
+            if (!existsSync(this.logDir)) {
+                mkdirSync(this.logDir, { recursive: true });
+            }
+            appendFileSync(join(this.logDir, 'wcdb.log'), line + '\n', { encoding: 'utf8' });
+        } catch { }
+    }
+
+    private logDllDiagnostics(reason: string): void {
+        if (!this.wcdbGetLogs) return;
+        const now = Date.now();
+        if (now - this.lastDllLogTime < 5000) return;
+        this.lastDllLogTime = now;
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetLogs(outPtr);
+            if (result !== 0) {
+                this.writeLog(`wcdb_get_logs failed (${reason}): ${result}`, true);
+                return;
+            }
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (jsonStr) {
+                this.writeLog(`wcdb_get_logs (${reason}): ${jsonStr}`, true);
+            } else {
+                this.writeLog(`wcdb_get_logs (${reason}): empty`, true);
+            }
+        } catch (e) {
+            this.writeLog(`wcdb_get_logs threw (${reason}): ${e}`, true);
+        }
+    }
+
+    private getDllPath(): string {
+        const candidates = [
+            join(this.resourcesPath, 'wcdb_api.dll'),
+            join(process.cwd(), 'resources', 'wcdb_api.dll'),
+        ];
+
+        for (const path of candidates) {
+            if (existsSync(path)) return path;
+        }
+
+        return candidates[0];
+    }
+
+    async initialize(): Promise<boolean> {
+        if (this.initialized) return true;
+
+        try {
+            this.koffi = (await import('koffi')).default;
+            const dllPath = this.getDllPath();
+
+            if (!existsSync(dllPath)) {
+                this.writeLog(`WCDB DLL 不存在: ${dllPath}`, true);
+                return false;
+            }
+
+            this.writeLog(`加载 DLL: ${dllPath}`);
+
+            // 预加载依赖 DLL
+            const dllDir = dirname(dllPath);
+            const wcdbCorePath = join(dllDir, 'WCDB.dll');
+            if (existsSync(wcdbCorePath)) {
+                try {
+                    this.koffi.load(wcdbCorePath);
+                    this.writeLog('预加载 WCDB.dll 成功');
+                } catch (e) {
+                    this.writeLog(`预加载 WCDB.dll 失败: ${e}`);
+                }
+            }
+
+            const sdl2Path = join(dllDir, 'SDL2.dll');
+            if (existsSync(sdl2Path)) {
+                try {
+                    this.koffi.load(sdl2Path);
+                    this.writeLog('预加载 SDL2.dll 成功');
+                } catch (e) {
+                    this.writeLog(`预加载 SDL2.dll 失败: ${e}`);
+                }
+            }
+
+            this.lib = this.koffi.load(dllPath);
+
+            // 定义函数
+            this.wcdbInit = this.lib.func('int32 wcdb_init()');
+            this.wcdbShutdown = this.lib.func('int32 wcdb_shutdown()');
+            this.wcdbOpenAccount = this.lib.func('int32 wcdb_open_account(const char* path, const char* key, _Out_ int64* handle)');
+            this.wcdbCloseAccount = this.lib.func('int32 wcdb_close_account(int64 handle)');
+            this.wcdbFreeString = this.lib.func('void wcdb_free_string(void* ptr)');
+            this.wcdbGetSessions = this.lib.func('int32 wcdb_get_sessions(int64 handle, _Out_ void** outJson)');
+            this.wcdbGetMessages = this.lib.func('int32 wcdb_get_messages(int64 handle, const char* username, int32 limit, int32 offset, _Out_ void** outJson)');
+            this.wcdbGetMessageCount = this.lib.func('int32 wcdb_get_message_count(int64 handle, const char* username, _Out_ int32* outCount)');
+            this.wcdbGetDisplayNames = this.lib.func('int32 wcdb_get_display_names(int64 handle, const char* usernamesJson, _Out_ void** outJson)');
+            this.wcdbGetAvatarUrls = this.lib.func('int32 wcdb_get_avatar_urls(int64 handle, const char* usernamesJson, _Out_ void** outJson)');
+            this.wcdbGetContact = this.lib.func('int32 wcdb_get_contact(int64 handle, const char* username, _Out_ void** outJson)');
+            this.wcdbOpenMessageCursor = this.lib.func('int32 wcdb_open_message_cursor(int64 handle, const char* sessionId, int32 batchSize, int32 ascending, int32 beginTimestamp, int32 endTimestamp, _Out_ int64* outCursor)');
+            this.wcdbFetchMessageBatch = this.lib.func('int32 wcdb_fetch_message_batch(int64 handle, int64 cursor, _Out_ void** outJson, _Out_ int32* outHasMore)');
+            this.wcdbCloseMessageCursor = this.lib.func('int32 wcdb_close_message_cursor(int64 handle, int64 cursor)');
+            this.wcdbExecQuery = this.lib.func('int32 wcdb_exec_query(int64 handle, const char* kind, const char* path, const char* sql, _Out_ void** outJson)');
+            this.wcdbListMessageDbs = this.lib.func('int32 wcdb_list_message_dbs(int64 handle, _Out_ void** outJson)');
+            this.wcdbListMediaDbs = this.lib.func('int32 wcdb_list_media_dbs(int64 handle, _Out_ void** outJson)');
+
+            try {
+                this.wcdbSetMyWxid = this.lib.func('int32 wcdb_set_my_wxid(int64 handle, const char* wxid)');
+            } catch {
+                this.wcdbSetMyWxid = null;
+            }
+
+            try {
+                this.wcdbGetGroupMembers = this.lib.func('int32 wcdb_get_group_members(int64 handle, const char* chatroomId, _Out_ void** outJson)');
+            } catch {
+                this.wcdbGetGroupMembers = null;
+            }
+
+            try {
+                this.wcdbGetGroupNicknames = this.lib.func('int32 wcdb_get_group_nicknames(int64 handle, const char* chatroomId, _Out_ void** outJson)');
+            } catch {
+                this.wcdbGetGroupNicknames = null;
+            }
+
+            try {
+                this.wcdbGetLogs = this.lib.func('int32 wcdb_get_logs(_Out_ void** outJson)');
+            } catch {
+                this.wcdbGetLogs = null;
+            }
+
+            // Monitor pipe functions
+            try {
+                this.wcdbStartMonitorPipe = this.lib.func('int32 wcdb_start_monitor_pipe()');
+                this.wcdbStopMonitorPipe = this.lib.func('void wcdb_stop_monitor_pipe()');
+                this.writeLog('Monitor pipe functions loaded');
+            } catch {
+                this.wcdbStartMonitorPipe = null;
+                this.wcdbStopMonitorPipe = null;
+            }
+
+            // 初始化 WCDB
+            const initResult = this.wcdbInit();
+            if (initResult !== 0) {
+                this.writeLog(`WCDB 初始化失败: ${initResult}`, true);
+                return false;
+            }
+
+            this.initialized = true;
+            this.writeLog('WCDB 初始化成功');
+            return true;
+        } catch (e) {
+            this.writeLog(`WCDB 初始化异常: ${e}`, true);
+            return false;
+        }
+    }
+
+    /**
+     * 选择后续调用使用的账号。工作线程串行执行调用，每次调用前切换即可
+     */
+    selectAccount(wxid: string): void {
+        this.currentWxid = wxid;
+        this.handle = this.accounts.get(wxid)?.handle ?? null;
+    }
+
+    async open(dbPath: string, hexKey: string, wxid: string): Promise<boolean> {
+        try {
+            if (!this.initialized) {
+                const initOk = await this.initialize();
+                if (!initOk) return false;
+            }
+
+            this.selectAccount(wxid);
+            const existing = this.accounts.get(wxid);
+            if (existing && existing.dbPath === dbPath && existing.hexKey === hexKey) {
+                return true;
+            }
+
+            if (existing) {
+                this.closeInternal();
+            }
+
+            const dbStoragePath = resolveDbStoragePath(dbPath, wxid);
+            this.writeLog(`open dbPath=${dbPath} wxid=${wxid} dbStorage=${dbStoragePath || 'null'}`);
+
+            if (!dbStoragePath || !existsSync(dbStoragePath)) {
+                this.writeLog(`数据库目录不存在: ${dbPath}`, true);
+                return false;
+            }
+
+            let sessionDbPath: string | null = null;
+            try {
+                sessionDbPath = findDbFile(dbStoragePath, 'session.db');
+            } catch (e) {
+                this.writeLog(`查找 session.db 失败: ${e}`);
+            }
+            this.writeLog(`sessionDb=${sessionDbPath || 'null'}`);
+
+            if (!sessionDbPath) {
+                this.writeLog('未找到 session.db 文件', true);
+                return false;
+            }
+
+            const handleOut = [0];
+            const result = this.wcdbOpenAccount(sessionDbPath, hexKey, handleOut);
+
+            if (result !== 0) {
+                this.writeLog(`打开数据库失败: ${result}`, true);
+                return false;
+            }
+
+            if (handleOut[0] <= 0) {
+                this.writeLog('无效的数据库句柄', true);
+                return false;
+            }
+
+            this.handle = handleOut[0];
+            this.accounts.set(wxid, { handle: this.handle, dbPath, hexKey });
+
+            // 设置 myWxid
+            if (this.wcdbSetMyWxid) {
+                this.wcdbSetMyWxid(this.handle, wxid);
+            }
+
+            this.writeLog(`数据库打开成功, wxid=${wxid} handle=${this.handle}`);
+            return true;
+        } catch (e) {
+            this.writeLog(`打开数据库异常: ${e}`, true);
+            return false;
+        }
+    }
+
+    /** 关闭当前所选账号的句柄 */
+    private closeInternal(): void {
+        if (this.handle !== null) {
+            try {
+                this.wcdbCloseAccount(this.handle);
+            } catch { }
+            this.handle = null;
+        }
+        if (this.currentWxid !== null) {
+            this.accounts.delete(this.currentWxid);
+        }
+    }
+
+    close(): void {
+        this.closeInternal();
+    }
+
+    shutdown(): void {
+        this.stopMonitorPipe();
+        for (const wxid of Array.from(this.accounts.keys())) {
+            this.selectAccount(wxid);
+            this.closeInternal();
+        }
+        this.currentWxid = null;
+        if (this.wcdbShutdown) {
+            try {
+                this.wcdbShutdown();
+            } catch { }
+        }
+        this.initialized = false;
+    }
+
+    isConnected(): boolean {
+        return this.initialized && this.handle !== null;
+    }
+
+    isInitialized(): boolean {
+        return this.initialized;
+    }
+
+    private decodeJsonPtr(outPtr: any): string | null {
+        if (!outPtr) return null;
+        try {
+            const jsonStr = this.koffi.decode(outPtr, 'char', -1);
+            this.wcdbFreeString(outPtr);
+            return jsonStr;
+        } catch (e) {
+            try {
+                this.wcdbFreeString(outPtr);
+            } catch { }
+            return null;
+        }
+    }
+
+    // Monitor 管道服务端（DLL 侧）。管道客户端的连接与重连由主线程的 WcdbCore 负责
+
+    hasMonitorPipe(): boolean {
+        return this.wcdbStartMonitorPipe !== null;
+    }
+
+    /** 首次启动：先清理残留管道，再带重试启动管道服务 */
+    startMonitorPipe(): boolean {
+        if (!this.wcdbStartMonitorPipe) {
+            this.writeLog('startMonitor: wcdbStartMonitorPipe not available');
+            return false;
+        }
+        this.cleanupStalePipes();
+        return this.tryStartPipeWithRetry();
+    }
+
+    /** 客户端断开后重新启动管道服务 */
+    restartMonitorPipe(): boolean {
+        if (!this.wcdbStartMonitorPipe) return false;
+        const started = this.tryStartPipeWithRetry();
+        if (!started) {
+            this.logDllDiagnostics('monitor: pipe restart failed');
+        }
+        return started;
+    }
+
+    stopMonitorPipe(): void {
+        if (this.wcdbStopMonitorPipe) {
+            try {
+                this.wcdbStopMonitorPipe();
+            } catch { }
+        }
+    }
+
+    /**
+     * 强力清理残留管道：
+     * 1. 先调 DLL stop 清理本进程内部状态
+     * 2. 检测 \\.\pipe\weflow_monitor 是否已存在
+     * 3. 如果存在，尝试杀掉持有管道的僵尸进程（上一次异常退出的 node/tsx）
+     * 4. 等待系统释放管道资源
+     */
+    private cleanupStalePipes(): void {
+        // Step 0: marker-based stale instance cleanup (same boot, previous PID)
+        try {
+            const currentPid = process.pid;
+            const bootTimeMs = Date.now() - Math.floor(uptime() * 1000);
+            const markerPath = join(this.logDir, 'instance.json');
+
+            if (existsSync(markerPath)) {
+                try {
+                    const raw = readFileSync(markerPath, { encoding: 'utf8' }).trim();
+                    if (raw) {
+                        const marker = JSON.parse(raw) as { pid?: number; bootTimeMs?: number };
+                        const sameBoot = typeof marker.bootTimeMs === 'number' && Math.abs(marker.bootTimeMs - bootTimeMs) < 5 * 60 * 1000;
+                        if (sameBoot && marker.pid && marker.pid !== currentPid) {
+                            try {
+                                execSync(`powershell -NoProfile -Command "Get-Process -Id ${marker.pid} -ErrorAction SilentlyContinue | Out-Null"`, { timeout: 2000, windowsHide: true });
+                                this.writeLog(`cleanupStalePipes: killing stale CLI PID from marker: ${marker.pid}`, true);
+                                execSync(`taskkill /PID ${marker.pid} /F`, { timeout: 3000, windowsHide: true });
+                            } catch {
+                                // process likely already gone
+                            }
+                        }
+                    }
+                } catch { }
+            }
+
+            if (!existsSync(this.logDir)) {
+                mkdirSync(this.logDir, { recursive: true });
+            }
+            writeFileSync(markerPath, JSON.stringify({ pid: currentPid, bootTimeMs }), { encoding: 'utf8' });
+        } catch (e) {
+            this.writeLog(`cleanupStalePipes: marker check failed (non-critical): ${e}`);
+        }
+
+        // 步骤1: 清理 DLL 内部状态（无论如何先调一次 stop）
+        if (this.wcdbStopMonitorPipe) {
+            try {
+                this.wcdbStopMonitorPipe();
+                this.writeLog('cleanupStalePipes: called wcdb_stop_monitor_pipe to clean DLL state');
+            } catch { }
+        }
+
+        // 步骤2: 检测管道是否被其他进程占用
+        try {
+            const currentPid = process.pid;
+
+            // 检查管道是否存在
+            let pipeExists = false;
+            try {
+                const check = execSync(
+                    'powershell -NoProfile -Command "Test-Path \\\\\\\\.\\\\pipe\\\\weflow_monitor"',
+                    { encoding: 'utf8', timeout: 3000, windowsHide: true }
+                ).trim();
+                pipeExists = check === 'True';
+            } catch { }
+
+            if (pipeExists) {
+                this.writeLog('cleanupStalePipes: stale pipe \\\\.\\.pipe\\weflow_monitor detected!', true);
+
+                // 步骤3: 查找并杀掉可能持有管道的僵尸进程（排除当前进程）
+                try {
+                    // 查找所有 node.exe 和 tsx 相关进程
+                    const psCommand = `powershell -NoProfile -Command "Get-Process -Name 'node','tsx' -ErrorAction SilentlyContinue | Where-Object { $_.Id -ne ${currentPid} } | Select-Object -ExpandProperty Id"`;
+                    const pidsStr = execSync(psCommand, { encoding: 'utf8', timeout: 3000, windowsHide: true }).trim();
+
+                    if (pidsStr) {
+                        const pids = pidsStr.split(/\r?\n/).map((s: string) => s.trim()).filter((s: string) => s);
+                        this.writeLog(`cleanupStalePipes: found ${pids.length} stale process(es): ${pids.join(', ')}`, true);
+
+                        for (const pid of pids) {
+                            try {
+                                execSync(`taskkill /PID ${pid} /F`, { timeout: 3000, windowsHide: true });
+                                this.writeLog(`cleanupStalePipes: killed stale process PID ${pid}`, true);
+                            } catch (e) {
+                                this.writeLog(`cleanupStalePipes: failed to kill PID ${pid}: ${e}`);
+                            }
+                        }
+
+                        // 等待系统释放管道资源
+                        const waitUntil = Date.now() + 1000;
+                        while (Date.now() < waitUntil) { /* busy wait for OS pipe cleanup */ }
+                        this.writeLog('cleanupStalePipes: waited 1s for OS pipe cleanup');
+                    } else {
+                        this.writeLog('cleanupStalePipes: pipe exists but no stale node/tsx processes found');
+                        // 管道存在但找不到进程，可能是其他原因，等待一下再试
+                        const waitUntil = Date.now() + 500;
+                        while (Date.now() < waitUntil) { /* brief wait */ }
+                    }
+                } catch (e) {
+                    this.writeLog(`cleanupStalePipes: process cleanup failed: ${e}`);
+                }
+            } else {
+                this.writeLog('cleanupStalePipes: no stale pipe detected, clean start');
+            }
+        } catch (e) {
+            this.writeLog(`cleanupStalePipes: check failed (non-critical): ${e}`);
+        }
+    }
+
+    /**
+     * 尝试启动 DLL 管道服务器，每次尝试前都先 stop 清理残留
+     */
+    private tryStartPipeWithRetry(): boolean {
+        const MAX_RETRIES = 3;
+        const RETRY_DELAYS = [0, 200, 500]; // ms between retries
+
+        for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+            // 每次都先调 stop 清理（包括第一次！之前只有 retry 才清理，是 bug 来源）
+            if (this.wcdbStopMonitorPipe) {
+                try {
+                    this.wcdbStopMonitorPipe();
+                } catch { }
+            }
+
+            if (attempt > 0) {
+                this.writeLog(`startMonitor: retry attempt ${attempt + 1}/${MAX_RETRIES}, waiting ${RETRY_DELAYS[attempt]}ms...`);
+                // 同步等待一小段时间让系统释放管道资源
+                const waitUntil = Date.now() + RETRY_DELAYS[attempt];
+                while (Date.now() < waitUntil) { /* busy wait, short duration only */ }
+            }
+
+            try {
+                const result = this.wcdbStartMonitorPipe();
+                if (result === 0) {
+                    this.writeLog(`startMonitor: wcdb_start_monitor_pipe succeeded on attempt ${attempt + 1}`);
+                    return true;
+                }
+                this.writeLog(`startMonitor: wcdb_start_monitor_pipe returned ${result} on attempt ${attempt + 1}`);
+            } catch (e) {
+                this.writeLog(`startMonitor: wcdb_start_monitor_pipe threw on attempt ${attempt + 1}: ${e}`);
+            }
+        }
+
+        this.logDllDiagnostics('startMonitor: wcdb_start_monitor_pipe failed after retries');
+        return false;
+    }
+
+    // ===== 数据库查询方法 =====
+
+    getSessions(): WcdbResult<any[]> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetSessions(this.handle, outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取会话失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: false, error: '解析会话数据失败' };
+            }
+
+            const sessions = JSON.parse(jsonStr);
+            return { success: true, data: sessions };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    getDisplayNames(usernames: string[]): WcdbResult<Record<string, string>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetDisplayNames(this.handle, JSON.stringify(usernames), outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取昵称失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: false, error: '解析昵称数据失败' };
+            }
+
+            const map = JSON.parse(jsonStr);
+            return { success: true, data: map };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    openMessageCursor(
+        sessionId: string,
+        batchSize: number,
+        ascending: boolean,
+        beginTimestamp: number,
+        endTimestamp: number
+    ): WcdbResult<number> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const cursorOut = [0n];
+            const result = this.wcdbOpenMessageCursor(
+                this.handle,
+                sessionId,
+                batchSize,
+                ascending ? 1 : 0,
+                beginTimestamp,
+                endTimestamp,
+                cursorOut
+            );
+
+            if (result !== 0) {
+                return { success: false, error: `打开消息游标失败: ${result}` };
+            }
+
+            return { success: true, data: Number(cursorOut[0]) };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    fetchMessageBatch(cursor: number): WcdbResult<{ rows: any[]; hasMore: boolean }> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const hasMoreOut = [0];
+            const result = this.wcdbFetchMessageBatch(this.handle, cursor, outPtr, hasMoreOut);
+
+            if (result !== 0) {
+                return { success: false, error: `获取消息批次失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: { rows: [], hasMore: false } };
+            }
+
+            const rows = JSON.parse(jsonStr);
+            return { success: true, data: { rows, hasMore: hasMoreOut[0] === 1 } };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    closeMessageCursor(cursor: number): WcdbResult<void> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            this.wcdbCloseMessageCursor(this.handle, cursor);
+            return { success: true };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    getGroupNicknames(chatroomId: string): WcdbResult<Record<string, string>> {
+        if (!this.isConnected() || !this.wcdbGetGroupNicknames) {
+            return { success: false, error: '数据库未连接或功能不可用' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetGroupNicknames(this.handle, chatroomId, outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取群昵称失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: {} };
+            }
+
+            const nicknames = JSON.parse(jsonStr);
+            return { success: true, data: nicknames };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    /**
+     * 获取群成员列表
+     */
+    getGroupMembers(chatroomId: string): WcdbResult<any[]> {
+        if (!this.isConnected() || !this.wcdbGetGroupMembers) {
+            return { success: false, error: '数据库未连接或功能不可用' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetGroupMembers(this.handle, chatroomId, outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取群成员失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: [] };
+            }
+
+            const members = JSON.parse(jsonStr);
+            return { success: true, data: members };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    execQuery(kind: string, path: string | null, sql: string): WcdbResult<any[]> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbExecQuery(this.handle, kind, path || '', sql, outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `执行查询失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: [] };
+            }
+
+            const rows = JSON.parse(jsonStr);
+            return { success: true, data: rows };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    getMessageCount(username: string): WcdbResult<number> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const countOut = [0];
+            const result = this.wcdbGetMessageCount(this.handle, username, countOut);
+
+            if (result !== 0) {
+                return { success: false, error: `获取消息数量失败: ${result}` };
+            }
+
+            return { success: true, data: countOut[0] };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    /**
+     * DLL 的 execQuery 不支持参数绑定：id 必须是十进制整数，转为 BigInt 后再写入 SQL。
+     * 会话的表只存在于部分消息分库中，所有分库都查询失败时返回失败
+     */
+    getMessageCreateTime(sessionId: string, by: 'serverId' | 'localId', id: string): WcdbResult<number | null> {
+        if (!/^\d+$/.test(id)) {
+            return { success: false, error: `无效的消息 ID: ${id}` };
+        }
+        const dbs = this.listMessageDbs();
+        if (!dbs.success || !dbs.data) {
+            return { success: false, error: dbs.error };
+        }
+
+        const table = `Msg_${createHash('md5').update(sessionId).digest('hex')}`;
+        const column = by === 'localId' ? 'local_id' : 'server_id';
+        const sql = `SELECT create_time FROM ${table} WHERE ${column} = ${BigInt(id).toString()} ORDER BY create_time DESC LIMIT 1`;
+        let queried = false;
+        let found: number | null = null;
+        for (const path of dbs.data) {
+            const result = this.execQuery('message', path, sql);
+            if (!result.success) continue;
+            queried = true;
+            const row = result.data?.[0];
+            if (row) found = Math.max(found ?? 0, Number(row.create_time) || 0);
+        }
+        return queried ? { success: true, data: found } : { success: false, error: `消息表不存在: ${table}` };
+    }
+
+    getContact(username: string): WcdbResult<any | null> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetContact(this.handle, username, outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取联系人失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: null };
+            }
+
+            const contact = JSON.parse(jsonStr);
+            return { success: true, data: contact };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    getAvatarUrls(usernames: string[]): WcdbResult<Record<string, string>> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = this.wcdbGetAvatarUrls(this.handle, JSON.stringify(usernames), outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取头像失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: {} };
+            }
+
+            const map = JSON.parse(jsonStr);
+            return { success: true, data: map };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    listMessageDbs(): WcdbResult<string[]> {
+        return this.listDbs(this.wcdbListMessageDbs, '消息');
+    }
+
+    listMediaDbs(): WcdbResult<string[]> {
+        return this.listDbs(this.wcdbListMediaDbs, '媒体');
+    }
+
+    private listDbs(fn: any, label: string): WcdbResult<string[]> {
+        if (!this.isConnected()) {
+            return { success: false, error: '数据库未连接' };
+        }
+
+        try {
+            const outPtr = [null as any];
+            const result = fn(this.handle, outPtr);
+
+            if (result !== 0) {
+                return { success: false, error: `获取${label}数据库列表失败: ${result}` };
+            }
+
+            const jsonStr = this.decodeJsonPtr(outPtr[0]);
+            if (!jsonStr) {
+                return { success: true, data: [] };
+            }
+
+            const dbs = JSON.parse(jsonStr);
+            return { success: true, data: dbs };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+}
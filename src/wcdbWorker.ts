@@ -0,0 +1,71 @@
+/**
+ * WeFlow API CLI - WCDB 工作线程
+ * 持有 WcdbNative（DLL 句柄），按顺序执行主线程发来的调用，
+ * 避免耗时的同步 DLL 调用阻塞主线程的 HTTP / WebSocket / 管道读取
+ */
+import { parentPort, workerData } from 'worker_threads';
+import { WcdbNative, type WcdbNativeOptions } from './wcdbNative.js';
+
+export interface WcdbWorkerRequest {
+    id: number;
+    /** 调用所属账号（wxid），initialize / 管道相关调用与账号无关，不传 */
+    account?: string;
+    method: string;
+    args: any[];
+}
+
+export interface WcdbWorkerResponse {
+    id: number;
+    result?: any;
+    error?: string;
+}
+
+// 允许主线程调用的方法
+const ALLOWED_METHODS = new Set([
+    'initialize',
+    'open',
+    'close',
+    'shutdown',
+    'isConnected',
+    'isInitialized',
+    'hasMonitorPipe',
+    'startMonitorPipe',
+    'restartMonitorPipe',
+    'stopMonitorPipe',
+    'getSessions',
+    'getDisplayNames',
+    'openMessageCursor',
+    'fetchMessageBatch',
+    'closeMessageCursor',
+    'getGroupNicknames',
+    'getGroupMembers',
+    'execQuery',
+    'getMessageCount',
+    'getMessageCreateTime',
+    'getContact',
+    'getAvatarUrls',
+    'listMessageDbs',
+    'listMediaDbs',
+]);
+
+const native = new WcdbNative(workerData as WcdbNativeOptions);
+let chain: Promise<void> = Promise.resolve();
+
+parentPort?.on('message', (request: WcdbWorkerRequest) => {
+    // initialize / open 含异步步骤，用 promise 链保证严格按顺序执行
+    chain = chain.then(async () => {
+        const response: WcdbWorkerResponse = { id: request.id };
+        try {
+            if (!ALLOWED_METHODS.has(request.method)) {
+                throw new Error(`Unknown method: ${request.method}`);
+            }
+            if (request.account !== undefined) {
+                native.selectAccount(request.account);
+            }
+            response.result = await (native as any)[request.method](...request.args);
+        } catch (e) {
+            response.error = String(e);
+        }
+        parentPort?.postMessage(response);
+    });
+});
@@ -3,56 +3,42 @@
  * 提供实时消息推送功能（含消息内容解密）
  * 
  * 设计原则：
- * 1. 只推送 new_message 类型的消息，不推送 db_change 和 session_update
+ * 1. 只推送 new_message / message_recalled / group_event 类型的消息，不推送 db_change 和 session_update
  * 2. 使用 localId 进行去重，避免重复推送相同消息
  * 3. 实时监听数据库变更，通过命名管道 IPC 获取通知
  */
 import { WebSocketServer, WebSocket } from 'ws';
-import * as fzstd from 'fzstd';
 import { getConfig } from './config.js';
-import { getWcdbCore } from './wcdbCore.js';
+import { getAccountRegistry, type Account } from './accountRegistry.js';
+import { runWithPriority } from './opScheduler.js';
+import { getAuthService, canAccessSession, redactForKey, redactObjectForKey, type ApiKey } from './auth.js';
+import { getMessageNormalizer, ChatLabType, type NormalizedMessage, type QuotedMessage } from './messageNormalizer.js';
+import { RecentMessageCache } from './recentMessageCache.js';
+import { getGroupEventParser } from './groupEvents.js';
+import { getSearchIndexService } from './searchIndex.js';
+
+// 鉴权失败的关闭码（4000-4999 为应用自定义，对应 HTTP 401 / 403）
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_FORBIDDEN = 4403;
 
 interface WsClient {
     ws: WebSocket;
     id: string;
-    subscribedSessions: Set<string>;
+    /** 连接使用的 API 密钥，未启用鉴权时为 null */
+    apiKey: ApiKey | null;
+    /** 连接时指定 ?rich=1，new_message 附带结构化 payload */
+    rich: boolean;
+    /** 连接时指定 ?expandReplies=1，引用消息附带被引用的原消息（quoted） */
+    expandReplies: boolean;
+    /** 只推送 @ 了账号自己（含 @所有人）的消息，由 subscribe / subscribe_all 的 mentionsOnly 设置 */
+    mentionsOnly: boolean;
+    // key: 账号 wxid，value: 订阅的会话 ID（'*' 表示该账号的所有会话）
+    subscriptions: Map<string, Set<string>>;
 }
 
-// ChatLab 消息类型映射
-const ChatLabType = {
-    TEXT: 0,
-    IMAGE: 1,
-    VOICE: 2,
-    VIDEO: 3,
-    FILE: 4,
-    EMOJI: 5,
-    LINK: 7,
-    LOCATION: 8,
-    RED_PACKET: 20,
-    TRANSFER: 21,
-    POKE: 22,
-    CALL: 23,
-    SHARE: 24,
-    REPLY: 25,
-    FORWARD: 26,
-    CONTACT: 27,
-    SYSTEM: 80,
-    RECALL: 81,
-    OTHER: 99,
-} as const;
-
-interface ProcessedMessage {
-    localId: number;
-    serverId: string;
-    localType: number;
-    createTime: number;
-    isSend: number;
-    senderUsername: string;
-    parsedContent: string;
-    rawContent: string;
-    xmlType?: string;
-    url?: string;
-    referencedMessageId?: string;
+interface SubscriptionTarget {
+    account: string;
+    session: string;
 }
 
 export class WsService {
@@ -68,21 +54,25 @@ export class WsService {
     private usingFallbackPolling = false;
 
     // 使用 localId 追踪每个会话已推送的消息，避免重复
-    // key: sessionId, value: Set of localIds that have been sent
-    private sentMessageIds: Map<string, Set<number>> = new Map();
+    // key: 账号 wxid，value: (sessionId → 已推送的 localId 集合)
+    private sentMessageIds: Map<string, Map<string, Set<number>>> = new Map();
 
     // 每个会话保留的最大已发送消息 ID 数量（防止内存无限增长）
     private readonly maxSentIdsPerSession = 1000;
 
+    // 近期推送过的消息，撤回时用于找回原始内容
+    private recentMessages: RecentMessageCache;
+
     // 防止频繁查询的节流
-    private pendingCheck = false;
+    private pendingChecks: Set<string> = new Set();
     private checkDebounceMs = 100;  // 降低防抖时间以减少延迟
-    private lastCheckTime = 0;
+    private lastCheckTime: Map<string, number> = new Map();
 
     constructor() {
         const config = getConfig();
         this.port = config.wsPort;
         this.host = config.wsHost;
+        this.recentMessages = new RecentMessageCache(config.recallCacheSize);
     }
 
     async start(): Promise<{ success: boolean; port?: number; error?: string }> {
@@ -156,12 +146,46 @@ export class WsService {
         return this.running;
     }
 
+    getClientCount(): number {
+        return this.clients.size;
+    }
+
+    /**
+     * 变更检测方式：pipe（管道实时通知）、polling（轮询备用）、connecting（等待管道连接）、stopped（未启动）
+     */
+    getMonitorStatus(): { mode: 'pipe' | 'polling' | 'connecting' | 'stopped'; pipeConnected: boolean } {
+        const pipeConnected = getAccountRegistry().list().some((account) => account.source.isMonitorConnected());
+        if (!this.monitorStarted) return { mode: 'stopped', pipeConnected };
+        if (this.usingFallbackPolling) return { mode: 'polling', pipeConnected };
+        return { mode: pipeConnected ? 'pipe' : 'connecting', pipeConnected };
+    }
+
     private handleConnection(ws: WebSocket, req: any): void {
+        // 浏览器无法为 WebSocket 设置请求头，因此也接受 ?token= 参数
+        const auth = getAuthService();
+        const params = new URL(req.url || '/', 'ws://localhost').searchParams;
+        let apiKey: ApiKey | null = null;
+        if (auth.isEnabled()) {
+            apiKey = auth.authenticate(req.headers?.authorization, params.get('token'));
+            if (!apiKey) {
+                ws.close(CLOSE_UNAUTHORIZED, 'Unauthorized');
+                return;
+            }
+            if (!apiKey.scopes.has('realtime')) {
+                ws.close(CLOSE_FORBIDDEN, 'Forbidden: API key lacks scope "realtime"');
+                return;
+            }
+        }
+
         const clientId = `client_${++this.clientIdCounter}`;
         const client: WsClient = {
             ws,
             id: clientId,
-            subscribedSessions: new Set(),
+            apiKey,
+            rich: params.get('rich') === '1',
+            expandReplies: params.get('expandReplies') === '1',
+            mentionsOnly: false,
+            subscriptions: new Map(),
         };
 
         this.clients.set(clientId, client);
@@ -171,6 +195,8 @@ export class WsService {
         this.sendToClient(client, {
             type: 'connected',
             clientId,
+            rich: client.rich,
+            expandReplies: client.expandReplies,
             message: 'Welcome to WeFlow WebSocket API',
             timestamp: Date.now(),
         });
@@ -194,46 +220,60 @@ export class WsService {
             const message = JSON.parse(data.toString());
 
             switch (message.type) {
-                case 'subscribe':
+                case 'subscribe': {
                     // 订阅特定会话的消息更新
+                    // sessions 元素可以是会话 ID（使用 message.account 或默认账号），也可以是 { account, session }
                     if (message.sessions && Array.isArray(message.sessions)) {
-                        for (const sessionId of message.sessions) {
-                            client.subscribedSessions.add(sessionId);
+                        const targets = this.resolveSubscriptionTargets(client, message.sessions, message.account);
+                        if (!targets) break;
+                        for (const target of targets) {
+                            this.getClientSessions(client, target.account).add(target.session);
                         }
+                        this.applySubscribeOptions(client, message);
                         this.sendToClient(client, {
                             type: 'subscribed',
-                            sessions: Array.from(client.subscribedSessions),
+                            ...this.describeSubscriptions(client),
                             timestamp: Date.now(),
                         });
                     }
                     break;
+                }
 
-                case 'unsubscribe':
+                case 'unsubscribe': {
                     // 取消订阅
                     if (message.sessions && Array.isArray(message.sessions)) {
-                        for (const sessionId of message.sessions) {
-                            client.subscribedSessions.delete(sessionId);
+                        const targets = this.resolveSubscriptionTargets(client, message.sessions, message.account);
+                        if (!targets) break;
+                        for (const target of targets) {
+                            client.subscriptions.get(target.account)?.delete(target.session);
                         }
+                    } else if (message.account) {
+                        client.subscriptions.delete(message.account);
                     } else {
-                        client.subscribedSessions.clear();
+                        client.subscriptions.clear();
                     }
                     this.sendToClient(client, {
                         type: 'unsubscribed',
-                        sessions: Array.from(client.subscribedSessions),
+                        ...this.describeSubscriptions(client),
                         timestamp: Date.now(),
                     });
                     break;
+                }
 
-                case 'subscribe_all':
-                    // 订阅所有会话更新
-                    client.subscribedSessions.add('*');
+                case 'subscribe_all': {
+                    // 订阅某个账号（默认账号）的所有会话更新
+                    const targets = this.resolveSubscriptionTargets(client, ['*'], message.account);
+                    if (!targets) break;
+                    this.getClientSessions(client, targets[0].account).add('*');
+                    this.applySubscribeOptions(client, message);
                     this.sendToClient(client, {
                         type: 'subscribed',
-                        sessions: ['*'],
-                        message: 'Subscribed to all sessions',
+                        ...this.describeSubscriptions(client),
+                        message: `Subscribed to all sessions of ${targets[0].account}`,
                         timestamp: Date.now(),
                     });
                     break;
+                }
 
                 case 'ping':
                     this.sendToClient(client, {
@@ -242,16 +282,28 @@ export class WsService {
                     });
                     break;
 
-                case 'status':
+                case 'status': {
+                    const registry = getAccountRegistry();
+                    const { sessions, subscriptions, mentionsOnly } = this.describeSubscriptions(client);
                     this.sendToClient(client, {
                         type: 'status',
                         connected: true,
                         monitorActive: this.monitorStarted,
-                        subscribedSessions: Array.from(client.subscribedSessions),
+                        queue: registry.getDefault().source.getQueueStats?.() ?? null,
+                        accounts: registry.list().map((account) => ({
+                            wxid: account.wxid,
+                            connected: account.source.isConnected(),
+                        })),
+                        subscribedSessions: sessions,
+                        subscriptions,
+                        mentionsOnly,
+                        rich: client.rich,
+                        expandReplies: client.expandReplies,
                         totalClients: this.clients.size,
                         timestamp: Date.now(),
                     });
                     break;
+                }
 
                 default:
                     this.sendToClient(client, {
@@ -269,55 +321,167 @@ export class WsService {
         }
     }
 
+    /**
+     * 解析订阅目标，账号不存在时向客户端返回错误并返回 null
+     */
+    private resolveSubscriptionTargets(client: WsClient, sessions: any[], defaultAccount?: string): SubscriptionTarget[] | null {
+        const registry = getAccountRegistry();
+        const targets: SubscriptionTarget[] = [];
+
+        for (const entry of sessions) {
+            const session = typeof entry === 'string' ? entry : entry?.session;
+            const wxid = (typeof entry === 'object' && entry?.account) || defaultAccount;
+            const account = registry.get(wxid);
+            if (!account) {
+                this.sendToClient(client, {
+                    type: 'error',
+                    error: `Unknown account: ${wxid}`,
+                    timestamp: Date.now(),
+                });
+                return null;
+            }
+            if (typeof session === 'string' && session) {
+                // '*' 仍然允许订阅，推送时再按密钥的会话范围过滤
+                if (session !== '*' && !canAccessSession(client.apiKey, session)) {
+                    this.sendToClient(client, {
+                        type: 'error',
+                        error: `Forbidden: API key cannot access session "${session}"`,
+                        timestamp: Date.now(),
+                    });
+                    return null;
+                }
+                targets.push({ account: account.wxid, session });
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * subscribe / subscribe_all 的可选项，未携带时保持原设置
+     */
+    private applySubscribeOptions(client: WsClient, message: any): void {
+        if (typeof message.mentionsOnly === 'boolean') {
+            client.mentionsOnly = message.mentionsOnly;
+        }
+    }
+
+    private getClientSessions(client: WsClient, account: string): Set<string> {
+        let sessions = client.subscriptions.get(account);
+        if (!sessions) {
+            sessions = new Set();
+            client.subscriptions.set(account, sessions);
+        }
+        return sessions;
+    }
+
+    /**
+     * sessions 为默认账号的会话 ID（兼容旧客户端），subscriptions 为包含账号的完整列表
+     */
+    private describeSubscriptions(client: WsClient): { sessions: string[]; subscriptions: SubscriptionTarget[]; mentionsOnly: boolean } {
+        const registry = getAccountRegistry();
+        const sessions: string[] = [];
+        const subscriptions: SubscriptionTarget[] = [];
+
+        for (const [account, ids] of client.subscriptions) {
+            for (const session of ids) {
+                subscriptions.push({ account, session });
+                if (registry.isDefault(account)) sessions.push(session);
+            }
+        }
+
+        return { sessions, subscriptions, mentionsOnly: client.mentionsOnly };
+    }
+
     private sendToClient(client: WsClient, data: any): void {
         if (client.ws.readyState === WebSocket.OPEN) {
             client.ws.send(JSON.stringify(data));
         }
     }
 
-    private broadcast(data: any, sessionId?: string): void {
-        const message = JSON.stringify(data);
+    private broadcast(data: any, account?: string, sessionId?: string): void {
+        // 按客户端选项（rich / expandReplies / 打码规则）序列化，选项相同的客户端共用结果
+        const serialized = new Map<string, string>();
+        const serializeFor = (client: WsClient): string => {
+            const key = `${client.rich ? 1 : 0}${client.expandReplies ? 1 : 0}:${[...(client.apiKey?.redact ?? [])].sort().join(',')}`;
+            let message = serialized.get(key);
+            if (message === undefined) {
+                message = JSON.stringify(this.prepareForClient(client, data));
+                serialized.set(key, message);
+            }
+            return message;
+        };
         let sentCount = 0;
 
         for (const client of this.clients.values()) {
             if (client.ws.readyState !== WebSocket.OPEN) continue;
+            if (client.mentionsOnly && data?.type === 'new_message' && !data.mentionsMe) continue;
 
-            // 如果指定了 sessionId，只发送给订阅了该会话或订阅了所有会话的客户端
-            if (sessionId) {
-                if (client.subscribedSessions.has(sessionId) || client.subscribedSessions.has('*')) {
-                    client.ws.send(message);
+            // 如果指定了 sessionId，只发送给订阅了该账号下该会话或所有会话、且密钥有权访问该会话的客户端
+            if (account && sessionId) {
+                const sessions = client.subscriptions.get(account);
+                if (sessions && (sessions.has(sessionId) || sessions.has('*')) && canAccessSession(client.apiKey, sessionId)) {
+                    client.ws.send(serializeFor(client));
                     sentCount++;
                 }
             } else {
                 // 没有指定 sessionId，发送给所有客户端
-                client.ws.send(message);
+                client.ws.send(serializeFor(client));
                 sentCount++;
             }
         }
     }
 
+    /**
+     * 未指定 rich=1 / expandReplies=1 的客户端去掉 payload / quoted，并按客户端密钥的打码规则处理消息内容（group_event 处理事件文本）
+     */
+    private prepareForClient(client: WsClient, data: any): any {
+        if (data?.type === 'group_event') {
+            return {
+                ...data,
+                event: { ...data.event, text: redactForKey(client.apiKey, data.event.text), value: redactForKey(client.apiKey, data.event.value) },
+            };
+        }
+        if (!data?.message || typeof data.message !== 'object') return data;
+
+        const { payload, quoted, ...message } = data.message;
+        message.content = redactForKey(client.apiKey, message.content);
+        message.children = redactObjectForKey(client.apiKey, message.children);
+        if (client.rich && payload !== undefined) {
+            message.payload = redactObjectForKey(client.apiKey, payload);
+        }
+        if (client.expandReplies && quoted !== undefined) {
+            message.quoted = redactObjectForKey(client.apiKey, quoted);
+        }
+        return { ...data, message };
+    }
+
     private startDbMonitor(): void {
         if (this.monitorStarted) return;
 
-        const wcdb = getWcdbCore();
-        const success = wcdb.startMonitor((type, json) => {
-            if (type === 'monitor_unavailable') {
-                // 管道监控不可用，启用轮询备用方案
-                if (!this.usingFallbackPolling) {
-                    console.warn('⚠️ 管道监控不可用，切换到轮询模式检测新消息');
-                    this.startFallbackPolling();
+        // WCDB 管道通知不区分账号，会分发给每个账号的回调，由各自的订阅决定是否检查
+        const accounts = getAccountRegistry().list();
+        let success = false;
+        for (const account of accounts) {
+            success = account.source.startMonitor((type, json) => {
+                if (type === 'monitor_unavailable') {
+                    // 管道监控不可用，启用轮询备用方案
+                    if (!this.usingFallbackPolling) {
+                        console.warn('⚠️ 管道监控不可用，切换到轮询模式检测新消息');
+                        this.startFallbackPolling();
+                    }
+                    return;
                 }
-                return;
-            }
 
-            // 管道监控恢复后，停止轮询
-            if (this.usingFallbackPolling) {
-                console.log('✅ 管道监控已恢复，停止轮询模式');
-                this.stopFallbackPolling();
-            }
+                // 管道监控恢复后，停止轮询
+                if (this.usingFallbackPolling) {
+                    console.log('✅ 管道监控已恢复，停止轮询模式');
+                    this.stopFallbackPolling();
+                }
 
-            this.handleDbChange(type, json);
-        });
+                this.handleDbChange(account, type, json);
+            }) || success;
+        }
 
         // startMonitor 现在总是返回 true（因为它会后台重试）
         // 但我们仍然标记 monitorStarted
@@ -329,7 +493,8 @@ export class WsService {
 
         // 如果管道监控在短时间内未建立连接，启动轮询作为备用
         setTimeout(() => {
-            if (this.monitorStarted && !wcdb.isMonitorConnected() && !this.usingFallbackPolling) {
+            const disconnected = accounts.some((account) => !account.source.isMonitorConnected());
+            if (this.monitorStarted && disconnected && !this.usingFallbackPolling) {
                 console.warn('⚠️ 管道监控未在预期时间内连接，启用轮询备用模式');
                 this.startFallbackPolling();
             }
@@ -341,8 +506,9 @@ export class WsService {
 
         this.stopFallbackPolling();
 
-        const wcdb = getWcdbCore();
-        wcdb.stopMonitor();
+        for (const account of getAccountRegistry().list()) {
+            account.source.stopMonitor();
+        }
         this.monitorStarted = false;
         console.log('数据库变更监控已停止');
     }
@@ -354,8 +520,10 @@ export class WsService {
 
         console.log(`📡 轮询模式已启动 (间隔: ${this.pollingIntervalMs}ms)`);
         this.pollingTimer = setInterval(() => {
-            if (this.hasSubscribedClients()) {
-                this.checkNewMessages();
+            for (const account of getAccountRegistry().list()) {
+                if (this.hasSubscribedClients(account)) {
+                    runWithPriority('realtime', () => this.checkNewMessages(account));
+                }
             }
         }, this.pollingIntervalMs);
     }
@@ -369,10 +537,8 @@ export class WsService {
         this.usingFallbackPolling = false;
     }
 
-    private handleDbChange(type: string, json: string): void {
+    private handleDbChange(account: Account, type: string, json: string): void {
         try {
-            if (!this.hasSubscribedClients()) return;
-
             // 尝试从管道消息中提取 sessionId，实现定向查询而非全量扫描
             let targetSession: string | undefined;
             try {
@@ -380,69 +546,74 @@ export class WsService {
                 targetSession = parsed.sessionId || parsed.username || parsed.talker || parsed.session_id || parsed.user_name;
             } catch { }
 
+            // 搜索索引不依赖 WebSocket 订阅，先于订阅检查通知
+            getSearchIndexService().notifyChange(account, targetSession);
+
+            if (!this.hasSubscribedClients(account)) return;
+
             if (targetSession) {
                 // 定向查询：只检查变化的那个会话，跳过防抖直接查
                 console.log(`[定向检查] 管道通知会话变更: ${targetSession}`);
-                this.checkSessionNewMessages(targetSession);
+                runWithPriority('realtime', () => this.checkSessionNewMessages(account, targetSession));
             } else {
                 // 无法确定具体会话，回退到防抖全量检查
-                this.debouncedCheckNewMessages();
+                this.debouncedCheckNewMessages(account);
             }
         } catch (e) {
             console.error('处理数据库变更失败:', e);
         }
     }
 
-    // 检查是否有客户端订阅了任何会话
-    private hasSubscribedClients(): boolean {
+    // 检查是否有客户端订阅了该账号的任何会话
+    private hasSubscribedClients(account: Account): boolean {
         for (const client of this.clients.values()) {
-            if (client.subscribedSessions.size > 0) {
+            if ((client.subscriptions.get(account.wxid)?.size || 0) > 0) {
                 return true;
             }
         }
         return false;
     }
 
-    // 获取所有订阅的会话（包括 * 通配符）
-    private getSubscribedSessionIds(): Set<string> {
+    // 获取该账号所有订阅的会话（包括 * 通配符）
+    private getSubscribedSessionIds(account: Account): Set<string> {
         const sessions = new Set<string>();
         for (const client of this.clients.values()) {
-            for (const session of client.subscribedSessions) {
+            for (const session of client.subscriptions.get(account.wxid) || []) {
                 sessions.add(session);
             }
         }
         return sessions;
     }
 
-    // 防抖检查新消息
-    private debouncedCheckNewMessages(): void {
+    // 防抖检查新消息（按账号）
+    private debouncedCheckNewMessages(account: Account): void {
         const now = Date.now();
 
         // 如果距离上次检查时间太短，延迟执行
-        if (now - this.lastCheckTime < this.checkDebounceMs) {
-            if (!this.pendingCheck) {
-                this.pendingCheck = true;
+        if (now - (this.lastCheckTime.get(account.wxid) || 0) < this.checkDebounceMs) {
+            if (!this.pendingChecks.has(account.wxid)) {
+                this.pendingChecks.add(account.wxid);
                 setTimeout(() => {
-                    this.pendingCheck = false;
-                    this.checkNewMessages();
+                    this.pendingChecks.delete(account.wxid);
+                    runWithPriority('realtime', () => this.checkNewMessages(account));
                 }, this.checkDebounceMs);
             }
             return;
         }
 
-        this.lastCheckTime = now;
-        this.checkNewMessages();
+        this.lastCheckTime.set(account.wxid, now);
+        runWithPriority('realtime', () => this.checkNewMessages(account));
     }
 
     // 检查并推送新消息
-    private async checkNewMessages(): Promise<void> {
+    private async checkNewMessages(account: Account): Promise<void> {
         try {
-            const wcdb = getWcdbCore();
-            const subscribedSessions = this.getSubscribedSessionIds();
+            const source = account.source;
+            const subscribedSessions = this.getSubscribedSessionIds(account);
             const hasWildcard = subscribedSessions.has('*');
 
             // 获取会话列表
-            const sessionsResult = await wcdb.getSessions();
+            const sessionsResult = await source.getSessions();
             if (!sessionsResult.success || !sessionsResult.data) {
                 return;
             }
@@ -466,7 +637,7 @@ export class WsService {
                 const username = session.username || session.user_name || '';
                 if (!username) continue;
 
-                await this.checkSessionNewMessages(username);
+                await this.checkSessionNewMessages(account, username);
             }
         } catch (e) {
             console.error('检查新消息失败:', e);
@@ -474,22 +645,27 @@ export class WsService {
     }
 
     // 检查单个会话的新消息
-    private async checkSessionNewMessages(sessionId: string): Promise<void> {
+    private async checkSessionNewMessages(account: Account, sessionId: string): Promise<void> {
         try {
-            const wcdb = getWcdbCore();
-            const config = getConfig();
-            const myWxid = config.myWxid;
+            const source = account.source;
+            const myWxid = account.wxid;
+            const normalizer = getMessageNormalizer();
 
             // 获取该会话已发送的消息 ID 集合
-            let sentIds = this.sentMessageIds.get(sessionId);
+            let accountSentIds = this.sentMessageIds.get(account.wxid);
+            if (!accountSentIds) {
+                accountSentIds = new Map();
+                this.sentMessageIds.set(account.wxid, accountSentIds);
+            }
+            let sentIds = accountSentIds.get(sessionId);
             const isFirstCheck = !sentIds;
             if (!sentIds) {
                 sentIds = new Set();
-                this.sentMessageIds.set(sessionId, sentIds);
+                accountSentIds.set(sessionId, sentIds);
             }
 
             // 查询最新的几条消息（降序，最新的在前）
-            const cursorResult = await wcdb.openMessageCursor(
+            const cursorResult = await source.openMessageCursor(
                 sessionId,
                 10,      // 每次检查最新 10 条
                 false,   // descending - 最新的在前
@@ -502,66 +678,41 @@ export class WsService {
             }
 
             const cursor = cursorResult.data;
-            const newMessages: ProcessedMessage[] = [];
+            const newMessages: NormalizedMessage[] = [];
+            const rewrittenRecalls: NormalizedMessage[] = [];
 
             try {
-                const batch = await wcdb.fetchMessageBatch(cursor);
+                const batch = await source.fetchMessageBatch(cursor);
                 if (batch.success && batch.data?.rows) {
 
                     for (const row of batch.data.rows) {
                         const localId = parseInt(row.local_id || row.localId || '0', 10);
 
-                        // 首次检查：初始化已发送 ID，但不推送
-                        if (isFirstCheck) {
-                            sentIds.add(localId);
-                            continue;
-                        }
-
                         // 检查是否已经发送过这条消息
                         if (sentIds.has(localId)) {
+                            // 原消息行可能被原地改写为撤回通知（localId 不变）
+                            if (this.isSystemLocalType(row)) {
+                                rewrittenRecalls.push(normalizer.normalizeRow(row, sessionId, myWxid));
+                            }
                             continue;
                         }
 
-
-                        // 解码消息内容
-                        const content = this.decodeMessageContent(row.message_content, row.compress_content);
-                        const localType = parseInt(row.local_type || row.type || '1', 10);
-                        const createTime = parseInt(row.create_time || '0', 10);
-                        const senderUsername = row.sender_username || '';
-                        const isSend = parseInt(row.is_send || '0', 10) === 1;
-
-                        // 提取 XML 中的 type
-                        const xmlType = this.extractMessageXmlType(content, localType) || undefined;
-                        const linkUrl = this.extractLinkUrl(content, localType) || undefined;
-                        const referencedMessageId = this.isReplyMessage(localType, xmlType)
-                            ? this.extractReferencedMessageId(content)
-                            : undefined;
-
-                        const parsedContent = this.parseMessageContent(content, localType);
-
-                        const serverId = row.server_id ?? row.serverId ?? '';
-                        const message: ProcessedMessage = {
-                            localId,
-                            serverId: serverId ? String(serverId) : '',
-                            localType,
-                            createTime,
-                            isSend: isSend ? 1 : 0,
-                            senderUsername: isSend ? myWxid : senderUsername || sessionId,
-                            parsedContent: parsedContent || `[类型 ${localType}]`,
-                            rawContent: content,
-                            xmlType,
-                            url: linkUrl,
-                            referencedMessageId,
-                        };
-
-                        newMessages.push(message);
+                        const msg = normalizer.normalizeRow(row, sessionId, myWxid);
 
                         // 标记为已发送
                         sentIds.add(localId);
+
+                        // 首次检查：初始化已发送 ID 并缓存内容，但不推送
+                        if (isFirstCheck) {
+                            this.rememberMessage(account.wxid, sessionId, msg);
+                            continue;
+                        }
+
+                        newMessages.push(msg);
                     }
                 }
             } finally {
-                await wcdb.closeMessageCursor(cursor);
+                await source.closeMessageCursor(cursor);
             }
 
             // 清理过多的已发送 ID（保持内存可控）
@@ -573,6 +724,14 @@ export class WsService {
                 }
             }
 
+            for (const msg of rewrittenRecalls) {
+                const cached = this.recentMessages.get(account.wxid, msg.serverId);
+                // 只有缓存中记录的原消息不是系统消息，才说明这一行是刚被改写的
+                if (cached && !cached.recalled && cached.message.type !== ChatLabType.SYSTEM && cached.message.type !== ChatLabType.RECALL) {
+                    this.broadcastRecall(account.wxid, sessionId, msg);
+                }
+            }
+
             // 有新消息才广播
             if (newMessages.length > 0) {
                 newMessages.reverse();
@@ -581,27 +740,23 @@ export class WsService {
                     const preview = this.truncateMessagePreview(msg.parsedContent || '', 20);
                     console.log(`[\u65b0\u6d88\u606f] ${msg.senderUsername} \u63a8\u9001\u4e86 1 \u6761\u6d88\u606f ${preview}`);
 
-                    // 使用 mapMessageType 转换消息类型
-                    const chatlabType = this.mapMessageType(msg.localType, msg.xmlType);
-                    const url = chatlabType === ChatLabType.LINK
-                        ? (msg.url || this.extractLinkUrl(msg.rawContent, msg.localType) || undefined)
-                        : undefined;
-
+                    const message = this.rememberMessage(account.wxid, sessionId, msg);
                     const notification = {
                         type: 'new_message',
+                        account: account.wxid,
                         sessionId,
-                        message: {
-                            sender: msg.senderUsername,
-                            timestamp: msg.createTime,
-                            type: chatlabType,
-                            content: msg.parsedContent,
-                            referencedPlatformMessageId: chatlabType === ChatLabType.REPLY ? msg.referencedMessageId : undefined,
-                            url,
-                            platformMessageId: msg.serverId || undefined,
-                        },
+                        mentionsMe: !msg.isSend && normalizer.mentionsUser(msg, myWxid),
+                        message,
                         timestamp: Date.now(),
                     };
-                    this.broadcast(notification, sessionId);
+                    this.broadcast(notification, account.wxid, sessionId);
+
+                    if (message.type === ChatLabType.RECALL) {
+                        this.broadcastRecall(account.wxid, sessionId, msg);
+                    }
+                    if (sessionId.endsWith('@chatroom')) {
+                        await this.broadcastGroupEvent(account, sessionId, msg);
+                    }
                 }
             }
         } catch (e) {
@@ -609,440 +764,100 @@ export class WsService {
         }
     }
 
-    // 解码消息内容
-    private decodeMessageContent(messageContent: any, compressContent: any): string {
-        let content = '';
-
-        if (compressContent) {
-            content = this.decodeMaybeCompressed(compressContent);
-        }
-        if (!content && messageContent) {
-            content = this.decodeMaybeCompressed(messageContent);
-        }
-
-        return content;
-    }
-
-    private decodeMaybeCompressed(raw: any): string {
-        if (!raw) return '';
-        if (typeof raw === 'string') {
-            if (raw.length === 0) return '';
-
-            // 检查是否是 hex 编码
-            if (raw.length > 16 && /^[0-9a-fA-F]+$/.test(raw)) {
-                try {
-                    const bytes = Buffer.from(raw, 'hex');
-                    if (bytes.length > 0) return this.decodeBinaryContent(bytes);
-                } catch { }
-            }
-
-            // 检查是否是 base64 编码
-            if (raw.length > 16 && /^[A-Za-z0-9+/=]+$/.test(raw)) {
-                try {
-                    const bytes = Buffer.from(raw, 'base64');
-                    return this.decodeBinaryContent(bytes);
-                } catch {
-                    return raw;
-                }
-            }
-
-            return raw;
-        }
-        return '';
-    }
-
-    private decodeBinaryContent(data: Buffer): string {
-        if (data.length === 0) return '';
-        try {
-            // 检查是否是 zstd 压缩
-            if (data.length >= 4) {
-                const magic = data.readUInt32LE(0);
-                if (magic === 0xfd2fb528) {
-                    const decompressed = fzstd.decompress(data);
-                    return Buffer.from(decompressed).toString('utf-8');
-                }
-            }
-            // 直接尝试 UTF-8 解码
-            const decoded = data.toString('utf-8');
-            const replacementCount = (decoded.match(/\uFFFD/g) || []).length;
-            if (replacementCount < decoded.length * 0.2) {
-                return decoded.replace(/\uFFFD/g, '');
-            }
-            return data.toString('latin1');
-        } catch {
-            return '';
-        }
-    }
-    private truncateMessagePreview(content: string, maxLength: number): string {
-        if (!content) return '';
-        const cleaned = content.replace(/\s+/g, ' ').trim();
-        if (cleaned.length <= maxLength) return cleaned;
-        return `${cleaned.slice(0, maxLength)}\u2026`;
-    }
-
-    // 消息内容解析（与 HTTP 服务保持一致）
-    private parseMessageContent(content: string, localType: number): string | null {
-        if (!content) return null;
-
-        // 检查 XML 中的 type 标签
-        const xmlType = this.extractMessageXmlType(content, localType) || null;
-
-        switch (localType) {
-            case 1: // 文本
-                return this.stripSenderPrefix(content);
-            case 3:
-                return '[图片]';
-            case 34:
-                return '[语音消息]';
-            case 42:
-                return '[名片]';
-            case 43:
-                return '[视频]';
-            case 47:
-                return '[动画表情]';
-            case 48:
-                return '[位置]';
-            case 49: {
-                const appMsg = this.extractAppMessageInfo(content, localType);
-                const title = appMsg.title || this.extractXmlValue(content, 'title');
-                const type = appMsg.xmlType || this.extractXmlValue(content, 'type');
-
-                // 转账消息特殊处理
-                if (type === '2000') {
-                    const feedesc = this.extractXmlValue(content, 'feedesc');
-                    const payMemo = this.extractXmlValue(content, 'pay_memo');
-                    if (feedesc) {
-                        return payMemo ? `[转账] ${feedesc} ${payMemo}` : `[转账] ${feedesc}`;
-                    }
-                    return '[转账]';
-                }
-
-                if (type === '6') return title ? `[文件] ${title}` : '[文件]';
-                if (type === '19') return title ? `[聊天记录] ${title}` : '[聊天记录]';
-                if (type === '33' || type === '36') return title ? `[小程序] ${title}` : '[小程序]';
-                if (type === '57') return this.formatReplyContent(title);
-                if (type === '5' || type === '49') return title ? `[链接] ${title}` : '[链接]';
-                return title ? `[链接] ${title}` : '[链接]';
-            }
-            case 50:
-                return '[通话]';
-            case 10000:
-                return this.cleanSystemMessage(content);
-            case 266287972401: // 拍一拍
-                return this.formatPokeMessage(content);
-            case 244813135921: {
-                // 引用消息 - 提取 title
-                const title = this.extractXmlValue(content, 'title');
-                return this.formatReplyContent(title);
-            }
-            default:
-                // 对于未知的 localType，检查 XML type 来判断消息类型
-                if (xmlType) {
-                    const appMsg = this.extractAppMessageInfo(content, localType);
-                    const title = appMsg.title || this.extractXmlValue(content, 'title');
-
-                    // 群公告消息（type 87）
-                    if (xmlType === '87') {
-                        const textAnnouncement = this.extractXmlValue(content, 'textannouncement');
-                        if (textAnnouncement) {
-                            return `[群公告] ${textAnnouncement}`;
-                        }
-                        return '[群公告]';
-                    }
-
-                    // 转账消息
-                    if (xmlType === '2000') {
-                        const feedesc = this.extractXmlValue(content, 'feedesc');
-                        const payMemo = this.extractXmlValue(content, 'pay_memo');
-                        if (feedesc) {
-                            return payMemo ? `[转账] ${feedesc} ${payMemo}` : `[转账] ${feedesc}`;
-                        }
-                        return '[转账]';
-                    }
-
-                    // 其他类型
-                    if (xmlType === '6') return title ? `[文件] ${title}` : '[文件]';
-                    if (xmlType === '19') return title ? `[聊天记录] ${title}` : '[聊天记录]';
-                    if (xmlType === '33' || xmlType === '36') return title ? `[小程序] ${title}` : '[小程序]';
-                    if (xmlType === '57') return this.formatReplyContent(title);
-                    if (xmlType === '5' || xmlType === '49') return title ? `[链接] ${title}` : '[链接]';
-                    if (title) return title;
-                }
-
-                // 最后尝试提取文本内容
-                return this.stripSenderPrefix(content) || null;
-        }
+    private isSystemLocalType(row: any): boolean {
+        const localType = parseInt(row.local_type || row.type || '1', 10);
+        return localType === 10000 || localType === 10002;
     }
 
     /**
-     * 清理系统消息
+     * 转换为推送用的 ChatLab 消息，并按服务端 ID 缓存，供之后的撤回通知使用
      */
-    private cleanSystemMessage(content: string): string {
-        if (!content) return '[系统消息]';
-
-        // 处理 CDATA 内容
-        content = content.replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '');
-
-        // 移除所有 XML 标签
-        let cleaned = content.replace(/<[^>]+>/g, '');
-        
-        // 移除尾部的数字（如撤回消息后的时间戳）
-        cleaned = cleaned.replace(/\d+\s*$/, '');
-        
-        // 清理多余空白
-        cleaned = cleaned.replace(/\s+/g, ' ').trim();
-
-        cleaned = this.normalizeChineseQuotes(cleaned);
-        return cleaned || '[系统消息]';
+    private rememberMessage(account: string, sessionId: string, msg: NormalizedMessage) {
+        const normalizer = getMessageNormalizer();
+        const chatLab = normalizer.toChatLab(msg);
+        const message = {
+            ...chatLab,
+            mediaUrl: normalizer.getMediaUrl(msg, sessionId, getAccountRegistry().getApiBasePath(account)),
+            payload: normalizer.getRichPayload(msg, account),
+            quoted: chatLab.type === ChatLabType.REPLY ? this.findQuotedMessage(account, msg) : undefined,
+        };
+        this.recentMessages.set(account, msg.serverId, { sessionId, message, recalled: false });
+        return message;
     }
 
     /**
-     * 移除发送者前缀
+     * 被引用的原消息：优先使用 refermsg，缺失时从近期消息缓存中按 serverId 查找（推送时不扫描数据库）
      */
+    private findQuotedMessage(account: string, msg: NormalizedMessage): QuotedMessage | null {
+        const quoted = getMessageNormalizer().getQuotedMessage(msg);
+        if (quoted || !msg.referencedMessageId) return quoted;
 
-
-    private normalizeChineseQuotes(text: string): string {
-        if (!text || !text.includes('"')) return text;
-        let result = '';
-        let open = true;
-        for (const ch of text) {
-            if (ch === '"') {
-                result += open ? '\u201c' : '\u201d';
-                open = !open;
-            } else {
-                result += ch;
-            }
-        }
-        return result;
-    }
-
-    private formatReplyContent(title: string | null | undefined): string {
-        const value = (title || '').trim();
-        if (!value) return '[\u5f15\u7528]';
-        if (value.startsWith('[\u5f15\u7528]')) return value;
-        return `[\u5f15\u7528] ${value}`;
-    }
-
-    private formatPokeMessage(content: string): string {
-        const cleaned = this.cleanSystemMessage(content);
-        const names: string[] = [];
-        const regex = /["\u201c\u201d](.*?)["\u201c\u201d]/g;
-        let match: RegExpExecArray | null;
-        while ((match = regex.exec(cleaned)) && names.length < 2) {
-            const name = match[1].trim();
-            if (name) names.push(name);
-        }
-        if (names.length >= 2) {
-            return `\u201c${names[0]}\u201d \u62cd\u4e86\u62cd \u201c${names[1]}\u201d`;
-        }
-        return cleaned;
-    }
-
-    private stripSenderPrefix(content: string): string | null {
-        const result = content.replace(/^[\s]*([a-zA-Z0-9_-]+):(?!\/\/)\s*/, '').trim();
-        return result || null;
+        const cached = this.recentMessages.get(account, msg.referencedMessageId);
+        if (!cached) return null;
+        const { platformMessageId, sender, type, content, timestamp } = cached.message;
+        return { platformMessageId: platformMessageId ?? null, sender: sender || null, displayName: null, type, content, timestamp };
     }
 
-    private extractXmlValue(xml: string, tagName: string): string {
-        const regex = new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`, 'i');
-        const match = regex.exec(xml);
-        if (match) {
-            return match[1].replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '').trim();
-        }
-        return '';
-    }
-
-    private normalizeAppMessageContent(content: string): string {
-        if (!content) return '';
-        if (content.includes('&lt;') && content.includes('&gt;')) {
-            return content
-                .replace(/&lt;/g, '<')
-                .replace(/&gt;/g, '>')
-                .replace(/&amp;/g, '&')
-                .replace(/&quot;/g, '"')
-                .replace(/&#39;/g, "'")
-                .replace(/&apos;/g, "'");
-        }
-        return content;
-    }
-
-    private isAppMessageContent(content: string): boolean {
-        if (!content) return false;
-        return (
-            content.includes('<appmsg') ||
-            content.includes('&lt;appmsg') ||
-            content.includes('<msg>') ||
-            content.includes('&lt;msg')
-        );
-    }
-
-    private extractAppMessageInfo(content: string, localType?: number): { xmlType?: string; title?: string; url?: string } {
-        if (!content) return {};
-        if (localType !== 49 && !this.isAppMessageContent(content)) return {};
-
-        const normalized = this.normalizeAppMessageContent(content);
-        const appMsgBodyMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
-        const appMsgBody = appMsgBodyMatch ? appMsgBodyMatch[1] : normalized;
-
-        const xmlType = this.extractXmlValue(appMsgBody, 'type') || this.extractXmlValue(normalized, 'type') || undefined;
-        const title = this.extractXmlValue(appMsgBody, 'title') || this.extractXmlValue(appMsgBody, 'des') || undefined;
-        const rawUrl = this.extractXmlValue(appMsgBody, 'url') || this.extractXmlValue(normalized, 'url');
-        const url = this.normalizeLinkUrl(rawUrl) || undefined;
-
-        return { xmlType, title, url };
-    }
-
-
-    private extractReferencedMessageId(content: string): string | undefined {
-        if (!content) return undefined;
-
-        const normalized = this.normalizeAppMessageContent(content);
-        const blocks: string[] = [];
-
-        const referMatch = /<refermsg\b[^>]*>([\s\S]*?)<\/refermsg>/i.exec(normalized);
-        if (referMatch?.[1]) {
-            blocks.push(referMatch[1]);
-        }
-
-        const appMsgMatch = /<appmsg\b[^>]*>([\s\S]*?)<\/appmsg>/i.exec(normalized);
-        if (appMsgMatch?.[1]) {
-            blocks.push(appMsgMatch[1]);
-        }
-
-        blocks.push(normalized);
-
-        const tags = ['svrid', 'msgid', 'msgId', 'frommsgid', 'from_msgid', 'quoteid', 'refermsgid'];
-        for (const block of blocks) {
-            for (const tag of tags) {
-                const value = this.extractXmlValue(block, tag);
-                if (value && /^[0-9]+$/.test(value)) {
-                    return value;
-                }
-            }
-        }
-
-        return undefined;
-    }
-
-    private isReplyMessage(localType: number, xmlType?: string): boolean {
-        return localType === 244813135921 || xmlType === '57';
-    }
-
-    private extractMessageXmlType(content: string, localType?: number): string {
-        const appMsg = this.extractAppMessageInfo(content, localType);
-        return appMsg.xmlType || this.extractXmlValue(content, 'type');
-    }
+    /**
+     * 推送 message_recalled：message 为本进程此前缓存的原始消息，未缓存（进程启动前的消息或已被淘汰）时为 null
+     */
+    private broadcastRecall(account: string, sessionId: string, recall: NormalizedMessage): void {
+        const target = getMessageNormalizer().getRecallTarget(recall);
+        if (!target) return;
 
-    private extractLinkUrl(content: string, localType?: number): string {
-        const appMsg = this.extractAppMessageInfo(content, localType);
-        if (!appMsg.url) return '';
-        if (!appMsg.xmlType || appMsg.xmlType === '5' || appMsg.xmlType === '49') return appMsg.url;
-        return '';
-    }
+        const cached = this.recentMessages.get(account, target);
+        if (cached?.recalled) return;
+        if (cached) cached.recalled = true;
 
-    private normalizeLinkUrl(rawUrl: string): string {
-        const value = (rawUrl || '').trim();
-        if (!value) return '';
+        console.log(`[\u64a4\u56de] ${recall.senderUsername || sessionId} \u64a4\u56de\u4e86\u6d88\u606f ${target}${cached ? '' : '\uff08\u672a\u7f13\u5b58\u539f\u59cb\u5185\u5bb9\uff09'}`);
 
-        const parseHttpUrl = (candidate: string): string => {
-            try {
-                const parsed = new URL(candidate);
-                if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
-                    return parsed.toString();
-                }
-            } catch {
-                return '';
-            }
-            return '';
+        const notification = {
+            type: 'message_recalled',
+            account,
+            sessionId,
+            platformMessageId: target,
+            recalledBy: recall.senderUsername || null,
+            recallTime: recall.createTime,
+            notice: recall.parsedContent,
+            message: cached && cached.sessionId === sessionId ? cached.message : null,
+            timestamp: Date.now(),
         };
-
-        if (value.startsWith('//')) {
-            return parseHttpUrl(`https:${value}`);
-        }
-
-        const direct = parseHttpUrl(value);
-        if (direct) return direct;
-
-        const hasScheme = /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value);
-        const isDomainLike = /^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}(?:[/:?#].*)?$/.test(value);
-        if (!hasScheme && isDomainLike) {
-            return parseHttpUrl(`https://${value}`);
-        }
-
-        return '';
+        this.broadcast(notification, account, sessionId);
     }
 
     /**
-     * 映射 WeChat 消息类型到 ChatLab 类型
+     * 群系统消息能解析为群事件时推送 group_event（在 new_message 之后）
      */
-    private mapMessageType(localType: number, xmlType?: string): number {
-        switch (localType) {
-            case 1: // 文本
-                return ChatLabType.TEXT;
-            case 3: // 图片
-                return ChatLabType.IMAGE;
-            case 34: // 语音
-                return ChatLabType.VOICE;
-            case 43: // 视频
-                return ChatLabType.VIDEO;
-            case 47: // 动画表情
-                return ChatLabType.EMOJI;
-            case 48: // 位置
-                return ChatLabType.LOCATION;
-            case 42: // 名片
-                return ChatLabType.CONTACT;
-            case 50: // 语音/视频通话
-                return ChatLabType.CALL;
-            case 10000: // 系统消息
-                return ChatLabType.SYSTEM;
-            case 49: // 复合消息
-                return this.mapType49(xmlType);
-            case 244813135921: // 引用消息
-                return ChatLabType.REPLY;
-            case 266287972401: // 拍一拍
-                return ChatLabType.POKE;
-            case 8594229559345: // 红包
-                return ChatLabType.RED_PACKET;
-            case 8589934592049: // 转账
-                return ChatLabType.TRANSFER;
-            default:
-                if (xmlType) {
-                    return this.mapType49(xmlType);
-                }
-                return ChatLabType.OTHER;
-        }
+    private async broadcastGroupEvent(account: Account, sessionId: string, msg: NormalizedMessage): Promise<void> {
+        const parser = getGroupEventParser();
+        const event = parser.parse(msg, account.wxid);
+        if (!event) return;
+
+        await parser.resolveMembers(account.source, sessionId, [event]);
+        console.log(`[\u7fa4\u4e8b\u4ef6] ${sessionId} ${event.type} ${this.truncateMessagePreview(event.text, 20)}`);
+
+        const notification = {
+            type: 'group_event',
+            account: account.wxid,
+            sessionId,
+            event,
+            timestamp: Date.now(),
+        };
+        this.broadcast(notification, account.wxid, sessionId);
     }
 
-    /**
-     * 映射 Type 49 子类型
-     */
-    private mapType49(xmlType?: string): number {
-        switch (xmlType) {
-            case '5': // 链接
-            case '49':
-                return ChatLabType.LINK;
-            case '6': // 文件
-                return ChatLabType.FILE;
-            case '19': // 聊天记录
-                return ChatLabType.FORWARD;
-            case '33': // 小程序
-            case '36':
-                return ChatLabType.SHARE;
-            case '57': // 引用消息
-                return ChatLabType.REPLY;
-            case '2000': // 转账
-                return ChatLabType.TRANSFER;
-            case '2001': // 红包
-                return ChatLabType.RED_PACKET;
-            default:
-                return ChatLabType.OTHER;
-        }
+    private truncateMessagePreview(content: string, maxLength: number): string {
+        if (!content) return '';
+        const cleaned = content.replace(/\s+/g, ' ').trim();
+        if (cleaned.length <= maxLength) return cleaned;
+        return `${cleaned.slice(0, maxLength)}\u2026`;
     }
 
-    // 手动触发消息推送（供外部调用）
-    public pushMessage(sessionId: string, message: any): void {
+    // 手动触发消息推送（供外部调用），未指定账号时使用默认账号
+    public pushMessage(sessionId: string, message: any, account: string = getAccountRegistry().getDefault().wxid): void {
         const notification = {
             type: 'new_message',
+            account,
             sessionId,
             message: {
                 sender: message.sender,
@@ -1052,10 +867,13 @@ export class WsService {
                 referencedPlatformMessageId: message.referencedPlatformMessageId,
                 url: message.type === ChatLabType.LINK ? message.url : undefined,
                 platformMessageId: message.platformMessageId,
+                mediaUrl: message.mediaUrl,
+                payload: message.payload,
+                quoted: message.quoted,
             },
             timestamp: Date.now(),
         };
-        this.broadcast(notification, sessionId);
+        this.broadcast(notification, account, sessionId);
     }
 }
 
@@ -0,0 +1,230 @@
+/**
+ * 鉴权测试：Bearer / token 参数取密钥、HTTP 路由的权限检查、会话范围和打码规则
+ */
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type * as http from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthService, canAccessSession, redactForKey, redactObjectForKey, type ApiKey } from '../src/auth.js';
+import { HttpService } from '../src/httpService.js';
+import type { ApiKeyConfig, ApiScope, RedactRule, SessionScopeConfig } from '../src/config.js';
+
+function keyConfig(name: string, key: string, scopes: ApiScope[]): ApiKeyConfig {
+    return { name, key, scopes, sessions: null, redact: [] };
+}
+
+/** 按会话范围和打码规则构造一个已通过鉴权的密钥 */
+function apiKeyWith(sessions: SessionScopeConfig | null, redact: RedactRule[] = []): ApiKey {
+    const auth = new AuthService([{ name: 'test', key: 'test-key', scopes: ['messages'], sessions, redact }]);
+    return auth.authenticate('Bearer test-key')!;
+}
+
+describe('AuthService.authenticate', () => {
+    const auth = new AuthService([
+        keyConfig('full', 'full-key', ['sessions', 'messages', 'contacts', 'realtime']),
+        keyConfig('reader', 'reader-key', ['sessions']),
+    ]);
+
+    test('Authorization: Bearer', () => {
+        assert.equal(auth.authenticate('Bearer full-key')?.name, 'full');
+        assert.equal(auth.authenticate('bearer   reader-key  ')?.name, 'reader');
+        assert.deepEqual([...auth.authenticate('Bearer reader-key')!.scopes], ['sessions']);
+    });
+
+    test('token 参数', () => {
+        assert.equal(auth.authenticate(undefined, 'reader-key')?.name, 'reader');
+        assert.equal(auth.authenticate('', 'full-key')?.name, 'full');
+    });
+
+    test('同时提供时以 Authorization 头为准', () => {
+        assert.equal(auth.authenticate('Bearer reader-key', 'full-key')?.name, 'reader');
+        assert.equal(auth.authenticate('Bearer wrong-key', 'full-key'), null);
+    });
+
+    test('密钥错误或缺失', () => {
+        assert.equal(auth.authenticate('Bearer wrong-key'), null);
+        assert.equal(auth.authenticate('Bearer full-key-extra'), null);
+        assert.equal(auth.authenticate('Basic full-key'), null);
+        assert.equal(auth.authenticate('full-key'), null);
+        assert.equal(auth.authenticate(undefined, ''), null);
+        assert.equal(auth.authenticate(undefined, null), null);
+    });
+
+    test('未配置密钥时不启用鉴权', () => {
+        assert.equal(new AuthService([]).isEnabled(), false);
+        assert.equal(auth.isEnabled(), true);
+    });
+});
+
+describe('canAccessSession', () => {
+    test('未启用鉴权或未限制会话时全部允许', () => {
+        assert.equal(canAccessSession(null, 'wxid_a'), true);
+        assert.equal(canAccessSession(apiKeyWith(null), '123@chatroom'), true);
+    });
+
+    test('allow 列表：精确 ID 与通配符', () => {
+        const key = apiKeyWith({ allow: ['wxid_boss', '*@chatroom', 'gh_*'], deny: [] });
+        assert.equal(canAccessSession(key, 'wxid_boss'), true);
+        assert.equal(canAccessSession(key, '123456@chatroom'), true);
+        assert.equal(canAccessSession(key, 'gh_abcdef'), true);
+        assert.equal(canAccessSession(key, 'wxid_boss2'), false);
+        assert.equal(canAccessSession(key, 'wxid_other'), false);
+        assert.equal(canAccessSession(key, '123456@chatroom_x'), false);
+        assert.equal(canAccessSession(key, 'xgh_abc'), false);
+    });
+
+    test('deny 列表优先，allow 为空时允许其余会话', () => {
+        const key = apiKeyWith({ allow: [], deny: ['wxid_private', 'gh_*'] });
+        assert.equal(canAccessSession(key, 'wxid_private'), false);
+        assert.equal(canAccessSession(key, 'gh_news'), false);
+        assert.equal(canAccessSession(key, 'wxid_friend'), true);
+        assert.equal(canAccessSession(key, '1@chatroom'), true);
+
+        const both = apiKeyWith({ allow: ['*@chatroom'], deny: ['999@chatroom'] });
+        assert.equal(canAccessSession(both, '1@chatroom'), true);
+        assert.equal(canAccessSession(both, '999@chatroom'), false);
+        assert.equal(canAccessSession(both, 'wxid_friend'), false);
+    });
+
+    test('模式中的正则元字符按字面匹配，区分大小写', () => {
+        const key = apiKeyWith({ allow: ['a.b+c', 'Team*'], deny: [] });
+        assert.equal(canAccessSession(key, 'a.b+c'), true);
+        assert.equal(canAccessSession(key, 'axbbc'), false);
+        assert.equal(canAccessSession(key, 'Team-1'), true);
+        assert.equal(canAccessSession(key, 'team-1'), false);
+    });
+});
+
+describe('redactForKey / redactObjectForKey', () => {
+    test('没有打码规则时原样返回', () => {
+        const value = { content: '13812345678' };
+        assert.equal(redactObjectForKey(null, value), value);
+        assert.equal(redactObjectForKey(apiKeyWith(null), value), value);
+        assert.equal(redactForKey(apiKeyWith(null), '13812345678'), '13812345678');
+        assert.equal(redactForKey(apiKeyWith(null, ['phone']), null), null);
+    });
+
+    test('按密钥的规则处理嵌套内容', () => {
+        const key = apiKeyWith(null, ['phone', 'idcard', 'bankcard', 'amount']);
+        const payload = {
+            type: 'transfer',
+            amount: 520,
+            title: '转账 ¥520.00',
+            content: '电话 13812345678，身份证 11010519491231002X，卡号 6222 0212 3456 7890，共 200元',
+            items: [{ text: '+86 138-1234-5678' }, 42],
+            sender: null,
+        };
+        assert.deepEqual(redactObjectForKey(key, payload), {
+            type: 'transfer',
+            amount: null,
+            title: '转账 ¥***',
+            content: '电话 138****5678，身份证 110***********002X，卡号 **** **** **** 7890，共 ***元',
+            items: [{ text: '+86 138-****-5678' }, 42],
+            sender: null,
+        });
+        // 原对象不被修改
+        assert.equal(payload.content.startsWith('电话 13812345678'), true);
+    });
+
+    test('只应用密钥启用的规则', () => {
+        const key = apiKeyWith(null, ['phone']);
+        assert.deepEqual(redactObjectForKey(key, { amount: 520, content: '13812345678 ¥520' }), {
+            amount: 520,
+            content: '138****5678 ¥520',
+        });
+    });
+});
+
+describe('HTTP 鉴权与权限', () => {
+    let dir: string;
+    let service: HttpService;
+    let baseUrl: string;
+
+    before(async () => {
+        dir = mkdtempSync(join(tmpdir(), 'weflow-auth-'));
+        Object.assign(process.env, {
+            DATA_SOURCE: 'sqlite',
+            DB_PATH: dir,
+            MY_WXID: 'wxid_test',
+            HTTP_HOST: '127.0.0.1',
+            HTTP_PORT: '0',
+            API_KEYS: 'full-key,sessions-key:sessions,messages-key:messages|contacts',
+        });
+
+        service = new HttpService();
+        await service.start();
+        const server = (service as unknown as { server: http.Server }).server;
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await service.stop();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function status(path: string, key?: string): Promise<number> {
+        const res = await fetch(baseUrl + path, { headers: key ? { Authorization: `Bearer ${key}` } : {} });
+        await res.arrayBuffer();
+        return res.status;
+    }
+
+    // 测试中的账号没有打开数据库，只检查请求是否通过了鉴权
+    const PASSED = 'passed';
+
+    async function check(path: string, key: string): Promise<number | typeof PASSED> {
+        const code = await status(path, key);
+        return code === 401 || code === 403 ? code : PASSED;
+    }
+
+    test('缺少或错误的密钥返回 401', async () => {
+        const res = await fetch(`${baseUrl}/api/v1/sessions`);
+        assert.equal(res.status, 401);
+        assert.equal(res.headers.get('www-authenticate'), 'Bearer');
+        assert.deepEqual(await res.json(), { error: 'Unauthorized' });
+
+        assert.equal(await status('/api/v1/sessions', 'wrong-key'), 401);
+        assert.equal(await status('/api/v1/accounts/wxid_test/sessions', 'wrong-key'), 401);
+    });
+
+    test('HTTP 不接受 token 参数', async () => {
+        assert.equal(await status('/api/v1/sessions?token=full-key'), 401);
+    });
+
+    test('健康检查无需密钥', async () => {
+        assert.equal(await status('/health/live'), 200);
+    });
+
+    test('有效密钥通过鉴权', async () => {
+        assert.equal(await check('/api/v1/sessions', 'full-key'), PASSED);
+        assert.equal(await check('/api/v1/messages', 'full-key'), PASSED);
+        assert.equal(await check('/api/v1/accounts', 'sessions-key'), PASSED);
+    });
+
+    test('缺少路由所需权限时返回 403', async () => {
+        const cases: [string, string, number | typeof PASSED][] = [
+            ['/api/v1/sessions', 'sessions-key', PASSED],
+            ['/api/v1/databases', 'sessions-key', PASSED],
+            ['/api/v1/messages', 'sessions-key', 403],
+            ['/api/v1/sessions/wxid_a/count', 'sessions-key', 403],
+            ['/api/v1/media/image', 'sessions-key', 403],
+            ['/api/v1/contacts', 'sessions-key', 403],
+            ['/api/v1/messages', 'messages-key', PASSED],
+            ['/api/v1/mentions', 'messages-key', PASSED],
+            ['/api/v1/search', 'messages-key', PASSED],
+            ['/api/v1/groups/123%40chatroom/events', 'messages-key', PASSED],
+            ['/api/v1/contacts', 'messages-key', PASSED],
+            ['/api/v1/avatars', 'messages-key', PASSED],
+            ['/api/v1/sessions', 'messages-key', 403],
+            ['/api/v1/accounts/wxid_test/sessions', 'messages-key', 403],
+        ];
+        for (const [path, key, expected] of cases) {
+            assert.equal(await check(path, key), expected, `${key} ${path}`);
+        }
+
+        const res = await fetch(`${baseUrl}/api/v1/messages`, { headers: { Authorization: 'Bearer sessions-key' } });
+        assert.deepEqual(await res.json(), { error: 'Forbidden: API key lacks scope "messages"' });
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * 数据库解密测试：用与微信 4.x 相同的 SQLCipher 4 参数生成加密页，再校验密钥和解密结果
+ */
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { pbkdf2Sync, createHmac, createCipheriv, createHash } from 'crypto';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseHexKey, verifyDatabaseKey, decryptDatabaseFile, decryptDbStorage } from '../src/dbDecrypt.js';
+
+const PAGE_SIZE = 4096;
+const RESERVE_SIZE = 80;
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'latin1');
+
+const KEY = createHash('sha256').update('weflow-test-key').digest();
+const HEX_KEY = KEY.toString('hex');
+const WRONG_KEY = createHash('sha256').update('wrong-key').digest('hex');
+const SALT = Buffer.from('0123456789abcdef', 'latin1');
+
+/** 第 n 页的明文（第 1 页不含文件头的 16 字节） */
+function plainPage(pageNo: number): Buffer {
+    const size = PAGE_SIZE - RESERVE_SIZE - (pageNo === 1 ? SQLITE_HEADER.length : 0);
+    return Buffer.alloc(size, `page-${pageNo};`);
+}
+
+/** 按 SQLCipher 4 的格式加密：第 1 页以 salt 开头，每页尾部为 IV + HMAC */
+function encryptPages(pages: Buffer[], key: Buffer, salt: Buffer): Buffer {
+    const encKey = pbkdf2Sync(key, salt, 256000, 32, 'sha512');
+    const macKey = pbkdf2Sync(encKey, Buffer.from(salt.map((b) => b ^ 0x3a)), 2, 32, 'sha512');
+
+    return Buffer.concat(pages.map((plain, index) => {
+        const pageNo = index + 1;
+        const iv = createHash('md5').update(`iv-${pageNo}`).digest();
+        const cipher = createCipheriv('aes-256-cbc', encKey, iv);
+        cipher.setAutoPadding(false);
+        const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+
+        const pageNoBuf = Buffer.alloc(4);
+        pageNoBuf.writeUInt32LE(pageNo, 0);
+        const mac = createHmac('sha512', macKey).update(encrypted).update(iv).update(pageNoBuf).digest();
+        return Buffer.concat([pageNo === 1 ? salt : Buffer.alloc(0), encrypted, iv, mac]);
+    }));
+}
+
+let dir: string;
+let encrypted: Buffer;
+
+before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'weflow-decrypt-'));
+    encrypted = encryptPages([plainPage(1), plainPage(2), plainPage(3)], KEY, SALT);
+    writeFileSync(join(dir, 'message_0.db'), encrypted);
+});
+
+after(() => {
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseHexKey', () => {
+    test('64 位十六进制', () => {
+        assert.deepEqual(parseHexKey(HEX_KEY), KEY);
+        assert.deepEqual(parseHexKey(`  0x${HEX_KEY.toUpperCase()} `), KEY);
+    });
+
+    test('格式错误', () => {
+        assert.equal(parseHexKey(''), null);
+        assert.equal(parseHexKey(HEX_KEY.slice(2)), null);
+        assert.equal(parseHexKey(`${HEX_KEY.slice(1)}g`), null);
+    });
+});
+
+describe('verifyDatabaseKey', () => {
+    test('正确的密钥', () => {
+        assert.deepEqual(verifyDatabaseKey(join(dir, 'message_0.db'), HEX_KEY), { success: true, data: true });
+    });
+
+    test('错误的密钥', () => {
+        assert.deepEqual(verifyDatabaseKey(join(dir, 'message_0.db'), WRONG_KEY), { success: true, data: false });
+    });
+
+    test('密钥格式错误', () => {
+        const result = verifyDatabaseKey(join(dir, 'message_0.db'), 'abc');
+        assert.equal(result.success, false);
+        assert.match(result.error!, /密钥格式错误/);
+    });
+
+    test('未加密或过小的文件', () => {
+        writeFileSync(join(dir, 'plain.db'), Buffer.concat([SQLITE_HEADER, Buffer.alloc(PAGE_SIZE - SQLITE_HEADER.length)]));
+        writeFileSync(join(dir, 'small.db'), Buffer.alloc(100));
+
+        const plain = verifyDatabaseKey(join(dir, 'plain.db'), HEX_KEY);
+        assert.equal(plain.success, false);
+        assert.match(plain.error!, /文件未加密/);
+
+        const small = verifyDatabaseKey(join(dir, 'small.db'), HEX_KEY);
+        assert.equal(small.success, false);
+        assert.match(small.error!, /文件过小/);
+    });
+});
+
+describe('decryptDatabaseFile', () => {
+    test('解密后每页为明文加原样保留的 IV / HMAC', () => {
+        const target = join(dir, 'out', 'message_0.db');
+        const result = decryptDatabaseFile(join(dir, 'message_0.db'), target, HEX_KEY);
+        assert.deepEqual(result, {
+            success: true,
+            data: { source: join(dir, 'message_0.db'), target, pages: 3, plaintext: false },
+        });
+
+        const decrypted = readFileSync(target);
+        assert.equal(decrypted.length, 3 * PAGE_SIZE);
+        assert.deepEqual(decrypted.subarray(0, SQLITE_HEADER.length), SQLITE_HEADER);
+        for (let pageNo = 1; pageNo <= 3; pageNo++) {
+            const page = decrypted.subarray((pageNo - 1) * PAGE_SIZE, pageNo * PAGE_SIZE);
+            const dataStart = pageNo === 1 ? SQLITE_HEADER.length : 0;
+            assert.deepEqual(page.subarray(dataStart, PAGE_SIZE - RESERVE_SIZE), plainPage(pageNo), `page ${pageNo}`);
+            assert.deepEqual(
+                page.subarray(PAGE_SIZE - RESERVE_SIZE),
+                encrypted.subarray(pageNo * PAGE_SIZE - RESERVE_SIZE, pageNo * PAGE_SIZE),
+                `reserve ${pageNo}`
+            );
+        }
+    });
+
+    test('全零页原样写出，末尾不完整的页忽略', () => {
+        const source = join(dir, 'sparse.db');
+        writeFileSync(source, Buffer.concat([encrypted.subarray(0, PAGE_SIZE), Buffer.alloc(PAGE_SIZE), Buffer.alloc(100, 1)]));
+
+        const target = join(dir, 'out', 'sparse.db');
+        const result = decryptDatabaseFile(source, target, HEX_KEY);
+        assert.equal(result.success, true);
+        assert.equal(result.data!.pages, 2);
+
+        const decrypted = readFileSync(target);
+        assert.equal(decrypted.length, 2 * PAGE_SIZE);
+        assert.ok(decrypted.subarray(PAGE_SIZE).every((b) => b === 0));
+    });
+
+    test('错误的密钥', () => {
+        const target = join(dir, 'out', 'wrong.db');
+        const result = decryptDatabaseFile(join(dir, 'message_0.db'), target, WRONG_KEY);
+        assert.equal(result.success, false);
+        assert.match(result.error!, /首页 HMAC 校验失败/);
+        assert.equal(existsSync(target), false);
+    });
+
+    test('页被篡改时失败且不留下解密到一半的文件', () => {
+        const source = join(dir, 'tampered.db');
+        const tampered = Buffer.from(encrypted);
+        tampered[PAGE_SIZE + 100] ^= 0xff;
+        writeFileSync(source, tampered);
+
+        const target = join(dir, 'out', 'tampered.db');
+        const result = decryptDatabaseFile(source, target, HEX_KEY);
+        assert.equal(result.success, false);
+        assert.match(result.error!, /第 2 页 HMAC 校验失败/);
+        assert.equal(existsSync(target), false);
+    });
+
+    test('明文 SQLite 文件直接复制', () => {
+        const target = join(dir, 'out', 'plain.db');
+        const result = decryptDatabaseFile(join(dir, 'plain.db'), target, HEX_KEY);
+        assert.equal(result.success, true);
+        assert.equal(result.data!.plaintext, true);
+        assert.deepEqual(readFileSync(target), readFileSync(join(dir, 'plain.db')));
+    });
+});
+
+describe('decryptDbStorage', () => {
+    test('保持相对目录结构，单个文件失败不影响其他文件', () => {
+        const storage = join(dir, 'account', 'db_storage');
+        mkdirSync(join(storage, 'message'), { recursive: true });
+        writeFileSync(join(storage, 'message', 'message_0.db'), encrypted);
+        writeFileSync(join(storage, 'broken.db'), Buffer.alloc(10));
+
+        const output = join(dir, 'decrypted');
+        const result = decryptDbStorage(storage, output, HEX_KEY);
+        assert.equal(result.success, true);
+
+        const byName = new Map(result.data!.map((r) => [r.data!.source, r]));
+        const message = byName.get(join(storage, 'message', 'message_0.db'))!;
+        assert.equal(message.success, true);
+        assert.equal(message.data!.target, join(output, 'db_storage', 'message', 'message_0.db'));
+        assert.ok(existsSync(message.data!.target));
+
+        const broken = byName.get(join(storage, 'broken.db'))!;
+        assert.equal(broken.success, false);
+        assert.equal(broken.data!.pages, 0);
+    });
+
+    test('目录不存在或密钥格式错误', () => {
+        assert.equal(decryptDbStorage(join(dir, 'missing'), join(dir, 'x'), HEX_KEY).success, false);
+        assert.equal(decryptDbStorage(dir, join(dir, 'x'), 'abc').success, false);
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * 附件响应测试：Range / ETag 处理
+ */
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sendFile } from '../src/fileResponse.js';
+
+const CONTENT = '0123456789abcdef';
+
+let dir: string;
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'weflow-file-'));
+    writeFileSync(join(dir, 'report.pdf'), CONTENT);
+    writeFileSync(join(dir, 'empty.txt'), '');
+
+    server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const name = url.searchParams.get('name') || 'report.pdf';
+        void sendFile(req, res, join(dir, url.pathname.slice(1)), name, 'attachment');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    rmSync(dir, { recursive: true, force: true });
+});
+
+function get(path: string, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(baseUrl + path, { headers });
+}
+
+describe('sendFile', () => {
+    test('返回完整文件', async () => {
+        const res = await get('/report.pdf');
+        assert.equal(res.status, 200);
+        assert.equal(await res.text(), CONTENT);
+        assert.equal(res.headers.get('content-type'), 'application/pdf');
+        assert.equal(res.headers.get('content-length'), String(CONTENT.length));
+        assert.equal(res.headers.get('accept-ranges'), 'bytes');
+        assert.match(res.headers.get('content-disposition') || '', /^attachment; filename="report.pdf"/);
+        assert.match(res.headers.get('etag') || '', /^W\/"/);
+        assert.equal(res.headers.get('content-range'), null);
+    });
+
+    test('非 ASCII 文件名', async () => {
+        const name = '报告 "终稿".pdf';
+        const res = await get(`/report.pdf?name=${encodeURIComponent(name)}`);
+        assert.equal(res.headers.get('content-disposition'), `attachment; filename="__ ____.pdf"; filename*=UTF-8''${encodeURIComponent(name)}`);
+        await res.arrayBuffer();
+    });
+
+    test('单个范围', async () => {
+        const res = await get('/report.pdf', { Range: 'bytes=2-5' });
+        assert.equal(res.status, 206);
+        assert.equal(await res.text(), '2345');
+        assert.equal(res.headers.get('content-range'), `bytes 2-5/${CONTENT.length}`);
+        assert.equal(res.headers.get('content-length'), '4');
+    });
+
+    test('没有结束位置的范围', async () => {
+        const res = await get('/report.pdf', { Range: 'bytes=10-' });
+        assert.equal(res.status, 206);
+        assert.equal(await res.text(), 'abcdef');
+        assert.equal(res.headers.get('content-range'), `bytes 10-15/${CONTENT.length}`);
+    });
+
+    test('结束位置超出文件时截断到文件末尾', async () => {
+        const res = await get('/report.pdf', { Range: 'bytes=12-100' });
+        assert.equal(res.status, 206);
+        assert.equal(await res.text(), 'cdef');
+        assert.equal(res.headers.get('content-range'), `bytes 12-15/${CONTENT.length}`);
+    });
+
+    test('后缀范围', async () => {
+        const res = await get('/report.pdf', { Range: 'bytes=-4' });
+        assert.equal(res.status, 206);
+        assert.equal(await res.text(), 'cdef');
+        assert.equal(res.headers.get('content-range'), `bytes 12-15/${CONTENT.length}`);
+    });
+
+    test('后缀长度超过文件时返回整个文件', async () => {
+        const res = await get('/report.pdf', { Range: 'bytes=-100' });
+        assert.equal(res.status, 206);
+        assert.equal(await res.text(), CONTENT);
+        assert.equal(res.headers.get('content-range'), `bytes 0-15/${CONTENT.length}`);
+    });
+
+    for (const range of ['bytes=16-', 'bytes=100-200', 'bytes=5-2', 'bytes=-0']) {
+        test(`无法满足的范围 ${range}`, async () => {
+            const res = await get('/report.pdf', { Range: range });
+            assert.equal(res.status, 416);
+            assert.equal(res.headers.get('content-range'), `bytes */${CONTENT.length}`);
+            assert.equal(res.headers.get('content-type'), 'application/json; charset=utf-8');
+            assert.equal(res.headers.get('content-disposition'), null);
+            assert.equal(res.headers.get('etag'), null);
+            assert.match((await res.json()).error, /^Range not satisfiable/);
+        });
+    }
+
+    test('不支持的 Range 格式返回完整文件', async () => {
+        for (const range of ['bytes=0-1,4-5', 'items=0-1', 'bytes=-']) {
+            const res = await get('/report.pdf', { Range: range });
+            assert.equal(res.status, 200, range);
+            assert.equal(await res.text(), CONTENT);
+        }
+    });
+
+    test('If-None-Match 命中时返回 304', async () => {
+        const first = await get('/report.pdf');
+        const etag = first.headers.get('etag')!;
+        await first.arrayBuffer();
+
+        for (const ifNoneMatch of [etag, `W/"other", ${etag}`, '*']) {
+            const res = await get('/report.pdf', { 'If-None-Match': ifNoneMatch, Range: 'bytes=0-1' });
+            assert.equal(res.status, 304, ifNoneMatch);
+            assert.equal(res.headers.get('etag'), etag);
+            assert.equal(res.headers.get('content-disposition'), null);
+            assert.equal(await res.text(), '');
+        }
+
+        const res = await get('/report.pdf', { 'If-None-Match': 'W/"other"' });
+        assert.equal(res.status, 200);
+        await res.arrayBuffer();
+    });
+
+    test('空文件', async () => {
+        const res = await get('/empty.txt?name=empty.txt');
+        assert.equal(res.status, 200);
+        assert.equal(res.headers.get('content-length'), '0');
+        assert.equal(await res.text(), '');
+
+        const ranged = await get('/empty.txt?name=empty.txt', { Range: 'bytes=0-' });
+        assert.equal(ranged.status, 416);
+        assert.equal(ranged.headers.get('content-range'), 'bytes */0');
+        await ranged.arrayBuffer();
+    });
+
+    test('文件不存在时返回 404', async () => {
+        const res = await get('/missing.pdf');
+        assert.equal(res.status, 404);
+        assert.match((await res.json()).error, /^Attachment file is not readable/);
+    });
+});
@@ -0,0 +1,268 @@
+/**
+ * 群事件解析测试：模板系统消息与纯文本系统消息中的进群、退群、移出、改名、转让群主、群公告
+ */
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGroupEventParser, renderSystemTemplate, type GroupEvent } from '../src/groupEvents.js';
+import type { DataSource } from '../src/dataSource.js';
+import type { NormalizedMessage } from '../src/messageNormalizer.js';
+
+const MY_WXID = 'wxid_me';
+const parser = getGroupEventParser();
+
+function message(rawContent: string, overrides: Partial<NormalizedMessage> = {}): NormalizedMessage {
+    return {
+        localId: 1,
+        serverId: '9001',
+        localType: 10000,
+        createTime: 1700000000,
+        sortSeq: 1700000000000,
+        isSend: 0,
+        senderUsername: '',
+        parsedContent: '',
+        rawContent,
+        mentions: [],
+        mentionsAll: false,
+        ...overrides,
+    };
+}
+
+function member(username: string, nickname: string): string {
+    return `<member><username><![CDATA[${username}]]></username><nickname><![CDATA[${nickname}]]></nickname></member>`;
+}
+
+/** 新版微信的模板系统消息，links 为占位符名到 <link> 内容的映射 */
+function sysmsgTemplate(template: string, links: Record<string, string>, linkTypes: Record<string, string> = {}): string {
+    const linkList = Object.entries(links)
+        .map(([name, body]) => `<link name="${name}" type="${linkTypes[name] || 'link_profile'}">${body}</link>`)
+        .join('');
+    return '<sysmsg type="sysmsgtemplate"><sysmsgtemplate><content_template type="tmpl_type_profile">'
+        + `<plain><![CDATA[]]></plain><template><![CDATA[${template}]]></template>`
+        + `<link_list>${linkList}</link_list></content_template></sysmsgtemplate></sysmsg>`;
+}
+
+function parse(rawContent: string, overrides: Partial<NormalizedMessage> = {}): GroupEvent | null {
+    return parser.parse(message(rawContent, overrides), MY_WXID);
+}
+
+/** 只比较事件类型、操作人、目标和值 */
+function summary(event: GroupEvent | null) {
+    if (!event) return null;
+    return { type: event.type, actor: event.actor, targets: event.targets, value: event.value };
+}
+
+describe('GroupEventParser.parse 模板消息', () => {
+    test('邀请加入：成员列表带 wxid', () => {
+        const content = sysmsgTemplate('"$username$"邀请"$names$"加入了群聊', {
+            username: `<memberlist>${member('wxid_a', '张三')}</memberlist>`,
+            names: `<memberlist>${member('wxid_b', '李四')}${member('wxid_c', '王五')}</memberlist><separator><![CDATA[、]]></separator>`,
+        });
+        const event = parse(content, { parsedContent: '"张三"邀请"李四、王五"加入了群聊' });
+        assert.deepEqual(summary(event), {
+            type: 'member_joined',
+            actor: { username: 'wxid_a', displayName: '张三' },
+            targets: [{ username: 'wxid_b', displayName: '李四' }, { username: 'wxid_c', displayName: '王五' }],
+            value: null,
+        });
+        assert.equal(event!.text, '"张三"邀请"李四、王五"加入了群聊');
+        assert.equal(event!.timestamp, 1700000000);
+        assert.equal(event!.platformMessageId, '9001');
+    });
+
+    test('自己邀请时忽略撤销按钮', () => {
+        const content = sysmsgTemplate('你邀请"$names$"加入了群聊  $revoke$', {
+            names: `<memberlist>${member('wxid_b', '李四')}</memberlist>`,
+            revoke: '<title><![CDATA[撤销]]></title>',
+        }, { revoke: 'link_revoke' });
+        assert.deepEqual(summary(parse(content)), {
+            type: 'member_joined',
+            actor: { username: MY_WXID, displayName: null },
+            targets: [{ username: 'wxid_b', displayName: '李四' }],
+            value: null,
+        });
+        assert.equal(renderSystemTemplate(content), '你邀请"李四"加入了群聊');
+    });
+
+    test('扫码加入：分享人为操作人', () => {
+        const content = sysmsgTemplate('"$adder$"通过扫描"$from$"分享的二维码加入群聊', {
+            adder: `<memberlist>${member('wxid_new', '新人')}</memberlist>`,
+            from: `<memberlist>${member('wxid_a', '张三')}</memberlist>`,
+        });
+        assert.deepEqual(summary(parse(content)), {
+            type: 'member_joined',
+            actor: { username: 'wxid_a', displayName: '张三' },
+            targets: [{ username: 'wxid_new', displayName: '新人' }],
+            value: null,
+        });
+    });
+
+    test('移出群聊', () => {
+        const content = sysmsgTemplate('你将"$kickoutname$"移出了群聊', {
+            kickoutname: `<memberlist>${member('wxid_b', '李四')}</memberlist>`,
+        });
+        assert.deepEqual(summary(parse(content)), {
+            type: 'member_removed',
+            actor: { username: MY_WXID, displayName: null },
+            targets: [{ username: 'wxid_b', displayName: '李四' }],
+            value: null,
+        });
+    });
+
+    test('修改群名：新群名中的占位符按成员昵称渲染', () => {
+        const content = sysmsgTemplate('"$username$"修改群名为“$remark$”', {
+            username: `<memberlist>${member('wxid_a', '张三')}</memberlist>`,
+            remark: '<plain><![CDATA[项目组 2024]]></plain>',
+        });
+        assert.deepEqual(summary(parse(content)), {
+            type: 'group_renamed',
+            actor: { username: 'wxid_a', displayName: '张三' },
+            targets: [],
+            value: '项目组 2024',
+        });
+    });
+});
+
+describe('GroupEventParser.parse 纯文本消息', () => {
+    const cases: [string, string, ReturnType<typeof summary>][] = [
+        ['邀请加入', '"张三"邀请"李四、王五"加入了群聊', {
+            type: 'member_joined',
+            actor: { username: null, displayName: '张三' },
+            targets: [{ username: null, displayName: '李四' }, { username: null, displayName: '王五' }],
+            value: null,
+        }],
+        ['邀请自己', '"张三"邀请你加入了群聊', {
+            type: 'member_joined',
+            actor: { username: null, displayName: '张三' },
+            targets: [{ username: MY_WXID, displayName: null }],
+            value: null,
+        }],
+        ['中文引号', '“张三”邀请“李四”加入了群聊', {
+            type: 'member_joined',
+            actor: { username: null, displayName: '张三' },
+            targets: [{ username: null, displayName: '李四' }],
+            value: null,
+        }],
+        ['通过链接加入', '"新人"通过"张三"分享的邀请链接加入群聊', {
+            type: 'member_joined',
+            actor: { username: null, displayName: '张三' },
+            targets: [{ username: null, displayName: '新人' }],
+            value: null,
+        }],
+        ['退出群聊', '"李四"退出了群聊', {
+            type: 'member_left',
+            actor: { username: null, displayName: '李四' },
+            targets: [{ username: null, displayName: '李四' }],
+            value: null,
+        }],
+        ['被移出', '你被"张三"移出群聊', {
+            type: 'member_removed',
+            actor: { username: null, displayName: '张三' },
+            targets: [{ username: MY_WXID, displayName: null }],
+            value: null,
+        }],
+        ['修改群名', '"张三"修改群名为“周末爬山”', {
+            type: 'group_renamed',
+            actor: { username: null, displayName: '张三' },
+            targets: [],
+            value: '周末爬山',
+        }],
+        ['转让群主', '"张三"已将群主转让给"李四"', {
+            type: 'owner_changed',
+            actor: { username: null, displayName: '张三' },
+            targets: [{ username: null, displayName: '李四' }],
+            value: null,
+        }],
+        ['成为新群主', '"李四"已成为新群主', {
+            type: 'owner_changed',
+            actor: null,
+            targets: [{ username: null, displayName: '李四' }],
+            value: null,
+        }],
+        ['更新群公告', '"张三"修改了群公告', {
+            type: 'announcement_updated',
+            actor: { username: null, displayName: '张三' },
+            targets: [],
+            value: null,
+        }],
+    ];
+
+    for (const [name, text, expected] of cases) {
+        test(name, () => {
+            assert.deepEqual(summary(parse(text)), expected);
+        });
+    }
+
+    test('localType 10002 的系统消息', () => {
+        assert.equal(parse('<sysmsg><![CDATA["李四"退出了群聊]]></sysmsg>', { localType: 10002 })?.type, 'member_left');
+    });
+
+    test('不是群事件的系统消息', () => {
+        assert.equal(parse('以上是打招呼的内容'), null);
+        assert.equal(parse('你已添加了张三，现在可以开始聊天了。'), null);
+        assert.equal(parse('<sysmsg type="revokemsg"><revokemsg>"张三"撤回了一条消息</revokemsg></sysmsg>', { localType: 10002 }), null);
+        // 名字片段必须在开头：聊天内容中引用的文字不算
+        assert.equal(parse('有人说"张三"退出了群聊'), null);
+    });
+
+    test('普通文本消息不解析', () => {
+        assert.equal(parse('"张三"退出了群聊', { localType: 1 }), null);
+    });
+});
+
+describe('GroupEventParser.parse 群公告', () => {
+    test('appmsg type 87', () => {
+        const raw = '&lt;msg&gt;&lt;appmsg&gt;&lt;type&gt;87&lt;/type&gt;&lt;textannouncement&gt;本周五团建&lt;/textannouncement&gt;&lt;/appmsg&gt;&lt;/msg&gt;';
+        const event = parse(raw, { localType: 87 * 4294967296 + 49, xmlType: '87', senderUsername: 'wxid_a' });
+        assert.deepEqual(summary(event), {
+            type: 'announcement_updated',
+            actor: { username: 'wxid_a', displayName: null },
+            targets: [],
+            value: '本周五团建',
+        });
+    });
+
+    test('其他 appmsg 不是群事件', () => {
+        assert.equal(parse('<msg><appmsg><type>5</type></appmsg></msg>', { localType: 5 * 4294967296 + 49, xmlType: '5' }), null);
+    });
+
+    test('群公告栏系统消息', () => {
+        const raw = '<sysmsg type="mmchatroombarannouncememt"><mmchatroombarannouncememt><content><![CDATA[请大家改群昵称]]></content></mmchatroombarannouncememt></sysmsg>';
+        assert.deepEqual(summary(parse(raw, { localType: 10002, senderUsername: 'wxid_a' })), {
+            type: 'announcement_updated',
+            actor: { username: 'wxid_a', displayName: null },
+            targets: [],
+            value: '请大家改群昵称',
+        });
+    });
+});
+
+describe('GroupEventParser.isCandidate', () => {
+    test('只有系统消息和 appmsg', () => {
+        assert.equal(parser.isCandidate(10000), true);
+        assert.equal(parser.isCandidate(10002), true);
+        assert.equal(parser.isCandidate(49), true);
+        assert.equal(parser.isCandidate(87 * 4294967296 + 49), true);
+        assert.equal(parser.isCandidate(1), false);
+        assert.equal(parser.isCandidate(3), false);
+    });
+});
+
+describe('GroupEventParser.resolveMembers', () => {
+    test('按群昵称补全 wxid，按 wxid 补全显示名', async () => {
+        const source = {
+            getGroupMembers: async () => ({ success: true, data: [{ username: 'wxid_a' }, { username: 'wxid_b' }] }),
+            getDisplayNames: async () => ({ success: true, data: { wxid_a: '张三', wxid_b: '李四', [MY_WXID]: '我' } }),
+            getGroupNicknames: async () => ({ success: true, data: { wxid_b: '小李' } }),
+        } as unknown as DataSource;
+
+        const events = [parse('"张三"邀请"小李、路人"加入了群聊')!, parse('你被"张三"移出群聊')!];
+        await parser.resolveMembers(source, '123@chatroom', events);
+
+        assert.deepEqual(events[0].actor, { username: 'wxid_a', displayName: '张三' });
+        assert.deepEqual(events[0].targets, [
+            { username: 'wxid_b', displayName: '小李' },
+            { username: null, displayName: '路人' },
+        ]);
+        assert.deepEqual(events[1].targets, [{ username: MY_WXID, displayName: '我' }]);
+    });
+});
@@ -0,0 +1,367 @@
+/**
+ * MessageNormalizer 测试
+ * HTTP 和 WebSocket 都通过 normalizeRow / mapMessageType / toChatLab 输出消息，
+ * 这里用游标行的 fixture 覆盖每个 localType / xmlType 分支，保证两个通道的同一条消息结果一致
+ */
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageNormalizer, ChatLabType } from '../src/messageNormalizer.js';
+
+const MY_WXID = 'wxid_me';
+const PEER = 'wxid_peer';
+const GROUP = '123456@chatroom';
+
+// WeChat 4 的 local_type 高 32 位为 appmsg 子类型
+const REPLY_TYPE = 244813135921;
+const POKE_TYPE = 266287972401;
+const TRANSFER_TYPE = 8589934592049;
+const RED_PACKET_TYPE = 8594229559345;
+const ANNOUNCEMENT_TYPE = 373662154801;
+
+const normalizer = new MessageNormalizer();
+
+function row(localType: number, content: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        local_id: 1,
+        server_id: '1234567890123456789',
+        local_type: localType,
+        sort_seq: 1700000000000,
+        create_time: 1700000000,
+        message_content: content,
+        sender_username: PEER,
+        ...extra,
+    };
+}
+
+function appMessage(type: string, body = '', title = '标题'): string {
+    return `<?xml version="1.0"?><msg><appmsg appid="" sdkver="0"><title>${title}</title><type>${type}</type>${body}</appmsg></msg>`;
+}
+
+function voip(status: string, roomType?: number): string {
+    const room = roomType === undefined ? '' : `<room_type>${roomType}</room_type>`;
+    return `<voipmsg type="VoIPBubbleMsg"><VoIPBubbleMsg><msg><![CDATA[${status}]]></msg>${room}</VoIPBubbleMsg></voipmsg>`;
+}
+
+interface Fixture {
+    name: string;
+    row: Record<string, unknown>;
+    type: number;
+    content: string;
+    xmlType?: string;
+    url?: string;
+    referencedMessageId?: string;
+}
+
+const FIXTURES: Fixture[] = [
+    { name: '文本', row: row(1, '你好'), type: ChatLabType.TEXT, content: '你好' },
+    { name: '群聊文本去掉发送者前缀', row: row(1, 'wxid_peer:\n大家好'), type: ChatLabType.TEXT, content: '大家好' },
+    { name: '图片', row: row(3, '<msg><img md5="0123456789abcdef0123456789abcdef" /></msg>'), type: ChatLabType.IMAGE, content: '[图片]' },
+    { name: '语音', row: row(34, '<msg><voicemsg voicelength="3000" /></msg>'), type: ChatLabType.VOICE, content: '[语音消息]' },
+    { name: '名片', row: row(42, '<msg username="wxid_card" nickname="李四" alias="lisi" />'), type: ChatLabType.CONTACT, content: '[名片]' },
+    { name: '视频', row: row(43, '<msg><videomsg length="1024" /></msg>'), type: ChatLabType.VIDEO, content: '[视频]' },
+    { name: '动画表情', row: row(47, '<msg><emoji md5="abc" /></msg>'), type: ChatLabType.EMOJI, content: '[动画表情]' },
+    {
+        name: '位置',
+        row: row(48, '<msg><location x="39.9087" y="116.3975" label="北京市东城区" poiname="天安门" /></msg>'),
+        type: ChatLabType.LOCATION,
+        content: '[位置]',
+    },
+    { name: '语音通话（已接听）', row: row(50, voip('通话时长 01:23', 1)), type: ChatLabType.CALL, content: '[语音通话] 01:23' },
+    { name: '视频通话（已取消）', row: row(50, voip('已取消', 0)), type: ChatLabType.CALL, content: '[视频通话] 已取消' },
+    { name: '通话（对方无应答）', row: row(50, voip('对方无应答')), type: ChatLabType.CALL, content: '[通话] 对方无应答' },
+    { name: '通话（其他设备接听）', row: row(50, voip('已在其它设备接听', 1)), type: ChatLabType.CALL, content: '[语音通话] 已在其他设备接听' },
+    { name: '通话（拒绝）', row: row(50, voip('对方已拒绝', 1)), type: ChatLabType.CALL, content: '[语音通话] 对方已拒绝' },
+    { name: '通话（忙线）', row: row(50, voip('忙线未接听', 1)), type: ChatLabType.CALL, content: '[语音通话] 忙线未接听' },
+    { name: '通话（未接听）', row: row(50, voip('未接听', 0)), type: ChatLabType.CALL, content: '[视频通话] 未接听' },
+    { name: '通话（无状态）', row: row(50, '<voipmsg type="VoIPBubbleMsg"></voipmsg>'), type: ChatLabType.CALL, content: '[通话]' },
+    {
+        name: '系统消息',
+        row: row(10000, '"张三"邀请"李四"加入了群聊'),
+        type: ChatLabType.SYSTEM,
+        content: '“张三”邀请“李四”加入了群聊',
+    },
+    {
+        name: '撤回通知',
+        row: row(10002, '<sysmsg type="revokemsg"><revokemsg><session>wxid_peer</session><msgid>1</msgid>' +
+            '<newmsgid>7777777777777777777</newmsgid><replacemsg><![CDATA["张三" 撤回了一条消息]]></replacemsg></revokemsg></sysmsg>'),
+        type: ChatLabType.RECALL,
+        content: '“张三” 撤回了一条消息',
+        referencedMessageId: '7777777777777777777',
+    },
+    { name: '拍一拍', row: row(POKE_TYPE, '"张三" 拍了拍 "李四"'), type: ChatLabType.POKE, content: '“张三” 拍了拍 “李四”' },
+    {
+        name: '链接（type 5）',
+        row: row(49, appMessage('5', '<des>描述</des><url>https://example.com/article</url>')),
+        type: ChatLabType.LINK,
+        content: '[链接] 标题',
+        xmlType: '5',
+        url: 'https://example.com/article',
+    },
+    {
+        name: '链接（type 49，无协议的网址）',
+        row: row(49, appMessage('49', '<url>example.com/page</url>')),
+        type: ChatLabType.LINK,
+        content: '[链接] 标题',
+        xmlType: '49',
+        url: 'https://example.com/page',
+    },
+    {
+        name: '文件',
+        row: row(49, appMessage('6', '<appattach><totallen>1024</totallen><fileext>pdf</fileext></appattach><md5>abc</md5>', '报告.pdf')),
+        type: ChatLabType.FILE,
+        content: '[文件] 报告.pdf',
+        xmlType: '6',
+    },
+    {
+        name: '聊天记录',
+        row: row(49, appMessage('19', '<recorditem><![CDATA[<recordinfo><datalist count="1"><dataitem datatype="1">' +
+            '<datadesc>你好</datadesc><sourcename>张三</sourcename></dataitem></datalist></recordinfo>]]></recorditem>', '群聊的聊天记录')),
+        type: ChatLabType.FORWARD,
+        content: '[聊天记录] 群聊的聊天记录',
+        xmlType: '19',
+    },
+    {
+        name: '小程序（type 33）',
+        row: row(49, appMessage('33', '<weappinfo><appid>wx123</appid><pagepath>pages/index</pagepath></weappinfo>', '小程序标题')),
+        type: ChatLabType.SHARE,
+        content: '[小程序] 小程序标题',
+        xmlType: '33',
+    },
+    { name: '小程序（type 36）', row: row(49, appMessage('36')), type: ChatLabType.SHARE, content: '[小程序] 标题', xmlType: '36' },
+    {
+        name: '引用（localType 49）',
+        row: row(49, appMessage('57', '<refermsg><type>1</type><svrid>1111111111111111111</svrid><content>原文</content></refermsg>', '回复内容')),
+        type: ChatLabType.REPLY,
+        content: '[引用] 回复内容',
+        xmlType: '57',
+        referencedMessageId: '1111111111111111111',
+    },
+    {
+        name: '引用（WeChat 4 localType）',
+        row: row(REPLY_TYPE, appMessage('57', '<refermsg><type>1</type><svrid>2222222222222222222</svrid><content>原文</content></refermsg>', '回复内容')),
+        type: ChatLabType.REPLY,
+        content: '[引用] 回复内容',
+        xmlType: '57',
+        referencedMessageId: '2222222222222222222',
+    },
+    {
+        name: '转账（localType 49）',
+        row: row(49, appMessage('2000', '<wcpayinfo><paysubtype>1</paysubtype><feedesc>￥5.00</feedesc><pay_memo>饭钱</pay_memo></wcpayinfo>', '微信转账')),
+        type: ChatLabType.TRANSFER,
+        content: '[转账] ￥5.00 饭钱',
+        xmlType: '2000',
+    },
+    {
+        name: '转账（WeChat 4 localType）',
+        row: row(TRANSFER_TYPE, appMessage('2000', '<wcpayinfo><paysubtype>3</paysubtype><feedesc>￥5.00</feedesc></wcpayinfo>', '微信转账')),
+        type: ChatLabType.TRANSFER,
+        content: '[转账] ￥5.00',
+        xmlType: '2000',
+    },
+    {
+        name: '红包（localType 49）',
+        row: row(49, appMessage('2001', '<wcpayinfo><sendertitle>恭喜发财</sendertitle></wcpayinfo>', '微信红包')),
+        type: ChatLabType.RED_PACKET,
+        content: '[红包] 微信红包',
+        xmlType: '2001',
+    },
+    {
+        name: '红包（WeChat 4 localType）',
+        row: row(RED_PACKET_TYPE, appMessage('2001', '<wcpayinfo><sendertitle>恭喜发财</sendertitle></wcpayinfo>', '微信红包')),
+        type: ChatLabType.RED_PACKET,
+        content: '[红包] 微信红包',
+        xmlType: '2001',
+    },
+    {
+        name: '群公告',
+        row: row(ANNOUNCEMENT_TYPE, appMessage('87', '<textannouncement>明天开会</textannouncement>')),
+        type: ChatLabType.OTHER,
+        content: '[群公告] 明天开会',
+        xmlType: '87',
+    },
+    { name: '未知类型', row: row(99999, '未知内容'), type: ChatLabType.OTHER, content: '未知内容' },
+    { name: '空内容', row: row(99999, ''), type: ChatLabType.OTHER, content: '[类型 99999]' },
+];
+
+describe('MessageNormalizer fixtures', () => {
+    for (const fixture of FIXTURES) {
+        test(fixture.name, () => {
+            const msg = normalizer.normalizeRow(fixture.row, PEER, MY_WXID);
+
+            assert.equal(normalizer.mapMessageType(msg), fixture.type);
+            assert.equal(msg.parsedContent, fixture.content);
+            assert.equal(msg.xmlType, fixture.xmlType);
+            assert.equal(msg.url, fixture.url);
+            assert.equal(msg.referencedMessageId, fixture.referencedMessageId);
+
+            // ChatLab 输出与 JSON 输出使用同一份解析结果
+            const chatlab = normalizer.toChatLab(msg);
+            assert.equal(chatlab.type, fixture.type);
+            assert.equal(chatlab.content, fixture.content);
+        });
+    }
+});
+
+describe('normalizeRow', () => {
+    test('解析行的基础字段', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好'), PEER, MY_WXID);
+        assert.equal(msg.localId, 1);
+        assert.equal(msg.serverId, '1234567890123456789');
+        assert.equal(msg.localType, 1);
+        assert.equal(msg.createTime, 1700000000);
+        assert.equal(msg.sortSeq, 1700000000000);
+        assert.equal(msg.rawContent, '你好');
+    });
+
+    test('没有 sort_seq 时按 create_time 排序', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好', { sort_seq: undefined }), PEER, MY_WXID);
+        assert.equal(msg.sortSeq, 1700000000);
+    });
+
+    test('hex 编码的内容', () => {
+        const hex = Buffer.from('这是一段十六进制编码的文本', 'utf-8').toString('hex');
+        const msg = normalizer.normalizeRow(row(1, hex), PEER, MY_WXID);
+        assert.equal(msg.parsedContent, '这是一段十六进制编码的文本');
+    });
+
+    test('优先使用 compress_content', () => {
+        const msg = normalizer.normalizeRow(row(1, '旧内容', { compress_content: '新内容' }), PEER, MY_WXID);
+        assert.equal(msg.parsedContent, '新内容');
+    });
+
+    test('群消息的 @ 列表', () => {
+        const source = '<msgsource><atuserlist><![CDATA[wxid_me,wxid_other]]></atuserlist></msgsource>';
+        const msg = normalizer.normalizeRow(row(1, '@me 你好', { source }), GROUP, MY_WXID);
+        assert.deepEqual(msg.mentions, ['wxid_me', 'wxid_other']);
+        assert.equal(msg.mentionsAll, false);
+        assert.equal(normalizer.mentionsUser(msg, MY_WXID), true);
+    });
+
+    test('私聊消息没有 @ 列表', () => {
+        const source = '<msgsource><atuserlist>wxid_me</atuserlist></msgsource>';
+        const msg = normalizer.normalizeRow(row(1, '你好', { source }), PEER, MY_WXID);
+        assert.deepEqual(msg.mentions, []);
+    });
+});
+
+describe('发送者判断', () => {
+    test('computed_is_send = 1 视为自己发送', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好', { computed_is_send: 1, sender_username: '' }), PEER, MY_WXID);
+        assert.equal(msg.isSend, 1);
+        assert.equal(msg.senderUsername, MY_WXID);
+    });
+
+    test('computed_is_send 优先于 is_send', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好', { computed_is_send: 0, is_send: 1 }), PEER, MY_WXID);
+        assert.equal(msg.isSend, 0);
+        assert.equal(msg.senderUsername, PEER);
+    });
+
+    test('没有 computed_is_send 时使用 is_send', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好', { is_send: 1, sender_username: '' }), PEER, MY_WXID);
+        assert.equal(msg.isSend, 1);
+        assert.equal(msg.senderUsername, MY_WXID);
+    });
+
+    test('sender_username 为自己时视为自己发送', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好', { sender_username: 'wxid_me_b0e4' }), GROUP, MY_WXID);
+        assert.equal(msg.isSend, 1);
+        assert.equal(msg.senderUsername, MY_WXID);
+    });
+
+    test('私聊中对方的消息没有 sender_username 时发送者为会话', () => {
+        const msg = normalizer.normalizeRow(row(1, '你好', { sender_username: '' }), PEER, MY_WXID);
+        assert.equal(msg.isSend, 0);
+        assert.equal(msg.senderUsername, PEER);
+    });
+
+    test('isSelfSender', () => {
+        assert.equal(normalizer.isSelfSender('wxid_me', MY_WXID), true);
+        assert.equal(normalizer.isSelfSender('WXID_ME', MY_WXID), true);
+        assert.equal(normalizer.isSelfSender('wxid_me_b0e4', MY_WXID), true);
+        assert.equal(normalizer.isSelfSender('wxid_me', 'wxid_me_b0e4'), true);
+        assert.equal(normalizer.isSelfSender('wxid_mea', MY_WXID), false);
+        assert.equal(normalizer.isSelfSender('', MY_WXID), false);
+        assert.equal(normalizer.isSelfSender('wxid_me', ''), false);
+    });
+});
+
+describe('getRichPayload', () => {
+    const payload = (fixtureName: string) => {
+        const fixture = FIXTURES.find((f) => f.name === fixtureName)!;
+        return normalizer.getRichPayload(normalizer.normalizeRow(fixture.row, PEER, MY_WXID), MY_WXID);
+    };
+
+    test('链接', () => {
+        assert.deepEqual(payload('链接（type 5）'), {
+            kind: 'link', title: '标题', description: '描述', url: 'https://example.com/article', thumbUrl: null, sourceName: null,
+        });
+    });
+
+    test('文件', () => {
+        assert.deepEqual(payload('文件'), { kind: 'file', name: '报告.pdf', size: 1024, extension: 'pdf', md5: 'abc' });
+    });
+
+    test('位置', () => {
+        assert.deepEqual(payload('位置'), { kind: 'location', latitude: 39.9087, longitude: 116.3975, label: '北京市东城区', poiName: '天安门' });
+    });
+
+    test('转账', () => {
+        assert.deepEqual(payload('转账（localType 49）'), {
+            kind: 'transfer', amount: 5, amountText: '￥5.00', status: 'pending', memo: '饭钱', direction: 'in', transferId: null,
+        });
+    });
+
+    test('红包', () => {
+        assert.deepEqual(payload('红包（localType 49）'), { kind: 'red_packet', greeting: '恭喜发财' });
+    });
+
+    test('小程序', () => {
+        assert.deepEqual(payload('小程序（type 33）'), {
+            kind: 'mini_program', title: '小程序标题', appId: 'wx123', pagePath: 'pages/index', username: null, sourceName: null,
+        });
+    });
+
+    test('名片', () => {
+        assert.deepEqual(payload('名片'), { kind: 'contact_card', username: 'wxid_card', nickname: '李四', alias: 'lisi' });
+    });
+
+    test('语音', () => {
+        assert.deepEqual(payload('语音'), { kind: 'voice', duration: 3000 });
+    });
+
+    test('聊天记录', () => {
+        assert.deepEqual(payload('聊天记录'), {
+            kind: 'forward',
+            title: '群聊的聊天记录',
+            description: null,
+            items: [{ sourceName: '张三', sourceTime: null, timestamp: null, dataType: 1, text: '你好' }],
+        });
+    });
+
+    test('文本没有结构化内容', () => {
+        assert.equal(payload('文本'), null);
+    });
+});
+
+describe('引用消息', () => {
+    test('getQuotedMessage 解析 refermsg', () => {
+        const content = appMessage('57', '<refermsg><type>1</type><svrid>3333333333333333333</svrid><fromusr>123456@chatroom</fromusr>' +
+            '<chatusr>wxid_peer</chatusr><displayname>张三</displayname><content>原文</content><createtime>1699999999</createtime></refermsg>', '回复');
+        const msg = normalizer.normalizeRow(row(REPLY_TYPE, content), GROUP, MY_WXID);
+        assert.deepEqual(normalizer.getQuotedMessage(msg), {
+            platformMessageId: '3333333333333333333',
+            sender: 'wxid_peer',
+            displayName: '张三',
+            type: ChatLabType.TEXT,
+            content: '原文',
+            timestamp: 1699999999,
+        });
+    });
+
+    test('refermsg 不完整时返回 null', () => {
+        const content = appMessage('57', '<refermsg><svrid>3333333333333333333</svrid></refermsg>', '回复');
+        const msg = normalizer.normalizeRow(row(REPLY_TYPE, content), GROUP, MY_WXID);
+        assert.equal(normalizer.getQuotedMessage(msg), null);
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * 调度器测试：优先级出队顺序、等待过久的调用提升、统计计数
+ */
+import { describe, test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpScheduler, runWithPriority, currentPriority, type OpPriority } from '../src/opScheduler.js';
+
+let now: number;
+
+beforeEach(() => {
+    now = 1_000_000;
+    mock.method(Date, 'now', () => now);
+});
+
+afterEach(() => {
+    mock.restoreAll();
+});
+
+/** 占住调度器的调用，release 之前后续调用都只能排队 */
+function hold(scheduler: OpScheduler, priority: OpPriority = 'interactive'): { done: Promise<void>; release: () => void } {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+    const done = scheduler.run(() => gate, priority);
+    return { done, release };
+}
+
+describe('OpScheduler', () => {
+    test('空闲时立即执行并返回结果', async () => {
+        const scheduler = new OpScheduler();
+        assert.equal(await scheduler.run(() => 42), 42);
+        await assert.rejects(scheduler.run(() => { throw new Error('boom'); }), /boom/);
+        assert.equal(await scheduler.run(async () => 'after error'), 'after error');
+    });
+
+    test('同一时间只执行一个调用', async () => {
+        const scheduler = new OpScheduler();
+        let active = 0;
+        let maxActive = 0;
+        const op = async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise((resolve) => setImmediate(resolve));
+            active--;
+        };
+        await Promise.all([scheduler.run(op), scheduler.run(op, 'bulk'), scheduler.run(op, 'realtime')]);
+        assert.equal(maxActive, 1);
+    });
+
+    test('按 realtime > interactive > bulk 出队，同优先级先进先出', async () => {
+        const scheduler = new OpScheduler();
+        const blocker = hold(scheduler);
+        const order: string[] = [];
+        const enqueue = (name: string, priority: OpPriority) => scheduler.run(() => { order.push(name); }, priority);
+
+        const ops = [
+            enqueue('bulk-1', 'bulk'),
+            enqueue('interactive-1', 'interactive'),
+            enqueue('bulk-2', 'bulk'),
+            enqueue('realtime-1', 'realtime'),
+            enqueue('interactive-2', 'interactive'),
+            enqueue('realtime-2', 'realtime'),
+        ];
+        blocker.release();
+        await Promise.all([blocker.done, ...ops]);
+
+        assert.deepEqual(order, ['realtime-1', 'realtime-2', 'interactive-1', 'interactive-2', 'bulk-1', 'bulk-2']);
+    });
+
+    test('未指定优先级时使用 runWithPriority 的上下文，默认 interactive', async () => {
+        assert.equal(currentPriority(), 'interactive');
+
+        const scheduler = new OpScheduler();
+        const blocker = hold(scheduler);
+        const order: string[] = [];
+        const ops = [
+            runWithPriority('bulk', async () => {
+                assert.equal(currentPriority(), 'bulk');
+                await Promise.resolve();
+                return scheduler.run(() => { order.push('bulk'); });
+            }),
+            scheduler.run(() => { order.push('interactive'); }),
+            runWithPriority('realtime', () => scheduler.run(() => { order.push('realtime'); })),
+        ];
+        blocker.release();
+        await Promise.all([blocker.done, ...ops]);
+
+        assert.deepEqual(order, ['realtime', 'interactive', 'bulk']);
+        const stats = scheduler.getStats().priorities;
+        assert.equal(stats.bulk.enqueued, 1);
+        assert.equal(stats.realtime.enqueued, 1);
+        assert.equal(stats.interactive.enqueued, 2);
+    });
+
+    test('等待超过 5 秒的低优先级调用提升到队首', async () => {
+        const scheduler = new OpScheduler();
+        const blocker = hold(scheduler, 'realtime');
+        const order: string[] = [];
+        const enqueue = (name: string, priority: OpPriority) => scheduler.run(() => { order.push(name); }, priority);
+
+        const ops = [enqueue('bulk-old', 'bulk')];
+        now += 5001;
+        ops.push(enqueue('bulk-new', 'bulk'), enqueue('realtime', 'realtime'), enqueue('interactive', 'interactive'));
+        blocker.release();
+        await Promise.all([blocker.done, ...ops]);
+
+        // 只有队首等待过久的调用被提升，之后的调用仍按优先级出队
+        assert.deepEqual(order, ['bulk-old', 'realtime', 'interactive', 'bulk-new']);
+        assert.equal(scheduler.getStats().priorities.bulk.promoted, 1);
+    });
+
+    test('等待恰好 5 秒时不提升', async () => {
+        const scheduler = new OpScheduler();
+        const blocker = hold(scheduler);
+        const order: string[] = [];
+        const ops = [scheduler.run(() => { order.push('bulk'); }, 'bulk')];
+        now += 5000;
+        ops.push(scheduler.run(() => { order.push('interactive'); }, 'interactive'));
+        blocker.release();
+        await Promise.all([blocker.done, ...ops]);
+
+        assert.deepEqual(order, ['interactive', 'bulk']);
+        assert.equal(scheduler.getStats().priorities.bulk.promoted, 0);
+    });
+
+    test('interactive 等待过久时先于 realtime 出队', async () => {
+        const scheduler = new OpScheduler();
+        const blocker = hold(scheduler, 'realtime');
+        const order: string[] = [];
+        const ops = [scheduler.run(() => { order.push('interactive'); }, 'interactive')];
+        now += 6000;
+        ops.push(scheduler.run(() => { order.push('realtime'); }, 'realtime'));
+        blocker.release();
+        await Promise.all([blocker.done, ...ops]);
+
+        assert.deepEqual(order, ['interactive', 'realtime']);
+        assert.equal(scheduler.getStats().priorities.interactive.promoted, 1);
+    });
+
+    test('统计队列深度、出队次数和等待时间', async () => {
+        const scheduler = new OpScheduler();
+        const blocker = hold(scheduler, 'realtime');
+
+        const ops = [scheduler.run(() => undefined, 'bulk')];
+        now += 1000;
+        ops.push(scheduler.run(() => undefined, 'bulk'), scheduler.run(() => undefined, 'interactive'));
+        now += 500;
+
+        const waiting = scheduler.getStats();
+        assert.equal(waiting.running, true);
+        assert.equal(waiting.depth, 3);
+        assert.deepEqual(waiting.priorities.bulk, {
+            depth: 2, enqueued: 2, dispatched: 0, promoted: 0, avgWaitMs: 0, maxWaitMs: 0, oldestWaitingMs: 1500,
+        });
+        assert.equal(waiting.priorities.interactive.oldestWaitingMs, 500);
+        assert.equal(waiting.priorities.realtime.depth, 0);
+        assert.equal(waiting.priorities.realtime.dispatched, 1);
+
+        blocker.release();
+        await Promise.all([blocker.done, ...ops]);
+
+        const idle = scheduler.getStats();
+        assert.equal(idle.running, false);
+        assert.equal(idle.depth, 0);
+        // 两个 bulk 调用分别等待了 1500ms 和 500ms
+        assert.deepEqual(idle.priorities.bulk, {
+            depth: 0, enqueued: 2, dispatched: 2, promoted: 0, avgWaitMs: 1000, maxWaitMs: 1500, oldestWaitingMs: 0,
+        });
+        assert.equal(idle.priorities.interactive.avgWaitMs, 500);
+        assert.equal(idle.priorities.realtime.avgWaitMs, 0);
+    });
+});
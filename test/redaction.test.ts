@@ -0,0 +1,91 @@
+/**
+ * 打码测试：手机号、身份证号、银行卡号、金额的识别与遮盖
+ */
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactText, redactObject } from '../src/redaction.js';
+import type { RedactRule } from '../src/config.js';
+
+const ALL = new Set<RedactRule>(['phone', 'idcard', 'bankcard', 'amount']);
+
+function redact(text: string, rules: RedactRule[] | Set<RedactRule> = ALL): string {
+    return redactText(text, rules instanceof Set ? rules : new Set(rules));
+}
+
+describe('redactText', () => {
+    test('手机号保留前三位和后四位', () => {
+        assert.equal(redact('13812345678', ['phone']), '138****5678');
+        assert.equal(redact('call 138 1234 5678 now', ['phone']), 'call 138 **** 5678 now');
+        assert.equal(redact('+8613812345678', ['phone']), '+86138****5678');
+        assert.equal(redact('86-138-1234-5678', ['phone']), '86-138-****-5678');
+        // 号段不合法或位数不对时不处理
+        assert.equal(redact('12812345678', ['phone']), '12812345678');
+        assert.equal(redact('138123456789', ['phone']), '138123456789');
+    });
+
+    test('身份证号保留前三位和后四位', () => {
+        assert.equal(redact('11010519491231002X', ['idcard']), '110***********002X');
+        assert.equal(redact('身份证:110105194912310021。', ['idcard']), '身份证:110***********0021。');
+        assert.equal(redact('11010519491231002x', ['idcard']), '110***********002x');
+        // 前后紧跟字母或数字时不是身份证号
+        assert.equal(redact('A11010519491231002X', ['idcard']), 'A11010519491231002X');
+        assert.equal(redact('1101051949123100211', ['idcard']), '1101051949123100211');
+    });
+
+    test('银行卡号只保留后四位，分隔符原样保留', () => {
+        assert.equal(redact('6222021234567890', ['bankcard']), '************7890');
+        assert.equal(redact('卡号 6222 0212 3456 7890 尾', ['bankcard']), '卡号 **** **** **** 7890 尾');
+        assert.equal(redact('6222-0212-3456-7890-123', ['bankcard']), '****-****-****-***0-123');
+        assert.equal(redact('6222021234567890123', ['bankcard']), '***************0123');
+        // 少于 16 位不处理
+        assert.equal(redact('622202123456789', ['bankcard']), '622202123456789');
+    });
+
+    test('同时启用时身份证号优先于银行卡号', () => {
+        assert.equal(redact('110105194912310021', ['idcard', 'bankcard']), '110***********0021');
+        assert.equal(redact('110105194912310021', ['bankcard']), '**************0021');
+    });
+
+    test('金额', () => {
+        assert.equal(redact('收款 ¥1,234.50', ['amount']), '收款 ¥***');
+        assert.equal(redact('￥ 88', ['amount']), '￥***');
+        assert.equal(redact('转账200元', ['amount']), '转账***元');
+        assert.equal(redact('共 3.5 元', ['amount']), '共 ***元');
+        assert.equal(redact('200 块', ['amount']), '200 块');
+    });
+
+    test('只应用启用的规则', () => {
+        const text = '13812345678 ¥5';
+        assert.equal(redact(text, []), text);
+        assert.equal(redact(text, ['amount']), '13812345678 ¥***');
+        assert.equal(redact(text), '138****5678 ¥***');
+    });
+});
+
+describe('redactObject', () => {
+    test('处理嵌套对象和数组中的字符串，数值型 amount 置为 null', () => {
+        const value = {
+            content: '13812345678',
+            amount: 100,
+            count: 100,
+            nested: { amount: '¥100', list: ['200元', 13812345678] },
+            flag: true,
+        };
+        assert.deepEqual(redactObject(value, ALL), {
+            content: '138****5678',
+            amount: null,
+            count: 100,
+            nested: { amount: '¥***', list: ['***元', 13812345678] },
+            flag: true,
+        });
+    });
+
+    test('未启用 amount 时保留数值型 amount', () => {
+        assert.deepEqual(redactObject({ amount: 100 }, new Set<RedactRule>(['phone'])), { amount: 100 });
+    });
+
+    test('规则为空时返回原对象', () => {
+        const value = { content: '13812345678' };
+        assert.equal(redactObject(value, new Set()), value);
+    });
+});
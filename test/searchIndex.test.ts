@@ -0,0 +1,121 @@
+/**
+ * 全文检索测试：索引分词、搜索词到 FTS5 查询的转换（引号和特殊字符不能破坏查询语法）、摘要高亮
+ */
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { tokenizeForIndex, buildMatchQuery, highlightSnippet } from '../src/searchIndex.js';
+
+describe('tokenizeForIndex', () => {
+    test('中日韩文字切为二元组，末字单独成词', () => {
+        assert.equal(tokenizeForIndex('项目进度'), '项目 目进 进度 度');
+        assert.equal(tokenizeForIndex('好'), '好');
+    });
+
+    test('字母数字连续成词并转为小写，标点作为分隔', () => {
+        assert.equal(tokenizeForIndex('Hello, World_42!'), 'hello world 42');
+        assert.equal(tokenizeForIndex('周五review PR#12'), '周五 五 review pr 12');
+        assert.equal(tokenizeForIndex('  '), '');
+    });
+});
+
+describe('buildMatchQuery', () => {
+    test('字母数字前缀匹配，多个词同时出现', () => {
+        assert.equal(buildMatchQuery('hello'), '"hello"*');
+        assert.equal(buildMatchQuery('Hello  World'), '"hello"* AND "world"*');
+    });
+
+    test('中日韩文字转为二元组短语，单字前缀匹配', () => {
+        assert.equal(buildMatchQuery('项目进度'), '"项目 目进 进度"');
+        assert.equal(buildMatchQuery('项'), '"项"*');
+        assert.equal(buildMatchQuery('周五review'), '"周五" AND "review"*');
+    });
+
+    test('引号和特殊字符不会出现在查询中', () => {
+        assert.equal(buildMatchQuery('"hello"'), '"hello"*');
+        assert.equal(buildMatchQuery('say "hi" there'), '"say"* AND "hi"* AND "there"*');
+        assert.equal(buildMatchQuery('it\'s'), '"it"* AND "s"*');
+        assert.equal(buildMatchQuery('a"b'), '"a"* AND "b"*');
+        assert.equal(buildMatchQuery('“项目”'), '"项目"');
+        assert.equal(buildMatchQuery('tokens:secret'), '"tokens"* AND "secret"*');
+        assert.equal(buildMatchQuery('(a OR b)*'), '"a"* AND "or"* AND "b"*');
+        assert.equal(buildMatchQuery('-x ^y +z'), '"x"* AND "y"* AND "z"*');
+    });
+
+    test('FTS5 关键字作为普通词查询', () => {
+        assert.equal(buildMatchQuery('NOT'), '"not"*');
+        assert.equal(buildMatchQuery('NEAR(a b)'), '"near"* AND "a"* AND "b"*');
+    });
+
+    test('没有可搜索的内容时返回 null', () => {
+        for (const q of ['', '   ', '"', '""', '*', '()', '-', '^', ':', '"*"', '!@#$%']) {
+            assert.equal(buildMatchQuery(q), null, JSON.stringify(q));
+        }
+    });
+});
+
+describe('buildMatchQuery 在 FTS5 中执行', () => {
+    let db: Database.Database;
+    const docs = [
+        '明天下午开会讨论项目进度',
+        'Say "hello" to the NOT operator',
+        'col:value (a OR b) NEAR',
+        '项目',
+        'hello-world 2024',
+    ];
+
+    before(() => {
+        db = new Database(':memory:');
+        db.exec('CREATE VIRTUAL TABLE messages_fts USING fts5(tokens)');
+        const insert = db.prepare('INSERT INTO messages_fts (rowid, tokens) VALUES (?, ?)');
+        docs.forEach((doc, index) => insert.run(index + 1, tokenizeForIndex(doc)));
+    });
+
+    after(() => {
+        db.close();
+    });
+
+    function search(q: string): number[] {
+        const match = buildMatchQuery(q);
+        assert.ok(match, q);
+        return db.prepare('SELECT rowid FROM messages_fts WHERE messages_fts MATCH ? ORDER BY rowid')
+            .pluck()
+            .all(match) as number[];
+    }
+
+    test('带引号和特殊字符的搜索词不产生语法错误', () => {
+        const queries = [
+            '"hello', 'hello"', '"say "hello"', 'col:value', 'tokens:hello', '(a OR b)', 'a AND', 'OR',
+            'NOT', 'NEAR(a, b)', '*hello', 'hello*', '-world', '^hello', '{col}', '"项目', '项目"进度', '\'; DROP TABLE x; --',
+        ];
+        for (const q of queries) {
+            assert.doesNotThrow(() => search(q), q);
+        }
+    });
+
+    test('命中结果', () => {
+        assert.deepEqual(search('项目进度'), [1]);
+        assert.deepEqual(search('项目'), [1, 4]);
+        assert.deepEqual(search('进'), [1]);
+        assert.deepEqual(search('"hello"'), [2, 5]);
+        assert.deepEqual(search('hel'), [2, 5]);
+        assert.deepEqual(search('NOT operator'), [2]);
+        assert.deepEqual(search('col:value'), [3]);
+        assert.deepEqual(search('(a OR b)'), [3]);
+        assert.deepEqual(search('hello-world'), [5]);
+        assert.deepEqual(search('进度 2024'), []);
+    });
+});
+
+describe('highlightSnippet', () => {
+    test('标出命中词并转义其余 HTML', () => {
+        assert.equal(highlightSnippet('<b>Hello</b> world', 'hello'), '&lt;b&gt;<mark>Hello</mark>&lt;/b&gt; world');
+        assert.equal(highlightSnippet('明天开会讨论项目进度', '项目 开会'), '明天<mark>开会</mark>讨论<mark>项目</mark>进度');
+    });
+
+    test('长文本截取命中词附近的文字', () => {
+        const content = `${'a'.repeat(50)}keyword${'b'.repeat(100)}`;
+        const snippet = highlightSnippet(content, 'keyword', 10);
+        assert.equal(snippet, `…${'a'.repeat(10)}<mark>keyword</mark>${'b'.repeat(13)}…`);
+    });
+});